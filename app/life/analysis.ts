@@ -0,0 +1,139 @@
+// --- Analysis ---
+// 実行中の宇宙の統計 (外接矩形・誕生/死亡数) と、周期の検出。
+// 周期は世代ごとの状態ハッシュを覚えておき、同じハッシュが再び現れたら、その間隔を周期とする。
+// ハッシュは外接矩形の左上からの相対位置で計算するので、平行移動した宇宙船も同じ値になる
+
+import { Board, wordsPerRow } from "./engine";
+
+export type CellBounds = { x: number; y: number; width: number; height: number };
+
+// empty: 全滅, still: 固定物体, oscillator: 振動子, spaceship: 周期ごとに (dx, dy) 動く
+export type Periodicity = {
+  kind: "empty" | "still" | "oscillator" | "spaceship";
+  period: number;
+  dx: number;
+  dy: number;
+};
+
+export type LifeStats = {
+  births: number | null; // 直前の1世代で生まれた数 (HashLife では数えない)
+  deaths: number | null;
+  bounds: CellBounds | null;
+  periodicity: Periodicity | null;
+};
+
+const MAX_PERIOD = 256; // これより長い周期は探さない
+
+// 0 でないセルを順不同で渡す
+export type CellVisitor = (callback: (x: number, y: number, state: number) => void) => void;
+
+export const boardVisitor = (board: Board): CellVisitor => (callback) => {
+  const { width, height, data } = board;
+  if (board.format === "bytes") {
+    for (let i = 0; i < width * height; i++) if (data[i]) callback(i % width, Math.floor(i / width), data[i]);
+    return;
+  }
+  const words = wordsPerRow(width);
+  for (let y = 0; y < height; y++) {
+    for (let w = 0; w < words; w++) {
+      let bits = data[y * words + w];
+      while (bits !== 0) {
+        callback((w << 5) + 31 - Math.clz32(bits & -bits), y, 1);
+        bits &= bits - 1;
+      }
+    }
+  }
+};
+
+export const findBounds = (visit: CellVisitor): CellBounds | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  visit((x, y) => {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  });
+  return maxX === -Infinity ? null : { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+// murmur3 の最終ミックス
+const mix = (h: number) => {
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// セルごとのハッシュを足し合わせる (足し算は順序によらない)。2系統を 53bit の数値にまとめる
+export const hashCells = (visit: CellVisitor, bounds: CellBounds | null) => {
+  if (!bounds) return 0;
+  let a = 0, b = 0;
+  visit((x, y, state) => {
+    const dx = x - bounds.x;
+    const dy = y - bounds.y;
+    a = (a + mix(Math.imul(dx, 0x9e3779b1) ^ Math.imul(dy, 0x85ebca77) ^ state)) >>> 0;
+    b = (b + mix(Math.imul(dy, 0x27d4eb2f) ^ Math.imul(dx, 0x165667b1) ^ Math.imul(state, 0x61c88647))) >>> 0;
+  });
+  a = mix(a ^ bounds.width);
+  b = mix(b ^ Math.imul(bounds.height, 0x9e3779b1));
+  return a * 2 ** 21 + (b & 0x1fffff);
+};
+
+// 1世代前と今の盤面を比べる。生 (1) になったセルが誕生、生でなくなったセルが死亡
+export const countChanges = (previous: Board, current: Board) => {
+  let births = 0, deaths = 0;
+  const before = previous.data;
+  const after = current.data;
+  if (current.format === "bits") {
+    for (let i = 0; i < after.length; i++) {
+      const born = after[i] & ~before[i];
+      const died = before[i] & ~after[i];
+      if (born) births += popcount(born);
+      if (died) deaths += popcount(died);
+    }
+  } else {
+    for (let i = 0; i < after.length; i++) {
+      if (after[i] === 1 && before[i] !== 1) births++;
+      else if (before[i] === 1 && after[i] !== 1) deaths++;
+    }
+  }
+  return { births, deaths };
+};
+
+const popcount = (v: number) => {
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+// 連続した世代を順に record する。世代が飛んだ (編集・巻き戻し) ら reset する
+export class PeriodDetector {
+  private seen = new Map<number, { generation: number; x: number; y: number }>();
+  private recent: { hash: number; generation: number }[] = [];
+
+  reset() {
+    this.seen.clear();
+    this.recent = [];
+  }
+
+  record(generation: number, hash: number, bounds: CellBounds | null): Periodicity | null {
+    const x = bounds?.x ?? 0;
+    const y = bounds?.y ?? 0;
+    const previous = this.seen.get(hash);
+    this.seen.set(hash, { generation, x, y });
+    this.recent.push({ hash, generation });
+    // 古い世代は忘れる (同じハッシュが後で記録し直されていれば残す)
+    while (this.recent.length > MAX_PERIOD + 1) {
+      const old = this.recent.shift()!;
+      if (this.seen.get(old.hash)?.generation === old.generation) this.seen.delete(old.hash);
+    }
+
+    if (!bounds) return { kind: "empty", period: 1, dx: 0, dy: 0 };
+    if (!previous) return null;
+    const period = generation - previous.generation;
+    if (period <= 0 || period > MAX_PERIOD) return null;
+    const dx = x - previous.x;
+    const dy = y - previous.y;
+    if (dx !== 0 || dy !== 0) return { kind: "spaceship", period, dx, dy };
+    return { kind: period === 1 ? "still" : "oscillator", period, dx, dy };
+  }
+}
@@ -0,0 +1,77 @@
+// --- Editing Tools ---
+// ブラシ・図形・選択範囲の操作。セル列は [x, y, x, y, ...] の平らな配列で扱う (Worker への edit と同じ並び)
+
+import { LifePattern, PatternCell } from "./pattern-io";
+
+export type BrushMode = "draw" | "erase" | "toggle";
+export type EditTool = "pencil" | "line" | "rect" | "select";
+
+export type CellRect = { x0: number; y0: number; x1: number; y1: number };
+
+// ドラッグ方向に関係なく左上 -> 右下の矩形にする
+export const normalizeRect = ({ x0, y0, x1, y1 }: CellRect): CellRect => ({
+  x0: Math.min(x0, x1), y0: Math.min(y0, y1), x1: Math.max(x0, x1), y1: Math.max(y0, y1)
+});
+
+// ブレゼンハムの直線。端点を含む
+export const lineCells = (x0: number, y0: number, x1: number, y1: number) => {
+  const cells: number[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0, y = y0;
+  for (;;) {
+    cells.push(x, y);
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) { err += dy; x += sx; }
+    if (e2 <= dx) { err += dx; y += sy; }
+  }
+  return cells;
+};
+
+// 矩形の外周 (重複なし)
+export const rectCells = (rect: CellRect) => {
+  const { x0, y0, x1, y1 } = normalizeRect(rect);
+  const cells: number[] = [];
+  for (let x = x0; x <= x1; x++) {
+    cells.push(x, y0);
+    if (y1 !== y0) cells.push(x, y1);
+  }
+  for (let y = y0 + 1; y < y1; y++) {
+    cells.push(x0, y);
+    if (x1 !== x0) cells.push(x1, y);
+  }
+  return cells;
+};
+
+// 範囲内の 0 でないセルをパターンとして切り出す (大きさは範囲そのまま)
+export const extractPattern = (rect: CellRect, getCell: (x: number, y: number) => number): LifePattern => {
+  const { x0, y0, x1, y1 } = normalizeRect(rect);
+  const cells: PatternCell[] = [];
+  for (let y = y0; y <= y1; y++) {
+    for (let x = x0; x <= x1; x++) {
+      const state = getCell(x, y);
+      if (state) cells.push({ x: x - x0, y: y - y0, state });
+    }
+  }
+  return { name: null, rule: null, width: x1 - x0 + 1, height: y1 - y0 + 1, cells };
+};
+
+// 時計回りに 90度
+export const rotatePattern = (pattern: LifePattern): LifePattern => ({
+  ...pattern,
+  width: pattern.height,
+  height: pattern.width,
+  cells: pattern.cells.map(({ x, y, state }) => ({ x: pattern.height - 1 - y, y: x, state }))
+});
+
+// horizontal: 左右反転, vertical: 上下反転
+export const flipPattern = (pattern: LifePattern, axis: "horizontal" | "vertical"): LifePattern => ({
+  ...pattern,
+  cells: pattern.cells.map(({ x, y, state }) => (axis === "horizontal"
+    ? { x: pattern.width - 1 - x, y, state }
+    : { x, y: pattern.height - 1 - y, state }))
+});
@@ -0,0 +1,297 @@
+// --- Simulation Core ---
+// DOM に依存しない純粋なモジュール (Worker からも Node からも使える)。
+// 2状態のルールは 1行を 32セル/ワードに詰めたビットボードで、全ワードを並列に計算する。
+// Generations (3状態以上) は 1セル 1バイトで持つ。端のつながり方 (トポロジー) は盤面ごとに選べる。
+
+import { LifeRule, nextCellState } from "./rules";
+
+export type CellFormat = "bits" | "bytes";
+
+// torus: 上下左右がつながる, dead: 盤面の外は常に死, klein: 左右はつながり、上下は左右反転してつながる (クラインの壺)。
+// plane は盤面を持たない無限平面 (sparse.ts / hashlife.ts が扱う)
+export type BoundedTopology = "torus" | "dead" | "klein";
+export type Topology = BoundedTopology | "plane";
+
+export type Board = {
+  width: number;
+  height: number;
+  format: CellFormat;
+  data: Uint32Array | Uint8Array; // bits: 行ごとに wordsPerRow ワード (x の下位5bitがビット位置), bytes: 行優先で1セル1バイト
+};
+
+export const wordsPerRow = (width: number) => (width + 31) >>> 5;
+
+export const formatForRule = (rule: LifeRule): CellFormat => (rule.states > 2 ? "bytes" : "bits");
+
+export const createBoard = (width: number, height: number, format: CellFormat): Board => ({
+  width,
+  height,
+  format,
+  data: format === "bits" ? new Uint32Array(wordsPerRow(width) * height) : new Uint8Array(width * height)
+});
+
+export const cloneBoard = (board: Board): Board => ({ ...board, data: board.data.slice() });
+
+// 範囲チェックは呼び出し側で行う
+export const getCell = (board: Board, x: number, y: number) => {
+  if (board.format === "bits") {
+    return (board.data[y * wordsPerRow(board.width) + (x >>> 5)] >>> (x & 31)) & 1;
+  }
+  return board.data[y * board.width + x];
+};
+
+export const setCell = (board: Board, x: number, y: number, state: number) => {
+  if (board.format === "bits") {
+    const idx = y * wordsPerRow(board.width) + (x >>> 5);
+    const bit = 1 << (x & 31);
+    board.data[idx] = state ? board.data[idx] | bit : board.data[idx] & ~bit;
+    return;
+  }
+  board.data[y * board.width + x] = state;
+};
+
+// 形式の変換。bits にするときは消えかけ (2以上) のセルを捨て、bytes にするときは maxState で頭打ちにする
+export const convertBoard = (board: Board, format: CellFormat, maxState = 1): Board => {
+  const next = createBoard(board.width, board.height, format);
+  for (let y = 0; y < board.height; y++) {
+    for (let x = 0; x < board.width; x++) {
+      const state = getCell(board, x, y);
+      if (format === "bits" ? state === 1 : state > 0) setCell(next, x, y, Math.min(state, maxState));
+    }
+  }
+  return next;
+};
+
+const popcount = (v: number) => {
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+};
+
+// 生 (state 1) のセル数
+export const countPopulation = (board: Board) => {
+  let count = 0;
+  const { data } = board;
+  if (board.format === "bits") {
+    for (let i = 0; i < data.length; i++) count += popcount(data[i]);
+  } else {
+    for (let i = 0; i < data.length; i++) if (data[i] === 1) count++;
+  }
+  return count;
+};
+
+// 上端の1つ上・下端の1つ下にあたる行を edge[0], edge[1] に作る (get は行 y のセル x)
+const fillEdgeRows = (
+  edge: [Uint32Array | Uint8Array, Uint32Array | Uint8Array], width: number, height: number, topology: BoundedTopology,
+  get: (x: number, y: number) => number, set: (row: Uint32Array | Uint8Array, x: number) => void
+) => {
+  if (topology === "dead") return;
+  for (let x = 0; x < width; x++) {
+    const source = topology === "klein" ? width - 1 - x : x;
+    if (get(source, height - 1)) set(edge[0], x);
+    if (get(source, 0)) set(edge[1], x);
+  }
+};
+
+// --- ビットボード (2状態) ---
+// 8方向の隣接ビット面をビットスライスの加算器で数え、隣接数 n ごとの一致マスクから次の世代を作る
+export const stepBits = (
+  src: Uint32Array, dst: Uint32Array, width: number, height: number, rule: LifeRule, topology: BoundedTopology = "torus"
+) => {
+  const words = wordsPerRow(width);
+  const wrapX = topology !== "dead";
+  const lastBit = (width - 1) & 31;
+  const lastMask = lastBit === 31 ? 0xffffffff : (2 ** (lastBit + 1)) - 1;
+  // 関係する隣接数だけを評価する
+  const cases: { n: number; born: number; survive: number }[] = [];
+  for (let n = 0; n <= 8; n++) {
+    if (rule.birth[n] || rule.survival[n]) cases.push({ n, born: rule.birth[n] ? -1 : 0, survive: rule.survival[n] ? -1 : 0 });
+  }
+
+  // 行の端は (dead 以外) 反対側の端とつなぐ。左隣 (x-1) はビットを1つ上へ、右隣 (x+1) は1つ下へずらした面になる
+  const westOf = (rows: Uint32Array, row: number, w: number) =>
+    (rows[row + w] << 1) | (w > 0 ? rows[row + w - 1] >>> 31 : wrapX ? (rows[row + words - 1] >>> lastBit) & 1 : 0);
+  const eastOf = (rows: Uint32Array, row: number, w: number) => {
+    const east = (rows[row + w] >>> 1) | (w < words - 1 ? rows[row + w + 1] << 31 : 0);
+    if (w < words - 1) return east;
+    return (east & ~(1 << lastBit)) | (wrapX ? (rows[row] & 1) << lastBit : 0);
+  };
+  const edge: [Uint32Array, Uint32Array] = [new Uint32Array(words), new Uint32Array(words)];
+  fillEdgeRows(
+    edge, width, height, topology,
+    (x, y) => (src[y * words + (x >>> 5)] >>> (x & 31)) & 1,
+    (row, x) => { row[x >>> 5] |= 1 << (x & 31); }
+  );
+  const inputs = new Int32Array(8);
+
+  for (let y = 0; y < height; y++) {
+    const upRows = y > 0 ? src : edge[0];
+    const up = y > 0 ? (y - 1) * words : 0;
+    const mid = y * words;
+    const downRows = y < height - 1 ? src : edge[1];
+    const down = y < height - 1 ? (y + 1) * words : 0;
+
+    for (let w = 0; w < words; w++) {
+      inputs[0] = westOf(upRows, up, w);
+      inputs[1] = upRows[up + w];
+      inputs[2] = eastOf(upRows, up, w);
+      inputs[3] = westOf(src, mid, w);
+      inputs[4] = eastOf(src, mid, w);
+      inputs[5] = westOf(downRows, down, w);
+      inputs[6] = downRows[down + w];
+      inputs[7] = eastOf(downRows, down, w);
+
+      // 4bit の隣接数 (s3 s2 s1 s0) を32セル分まとめて数える
+      let s0 = 0, s1 = 0, s2 = 0, s3 = 0;
+      for (let k = 0; k < 8; k++) {
+        const x = inputs[k];
+        const c0 = s0 & x;
+        s0 ^= x;
+        const c1 = s1 & c0;
+        s1 ^= c0;
+        s3 |= s2 & c1;
+        s2 ^= c1;
+      }
+
+      const cur = src[mid + w];
+      let next = 0;
+      for (let i = 0; i < cases.length; i++) {
+        const { n, born, survive } = cases[i];
+        const match = (n & 1 ? s0 : ~s0) & (n & 2 ? s1 : ~s1) & (n & 4 ? s2 : ~s2) & (n & 8 ? s3 : ~s3);
+        next |= match & ((~cur & born) | (cur & survive));
+      }
+      dst[mid + w] = w === words - 1 ? next & lastMask : next;
+    }
+  }
+};
+
+// --- バイト (Generations) ---
+// table[state * 9 + n] = 次の状態
+export const createRuleTable = (rule: LifeRule) => {
+  const table = new Uint8Array(rule.states * 9);
+  for (let state = 0; state < rule.states; state++) {
+    for (let n = 0; n <= 8; n++) table[state * 9 + n] = nextCellState(rule, state, n);
+  }
+  return table;
+};
+
+export const stepBytes = (
+  src: Uint8Array, dst: Uint8Array, width: number, height: number, table: Uint8Array, alive: Uint8Array,
+  topology: BoundedTopology = "torus"
+) => {
+  // 隣接数に数えるのは生 (1) のセルだけなので、先に 0/1 の面を作っておく
+  for (let i = 0; i < src.length; i++) alive[i] = src[i] === 1 ? 1 : 0;
+  const wrapX = topology !== "dead";
+  const edge: [Uint8Array, Uint8Array] = [new Uint8Array(width), new Uint8Array(width)];
+  fillEdgeRows(edge, width, height, topology, (x, y) => alive[y * width + x], (row, x) => { row[x] = 1; });
+  // 左右の端の列だけは隣が盤面の外になる
+  const at = (rows: Uint8Array, row: number, x: number) =>
+    x >= 0 && x < width ? rows[row + x] : wrapX ? rows[row + (x + width) % width] : 0;
+
+  for (let y = 0; y < height; y++) {
+    const upRows = y > 0 ? alive : edge[0];
+    const up = y > 0 ? (y - 1) * width : 0;
+    const mid = y * width;
+    const downRows = y < height - 1 ? alive : edge[1];
+    const down = y < height - 1 ? (y + 1) * width : 0;
+    for (let x = 0; x < width; x++) {
+      let n: number;
+      if (x > 0 && x < width - 1) {
+        n = upRows[up + x - 1] + upRows[up + x] + upRows[up + x + 1]
+          + alive[mid + x - 1] + alive[mid + x + 1]
+          + downRows[down + x - 1] + downRows[down + x] + downRows[down + x + 1];
+      } else {
+        n = at(upRows, up, x - 1) + upRows[up + x] + at(upRows, up, x + 1)
+          + at(alive, mid, x - 1) + at(alive, mid, x + 1)
+          + at(downRows, down, x - 1) + downRows[down + x] + at(downRows, down, x + 1);
+      }
+      dst[mid + x] = table[src[mid + x] * 9 + n];
+    }
+  }
+};
+
+// --- Universe ---
+// 盤面と作業用バッファを持ち、世代を進める
+export class LifeUniverse {
+  board: Board;
+  rule: LifeRule;
+  topology: BoundedTopology;
+  generation = 0;
+  private scratch: Board;
+  private table: Uint8Array;
+  private alive: Uint8Array | null = null;
+
+  constructor(board: Board, rule: LifeRule, topology: BoundedTopology = "torus") {
+    this.rule = rule;
+    this.topology = topology;
+    this.table = createRuleTable(rule);
+    this.board = board.format === formatForRule(rule) ? board : convertBoard(board, formatForRule(rule), rule.states - 1);
+    this.scratch = createBoard(board.width, board.height, this.board.format);
+  }
+
+  get population() {
+    return countPopulation(this.board);
+  }
+
+  // 1世代前の盤面。step の直後だけ意味を持つ (作業用バッファと入れ替えているため)
+  get previousBoard() {
+    return this.scratch;
+  }
+
+  // ルールの変更は盤面を保つ。形式が変わる場合だけ変換する
+  setRule(rule: LifeRule) {
+    const format = formatForRule(rule);
+    if (format !== this.board.format) {
+      this.board = convertBoard(this.board, format, rule.states - 1);
+      this.scratch = createBoard(this.board.width, this.board.height, format);
+      this.alive = null;
+    } else if (format === "bytes") {
+      const { data } = this.board;
+      for (let i = 0; i < data.length; i++) if (data[i] >= rule.states) data[i] = 0;
+    }
+    this.rule = rule;
+    this.table = createRuleTable(rule);
+  }
+
+  step(count = 1) {
+    const { width, height } = this.board;
+    for (let i = 0; i < count; i++) {
+      if (this.board.format === "bits") {
+        stepBits(this.board.data as Uint32Array, this.scratch.data as Uint32Array, width, height, this.rule, this.topology);
+      } else {
+        if (!this.alive) this.alive = new Uint8Array(width * height);
+        stepBytes(
+          this.board.data as Uint8Array, this.scratch.data as Uint8Array, width, height, this.table, this.alive, this.topology
+        );
+      }
+      [this.board, this.scratch] = [this.scratch, this.board];
+      this.generation++;
+    }
+  }
+}
+
+// --- 描画用 ---
+// 1セル = 1ピクセルで ImageData (Uint32 の ABGR) に書き込む。palette[state] は色
+export const renderBoard = (board: Board, pixels: Uint32Array, palette: Uint32Array) => {
+  const { width, height, data } = board;
+  pixels.fill(palette[0]);
+  if (board.format === "bytes") {
+    for (let i = 0; i < width * height; i++) if (data[i]) pixels[i] = palette[data[i]];
+    return;
+  }
+  const words = wordsPerRow(width);
+  const live = palette[1];
+  for (let y = 0; y < height; y++) {
+    for (let w = 0; w < words; w++) {
+      let bits = data[y * words + w];
+      // 立っているビットだけを順に取り出す
+      while (bits !== 0) {
+        const bit = 31 - Math.clz32(bits & -bits);
+        pixels[y * width + (w << 5) + bit] = live;
+        bits &= bits - 1;
+      }
+    }
+  }
+};
+
+export const packColor = (r: number, g: number, b: number) => ((255 << 24) | (b << 16) | (g << 8) | r) >>> 0;
@@ -0,0 +1,385 @@
+// --- HashLife ---
+// 盤面を四分木にし、同じ形のノードを1つにまとめて (ハッシュコンシング)、ノードごとに未来の中心部分をメモ化する。
+// 平面は実質無限で、2^k 世代を一度に進められる。2状態のルールのみ (B0 は空白が点滅するので不可)。
+// 座標はルートノードの中心を原点とし、ルートは [-2^(level-1), 2^(level-1)) を覆う。
+
+import { Board, getCell, setCell } from "./engine";
+import { LifeRule } from "./rules";
+
+type QuadNode = {
+  id: number;
+  level: number; // 1辺 2^level セル
+  population: number;
+  nw: QuadNode | null;
+  ne: QuadNode | null;
+  sw: QuadNode | null;
+  se: QuadNode | null;
+  next: QuadNode | null; // 2^(level-2) 世代後の中心 (最大の歩幅)
+  steps: Map<number, QuadNode> | null; // それより小さい歩幅 2^j の結果
+};
+
+export class HashLifeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "HashLifeError";
+  }
+}
+
+const MIN_ROOT_LEVEL = 3;
+const MAX_NODES = 1_500_000; // これを超えたらルートから辿れないノードとメモを捨てる
+
+export const canUseHashLife = (rule: LifeRule) => rule.states === 2 && !rule.birth[0];
+
+const createLeaf = (id: number, alive: boolean): QuadNode => ({
+  id, level: 0, population: alive ? 1 : 0, nw: null, ne: null, sw: null, se: null, next: null, steps: null
+});
+
+// 子ノードは level >= 1 なら必ずある
+type Inner = QuadNode & { nw: QuadNode; ne: QuadNode; sw: QuadNode; se: QuadNode };
+const inner = (node: QuadNode) => node as Inner;
+
+export class HashLife {
+  rule: LifeRule;
+  generation = 0;
+  root: QuadNode;
+  private table = new Map<string, QuadNode>();
+  private nextId = 2;
+  private readonly dead = createLeaf(0, false);
+  private readonly alive = createLeaf(1, true);
+  private emptyNodes: QuadNode[] = [];
+
+  constructor(rule: LifeRule) {
+    if (!canUseHashLife(rule)) throw new HashLifeError(`HashLife cannot run ${rule.states > 2 ? "Generations" : "B0"} rules.`);
+    this.rule = rule;
+    this.emptyNodes[0] = this.dead;
+    this.root = this.empty(MIN_ROOT_LEVEL);
+  }
+
+  get population() {
+    return this.root.population;
+  }
+
+  get nodeCount() {
+    return this.table.size;
+  }
+
+  // ノードは書き換えないので、ルートを持っておくだけで元に戻せる
+  snapshot() {
+    return { root: this.root, generation: this.generation };
+  }
+
+  restore(snapshot: ReturnType<HashLife["snapshot"]>) {
+    this.root = snapshot.root;
+    this.generation = snapshot.generation;
+  }
+
+  clear() {
+    this.root = this.empty(MIN_ROOT_LEVEL);
+  }
+
+  // ルールが変わるとメモ化した未来はすべて無効になる
+  setRule(rule: LifeRule) {
+    if (!canUseHashLife(rule)) throw new HashLifeError(`HashLife cannot run ${rule.states > 2 ? "Generations" : "B0"} rules.`);
+    this.rule = rule;
+    this.table.forEach(node => { node.next = null; node.steps = null; });
+  }
+
+  // --- ノードの生成 ---
+  private join(nw: QuadNode, ne: QuadNode, sw: QuadNode, se: QuadNode): QuadNode {
+    const key = `${nw.id},${ne.id},${sw.id},${se.id}`;
+    let node = this.table.get(key);
+    if (!node) {
+      node = {
+        id: this.nextId++,
+        level: nw.level + 1,
+        population: nw.population + ne.population + sw.population + se.population,
+        nw, ne, sw, se,
+        next: null,
+        steps: null
+      };
+      this.table.set(key, node);
+    }
+    return node;
+  }
+
+  private empty(level: number): QuadNode {
+    if (!this.emptyNodes[level]) {
+      const child = this.empty(level - 1);
+      this.emptyNodes[level] = this.join(child, child, child, child);
+    }
+    return this.emptyNodes[level];
+  }
+
+  // 同じ中心のまま1段大きくする (周りは空)
+  private expand(node: QuadNode) {
+    const { nw, ne, sw, se } = inner(node);
+    const e = this.empty(node.level - 1);
+    return this.join(this.join(e, e, e, nw), this.join(e, e, ne, e), this.join(e, sw, e, e), this.join(se, e, e, e));
+  }
+
+  // 中心の1段小さいノード
+  private centre(node: QuadNode) {
+    const { nw, ne, sw, se } = inner(node);
+    return this.join(inner(nw).se, inner(ne).sw, inner(sw).ne, inner(se).nw);
+  }
+
+  // 生きたセルがすべて中心の半分に収まっているか
+  private isPadded(node: QuadNode) {
+    return node.level >= MIN_ROOT_LEVEL && this.centre(node).population === node.population;
+  }
+
+  // --- 時間発展 ---
+  // 4x4 -> 中心 2x2 を1世代進める
+  private life4x4(node: QuadNode) {
+    const cells: number[] = [];
+    const { nw, ne, sw, se } = inner(node);
+    const rows = [[nw, ne], [sw, se]];
+    for (let y = 0; y < 4; y++) {
+      for (let x = 0; x < 4; x++) {
+        const quad = inner(rows[y >> 1][x >> 1]);
+        const leaf = (y & 1 ? (x & 1 ? quad.se : quad.sw) : (x & 1 ? quad.ne : quad.nw));
+        cells.push(leaf.population);
+      }
+    }
+    const result = [[1, 1], [2, 1], [1, 2], [2, 2]].map(([x, y]) => {
+      let neighbors = 0;
+      for (let dy = -1; dy <= 1; dy++) {
+        for (let dx = -1; dx <= 1; dx++) {
+          if (dx || dy) neighbors += cells[(y + dy) * 4 + x + dx];
+        }
+      }
+      const isAlive = cells[y * 4 + x] === 1;
+      return (isAlive ? this.rule.survival[neighbors] : this.rule.birth[neighbors]) ? this.alive : this.dead;
+    });
+    return this.join(result[0], result[1], result[2], result[3]);
+  }
+
+  // level k のノードの中心 (level k-1) を 2^j 世代進めた結果。j は k-2 まで
+  private successor(node: QuadNode, j: number): QuadNode {
+    if (node.population === 0) return this.empty(node.level - 1);
+    if (node.level === 2) {
+      if (!node.next) node.next = this.life4x4(node);
+      return node.next;
+    }
+
+    const step = Math.min(j, node.level - 2);
+    const isFull = step === node.level - 2;
+    const cached = isFull ? node.next : node.steps?.get(step);
+    if (cached) return cached;
+
+    const { nw: a, ne: b, sw: c, se: d } = inner(node);
+    const [an, bn, cn, dn] = [inner(a), inner(b), inner(c), inner(d)];
+    // 9つの重なり合う部分ノードをそれぞれ進める
+    const c1 = this.successor(a, step);
+    const c2 = this.successor(this.join(an.ne, bn.nw, an.se, bn.sw), step);
+    const c3 = this.successor(b, step);
+    const c4 = this.successor(this.join(an.sw, an.se, cn.nw, cn.ne), step);
+    const c5 = this.successor(this.join(an.se, bn.sw, cn.ne, dn.nw), step);
+    const c6 = this.successor(this.join(bn.sw, bn.se, dn.nw, dn.ne), step);
+    const c7 = this.successor(c, step);
+    const c8 = this.successor(this.join(cn.ne, dn.nw, cn.se, dn.sw), step);
+    const c9 = this.successor(d, step);
+
+    let result: QuadNode;
+    if (isFull) {
+      // もう半分の時間を進めながら中心を組み立てる
+      result = this.join(
+        this.successor(this.join(c1, c2, c4, c5), step),
+        this.successor(this.join(c2, c3, c5, c6), step),
+        this.successor(this.join(c4, c5, c7, c8), step),
+        this.successor(this.join(c5, c6, c8, c9), step)
+      );
+      node.next = result;
+    } else {
+      // 時間はもう進んでいるので中心を切り出すだけ
+      const [n1, n2, n3, n4, n5, n6, n7, n8, n9] = [c1, c2, c3, c4, c5, c6, c7, c8, c9].map(inner);
+      result = this.join(
+        this.join(n1.se, n2.sw, n4.ne, n5.nw),
+        this.join(n2.se, n3.sw, n5.ne, n6.nw),
+        this.join(n4.se, n5.sw, n7.ne, n8.nw),
+        this.join(n5.se, n6.sw, n8.ne, n9.nw)
+      );
+      if (!node.steps) node.steps = new Map();
+      node.steps.set(step, result);
+    }
+    return result;
+  }
+
+  // 2^exponent 世代進める
+  stepPow2(exponent: number) {
+    let root = this.root;
+    // 進む間に広がっても中心に収まるだけ余白を取る
+    while (root.level < exponent + 2 || !this.isPadded(root)) root = this.expand(root);
+    root = this.expand(root);
+    root = this.successor(root, exponent);
+    // 余白が多すぎるルートは縮めておく (描画とセル参照が速くなる)
+    while (root.level > MIN_ROOT_LEVEL && this.isPadded(this.centre(root))) root = this.centre(root);
+    this.root = root;
+    this.generation += 2 ** exponent;
+    if (this.table.size > MAX_NODES) this.collectGarbage();
+  }
+
+  // 任意の世代数を 2 の冪に分けて進める
+  advance(generations: number) {
+    let remaining = Math.floor(generations);
+    for (let exponent = 0; remaining > 0; exponent++) {
+      if (remaining % 2 === 1) this.stepPow2(exponent);
+      remaining = Math.floor(remaining / 2);
+    }
+  }
+
+  // ルートから辿れるノードだけを残し、メモを捨てる
+  private collectGarbage() {
+    const table = new Map<string, QuadNode>();
+    const visit = (node: QuadNode) => {
+      if (node.level === 0) return;
+      const { nw, ne, sw, se } = inner(node);
+      const key = `${nw.id},${ne.id},${sw.id},${se.id}`;
+      if (table.has(key)) return;
+      node.next = null;
+      node.steps = null;
+      table.set(key, node);
+      [nw, ne, sw, se].forEach(visit);
+    };
+    visit(this.root);
+    this.emptyNodes.forEach(visit);
+    this.table = table;
+  }
+
+  // --- セルの読み書き ---
+  private get origin() {
+    return -(2 ** (this.root.level - 1));
+  }
+
+  getCell(x: number, y: number) {
+    let node = this.root;
+    let left = this.origin;
+    let top = left;
+    if (x < left || y < top || x >= -left || y >= -top) return 0;
+    while (node.level > 0) {
+      if (node.population === 0) return 0;
+      const half = 2 ** (node.level - 1);
+      const east = x >= left + half;
+      const south = y >= top + half;
+      const { nw, ne, sw, se } = inner(node);
+      node = south ? (east ? se : sw) : (east ? ne : nw);
+      if (east) left += half;
+      if (south) top += half;
+    }
+    return node.population;
+  }
+
+  setCell(x: number, y: number, state: number) {
+    while (x < this.origin || y < this.origin || x >= -this.origin || y >= -this.origin) this.root = this.expand(this.root);
+    const write = (node: QuadNode, left: number, top: number): QuadNode => {
+      if (node.level === 0) return state ? this.alive : this.dead;
+      const half = 2 ** (node.level - 1);
+      const east = x >= left + half;
+      const south = y >= top + half;
+      const { nw, ne, sw, se } = inner(node);
+      if (south) {
+        return east
+          ? this.join(nw, ne, sw, write(se, left + half, top + half))
+          : this.join(nw, ne, write(sw, left, top + half), se);
+      }
+      return east
+        ? this.join(nw, write(ne, left + half, top), sw, se)
+        : this.join(write(nw, left, top), ne, sw, se);
+    };
+    this.root = write(this.root, this.origin, this.origin);
+  }
+
+  // 配列の盤面を (offsetX, offsetY) を左上にして丸ごと読み込む。四分木を下から組み立てる
+  loadBoard(board: Board, offsetX = 0, offsetY = 0) {
+    let level = MIN_ROOT_LEVEL;
+    const reach = Math.max(Math.abs(offsetX), Math.abs(offsetY), Math.abs(offsetX + board.width), Math.abs(offsetY + board.height));
+    while (2 ** (level - 1) < reach) level++;
+    const origin = -(2 ** (level - 1));
+
+    const build = (lvl: number, left: number, top: number): QuadNode => {
+      const size = 2 ** lvl;
+      // 盤面と重ならない範囲は空
+      if (left + size <= offsetX || top + size <= offsetY || left >= offsetX + board.width || top >= offsetY + board.height) {
+        return this.empty(lvl);
+      }
+      if (lvl === 0) return getCell(board, left - offsetX, top - offsetY) ? this.alive : this.dead;
+      const half = size / 2;
+      return this.join(
+        build(lvl - 1, left, top), build(lvl - 1, left + half, top),
+        build(lvl - 1, left, top + half), build(lvl - 1, left + half, top + half)
+      );
+    };
+    this.root = build(level, origin, origin);
+  }
+
+  forEachCell(callback: (x: number, y: number, state: number) => void) {
+    const visit = (node: QuadNode, left: number, top: number) => {
+      if (node.population === 0) return;
+      if (node.level === 0) {
+        callback(left, top, 1);
+        return;
+      }
+      const half = 2 ** (node.level - 1);
+      const { nw, ne, sw, se } = inner(node);
+      visit(nw, left, top);
+      visit(ne, left + half, top);
+      visit(sw, left, top + half);
+      visit(se, left + half, top + half);
+    };
+    visit(this.root, this.origin, this.origin);
+  }
+
+  // 生きたセルの外接矩形。端の列 (行) の位置をノードごとにメモするので、共有された部分木は1度しか調べない
+  bounds() {
+    if (this.root.population === 0) return null;
+    // horizontal: x 方向, reverse: 大きい側の端。ノードの左上からの位置を返す
+    const edge = (horizontal: boolean, reverse: boolean) => {
+      const memo = new Map<QuadNode, number>();
+      const find = (node: QuadNode): number => {
+        if (node.level === 0) return 0;
+        const cached = memo.get(node);
+        if (cached !== undefined) return cached;
+        const half = 2 ** (node.level - 1);
+        const { nw, ne, sw, se } = inner(node);
+        const low = horizontal ? [nw, sw] : [nw, ne];
+        const high = horizontal ? [ne, se] : [sw, se];
+        const near = reverse ? high : low;
+        const isNear = near.some(child => child.population > 0);
+        const group = isNear ? near : (reverse ? low : high);
+        const offsets = group.filter(child => child.population > 0).map(find);
+        const result = (group === high ? half : 0) + (reverse ? Math.max(...offsets) : Math.min(...offsets));
+        memo.set(node, result);
+        return result;
+      };
+      return this.origin + find(this.root);
+    };
+    const x = edge(true, false);
+    const y = edge(false, false);
+    return { x, y, width: edge(true, true) - x + 1, height: edge(false, true) - y + 1 };
+  }
+
+  // (x0, y0) を左上とする範囲を 2状態の盤面 (bits) に描き出す。
+  // 1ピクセル = 2^scaleLevel セル四方で、その中に1つでも生があれば点ける (x0, y0 は 2^scaleLevel の倍数)
+  renderInto(board: Board, x0: number, y0: number, scaleLevel = 0) {
+    board.data.fill(0);
+    const scale = 2 ** scaleLevel;
+    const right = x0 + board.width * scale;
+    const bottom = y0 + board.height * scale;
+    const draw = (node: QuadNode, left: number, top: number) => {
+      if (node.population === 0) return;
+      const size = 2 ** node.level;
+      if (left >= right || top >= bottom || left + size <= x0 || top + size <= y0) return;
+      if (node.level <= scaleLevel) {
+        setCell(board, Math.floor((left - x0) / scale), Math.floor((top - y0) / scale), 1);
+        return;
+      }
+      const half = size / 2;
+      const { nw, ne, sw, se } = inner(node);
+      draw(nw, left, top);
+      draw(ne, left + half, top);
+      draw(sw, left, top + half);
+      draw(se, left + half, top + half);
+    };
+    draw(this.root, this.origin, this.origin);
+  }
+}
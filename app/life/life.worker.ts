@@ -0,0 +1,387 @@
+// --- Simulation Worker ---
+// LifeUniverse (有界な盤面) を持ち、要求ごとに最新の盤面をフレームとして返す (バッファは transfer で受け渡す)。
+// 無限平面では SparseUniverse か HashLife に計算を任せ、表示範囲だけを描き出して返す。
+// その間も LifeUniverse は盤面の大きさとルールの基準として残し、有界に戻すときの受け皿にする。
+// 元に戻す (undo) 用の履歴と、世代をさかのぼるためのタイムライン (リングバッファ) も持つ。
+// 計算方法や盤面が入れ替わったらどちらも捨てる。
+// 解析を有効にすると1世代ずつ進め、その都度統計と周期検出のハッシュを記録する
+
+import { CellVisitor, LifeStats, PeriodDetector, boardVisitor, countChanges, findBounds, hashCells } from "./analysis";
+import { Board, LifeUniverse, Topology, cloneBoard, createBoard, formatForRule, setCell } from "./engine";
+import { HashLife, canUseHashLife } from "./hashlife";
+import { LifeRule, formatRule } from "./rules";
+import { SparseUniverse } from "./sparse";
+import type { PlaneViewport, SimulationEngine, WorkerRequest, WorkerResponse } from "./worker-client";
+
+type WorkerScope = {
+  onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+  postMessage: (message: WorkerResponse, transfer: Transferable[]) => void;
+};
+
+const MAX_CONVERT_CELLS = 4_000_000; // HashLife から Sparse へ移せるセル数の上限
+const MAX_HISTORY = 64;
+const MAX_HISTORY_BYTES = 96 * 1024 * 1024; // 大きな盤面の履歴でメモリを使い切らない
+const SPARSE_CELL_BYTES = 40; // Map の1項目のおおよその大きさ
+const MAX_TIMELINE = 1000;
+const MAX_TIMELINE_BYTES = 64 * 1024 * 1024;
+
+type Snapshot =
+  | { kind: "board"; board: Board; generation: number; bytes: number }
+  | { kind: "sparse"; state: ReturnType<SparseUniverse["snapshot"]>; bytes: number }
+  | { kind: "hashlife"; state: ReturnType<HashLife["snapshot"]>; bytes: number };
+
+const scope = self as unknown as WorkerScope;
+let universe: LifeUniverse | null = null;
+let plane: HashLife | SparseUniverse | null = null;
+let engine: SimulationEngine = "array";
+let topology: Topology = "torus";
+let viewport: PlaneViewport | null = null;
+let viewBoard: Board | null = null;
+const spareBuffers: ArrayBuffer[] = []; // メインスレッドから返ってきたバッファ
+let undoStack: Snapshot[] = [];
+let redoStack: Snapshot[] = [];
+// 計算のたびの状態。timelineIndex が今の状態で、それより後ろはさかのぼったときの「未来」
+let timeline: Snapshot[] = [];
+let timelineIndex = 0;
+let timelineBytes = 0;
+let isTimelineDirty = false; // 今の状態がタイムラインの記録と違う (編集やルール変更のあと)
+let isAnalysisEnabled = false;
+const detector = new PeriodDetector();
+let stats: LifeStats | null = null; // null なら次のフレームで今の状態から作り直す
+
+const sendError = (message: string) => scope.postMessage({ type: "error", message }, []);
+
+// 無限平面の表示範囲を描く (範囲の指定がまだなければ盤面と同じ範囲)
+const renderPlane = (current: HashLife | SparseUniverse, reference: Board) => {
+  const view = viewport ?? { x: 0, y: 0, width: reference.width, height: reference.height, scaleLevel: 0 };
+  const format = formatForRule(current.rule);
+  if (!viewBoard || viewBoard.width !== view.width || viewBoard.height !== view.height || viewBoard.format !== format) {
+    viewBoard = createBoard(view.width, view.height, format);
+  }
+  current.renderInto(viewBoard, view.x, view.y, view.scaleLevel);
+  return { board: viewBoard, origin: { x: view.x, y: view.y, scale: 2 ** view.scaleLevel } };
+};
+
+const sendFrame = () => {
+  if (!universe) return;
+  const { board, origin } = plane ? renderPlane(plane, universe.board) : { board: universe.board, origin: { x: 0, y: 0, scale: 1 } };
+  const byteLength = board.data.byteLength;
+  const spare = spareBuffers.findIndex(buffer => buffer.byteLength === byteLength);
+  const buffer = spare >= 0 ? spareBuffers.splice(spare, 1)[0] : new ArrayBuffer(byteLength);
+  const data = board.format === "bits" ? new Uint32Array(buffer) : new Uint8Array(buffer);
+  data.set(board.data);
+  const { generation, population } = plane ?? universe;
+  const history = { undo: undoStack.length, redo: redoStack.length };
+  const timelineState = { index: timelineIndex, length: timeline.length };
+  if (isAnalysisEnabled && !stats) stats = measureCurrent();
+  scope.postMessage(
+    {
+      type: "frame", board: { ...board, data }, generation, population, engine, topology, origin, history,
+      timeline: timelineState, stats: isAnalysisEnabled ? stats : null
+    },
+    [buffer]
+  );
+};
+
+// --- 解析 ---
+// HashLife はセルを1つずつ辿ると遅すぎるので、外接矩形だけを四分木から求める
+const visitCurrent = (): CellVisitor | null => {
+  const current = plane;
+  if (current instanceof HashLife) return null;
+  if (current) return (callback) => current.forEachCell(callback);
+  return universe ? boardVisitor(universe.board) : null;
+};
+
+// 世代が連続しなくなったとき (編集・巻き戻し・ルール変更) に呼ぶ
+const invalidateAnalysis = () => {
+  detector.reset();
+  stats = null;
+};
+
+// 直前の変化は分からないので誕生・死亡は空にし、周期検出の起点として記録だけする
+const measureCurrent = (): LifeStats | null => {
+  if (plane instanceof HashLife) return { births: null, deaths: null, bounds: plane.bounds(), periodicity: null };
+  const visit = visitCurrent();
+  const current = plane ?? universe;
+  if (!visit || !current) return null;
+  const bounds = findBounds(visit);
+  detector.record(current.generation, hashCells(visit, bounds), bounds);
+  return { births: null, deaths: null, bounds, periodicity: null };
+};
+
+// 1世代進めた直後に呼ぶ
+const analyseGeneration = () => {
+  const visit = visitCurrent();
+  const current = plane ?? universe;
+  if (!visit || !current) return;
+  const bounds = findBounds(visit);
+  const { births, deaths } = plane instanceof SparseUniverse
+    ? plane.lastChanges
+    : countChanges(universe!.previousBoard, universe!.board);
+  stats = { births, deaths, bounds, periodicity: detector.record(current.generation, hashCells(visit, bounds), bounds) };
+};
+
+// --- 履歴 ---
+const takeSnapshot = (): Snapshot | null => {
+  if (plane instanceof HashLife) return { kind: "hashlife", state: plane.snapshot(), bytes: 0 }; // ノードは共有される
+  if (plane) return { kind: "sparse", state: plane.snapshot(), bytes: plane.size * SPARSE_CELL_BYTES };
+  if (!universe) return null;
+  return { kind: "board", board: cloneBoard(universe.board), generation: universe.generation, bytes: universe.board.data.byteLength };
+};
+
+// 履歴は今と同じ種類の状態しか持たない (clearHistory で保証する)
+const restoreSnapshot = (snapshot: Snapshot) => {
+  if (snapshot.kind === "hashlife" && plane instanceof HashLife) plane.restore(snapshot.state);
+  else if (snapshot.kind === "sparse" && plane instanceof SparseUniverse) plane.restore(snapshot.state);
+  else if (snapshot.kind === "board" && universe && !plane) {
+    universe.board = cloneBoard(snapshot.board); // タイムラインの記録は何度でも戻れるように写して使う
+    universe.generation = snapshot.generation;
+  }
+};
+
+const pushHistory = () => {
+  const snapshot = takeSnapshot();
+  if (!snapshot) return;
+  undoStack.push(snapshot);
+  redoStack = [];
+  let bytes = undoStack.reduce((sum, entry) => sum + entry.bytes, 0);
+  while (undoStack.length > MAX_HISTORY || (undoStack.length > 1 && bytes > MAX_HISTORY_BYTES)) {
+    bytes -= undoStack.shift()!.bytes;
+  }
+};
+
+// from の一番新しい状態に戻し、今の状態を to へ積む。戻せたかを返す
+const travel = (from: Snapshot[], to: Snapshot[]) => {
+  const current = takeSnapshot();
+  if (from.length === 0 || !current) return false;
+  to.push(current);
+  restoreSnapshot(from.pop()!);
+  return true;
+};
+
+const clearHistory = () => {
+  undoStack = [];
+  redoStack = [];
+  resetTimeline();
+};
+
+// --- タイムライン ---
+// 今の状態だけを起点にやり直す
+const resetTimeline = () => {
+  const snapshot = takeSnapshot();
+  timeline = snapshot ? [snapshot] : [];
+  timelineBytes = snapshot?.bytes ?? 0;
+  timelineIndex = 0;
+  isTimelineDirty = false;
+  invalidateAnalysis();
+};
+
+// 計算する前に呼ぶ。さかのぼった位置から進めるときは先の記録を捨て、編集した状態は今の位置の記録を差し替える
+const branchTimeline = () => {
+  const removed = timeline.splice(timelineIndex + 1);
+  removed.forEach(entry => { timelineBytes -= entry.bytes; });
+  if (isTimelineDirty || timeline.length === 0) {
+    const snapshot = takeSnapshot();
+    if (!snapshot) return;
+    if (timeline.length > 0) timelineBytes -= timeline.pop()!.bytes;
+    timeline.push(snapshot);
+    timelineBytes += snapshot.bytes;
+    timelineIndex = timeline.length - 1;
+    isTimelineDirty = false;
+  }
+};
+
+// 計算したあとに呼ぶ。古いものから捨てる
+const recordTimeline = () => {
+  const snapshot = takeSnapshot();
+  if (!snapshot) return;
+  timeline.push(snapshot);
+  timelineBytes += snapshot.bytes;
+  while (timeline.length > MAX_TIMELINE || (timeline.length > 1 && timelineBytes > MAX_TIMELINE_BYTES)) {
+    timelineBytes -= timeline.shift()!.bytes;
+  }
+  timelineIndex = timeline.length - 1;
+};
+
+const seekTimeline = (index: number) => {
+  const target = timeline[index];
+  if (!target) return;
+  restoreSnapshot(target);
+  timelineIndex = index;
+  isTimelineDirty = false;
+  invalidateAnalysis();
+};
+
+const step = (count: number) => {
+  branchTimeline();
+  if (plane instanceof HashLife) {
+    plane.advance(count);
+    stats = null;
+  } else if (isAnalysisEnabled) {
+    // 途中の世代も記録しないと周期を取りこぼす
+    for (let i = 0; i < count; i++) {
+      if (plane) plane.step(1);
+      else universe?.step(1);
+      analyseGeneration();
+    }
+  } else if (plane) plane.step(count);
+  else universe?.step(count);
+  recordTimeline();
+};
+
+// --- 有界な盤面と無限平面の切り替え ---
+// 盤面の左上を平面の原点に置く。平面どうしの切り替えはセルをそのまま移す
+const startPlane = (useHashLife: boolean, rule: LifeRule) => {
+  if (!universe) return;
+  const next = useHashLife ? new HashLife(rule) : new SparseUniverse(rule);
+  if (plane) {
+    if (!useHashLife && plane.population > MAX_CONVERT_CELLS) {
+      sendError(`Too many live cells (${plane.population.toLocaleString("en-US")}) to leave HashLife; staying on it.`);
+      return;
+    }
+    const source = plane;
+    source.forEachCell((x, y, state) => next.setCell(x, y, state));
+    next.generation = source.generation;
+  } else {
+    next.loadBoard(universe.board);
+    next.generation = universe.generation;
+  }
+  plane = next;
+  topology = "plane";
+  engine = useHashLife ? "hashlife" : "array";
+  clearHistory();
+};
+
+const stopPlane = () => {
+  if (!universe || !plane) return;
+  plane.renderInto(universe.board, 0, 0);
+  universe.generation = plane.generation;
+  plane = null;
+  clearHistory();
+};
+
+scope.onmessage = (e) => {
+  const request = e.data;
+  switch (request.type) {
+    case "load":
+      topology = request.topology;
+      universe = new LifeUniverse(request.board, request.rule, topology === "plane" ? "torus" : topology);
+      universe.generation = request.generation;
+      plane = null;
+      clearHistory();
+      if (topology === "plane") {
+        if (engine === "hashlife" && !canUseHashLife(request.rule)) {
+          sendError(`HashLife only runs 2-state rules without B0; ${formatRule(request.rule)} runs on the sparse plane.`);
+        }
+        startPlane(engine === "hashlife" && canUseHashLife(request.rule), request.rule);
+      } else {
+        engine = "array";
+      }
+      spareBuffers.length = 0;
+      sendFrame();
+      break;
+    case "engine":
+      if (!universe) break;
+      if (request.engine === "hashlife" && !(plane instanceof HashLife)) {
+        if (canUseHashLife(universe.rule)) startPlane(true, universe.rule);
+        else sendError(`HashLife only runs 2-state rules without B0 (current: ${formatRule(universe.rule)}).`);
+      } else if (request.engine === "array" && plane instanceof HashLife) {
+        startPlane(false, universe.rule);
+      }
+      sendFrame();
+      break;
+    case "topology":
+      if (!universe) break;
+      if (request.topology === "plane") {
+        if (!plane) startPlane(false, universe.rule);
+      } else {
+        stopPlane();
+        universe.topology = request.topology;
+        topology = request.topology;
+        engine = "array";
+        invalidateAnalysis();
+      }
+      sendFrame();
+      break;
+    case "analysis":
+      isAnalysisEnabled = request.enabled;
+      invalidateAnalysis();
+      sendFrame();
+      break;
+    case "viewport":
+      viewport = request.viewport;
+      sendFrame();
+      break;
+    case "rule": {
+      // 状態数が変わると昔の盤面は今のルールで描けない (変換したあとの盤面から記録し直す)
+      const statesChanged = !!universe && universe.rule.states !== request.rule.states;
+      if (plane instanceof HashLife && !canUseHashLife(request.rule)) {
+        startPlane(false, request.rule);
+        sendError(`HashLife only runs 2-state rules without B0; ${formatRule(request.rule)} continues on the sparse plane.`);
+      }
+      // 移せなかった (HashLife のまま) ときは平面のルールは変えない
+      if (!(plane instanceof HashLife) || canUseHashLife(request.rule)) plane?.setRule(request.rule);
+      universe?.setRule(request.rule);
+      isTimelineDirty = true; // 先の記録は前のルールのもの
+      invalidateAnalysis();
+      if (statesChanged) clearHistory();
+      sendFrame();
+      break;
+    }
+    case "step":
+      step(request.count);
+      sendFrame();
+      break;
+    case "forward":
+      // 記録があればそれをたどり、なければ1世代計算する
+      if (!isTimelineDirty && timelineIndex < timeline.length - 1) seekTimeline(timelineIndex + 1);
+      else step(1);
+      sendFrame();
+      break;
+    case "back":
+      if (timelineIndex > 0) seekTimeline(timelineIndex - 1);
+      else if (isTimelineDirty) seekTimeline(timelineIndex);
+      sendFrame();
+      break;
+    case "seek":
+      seekTimeline(Math.max(0, Math.min(timeline.length - 1, request.index)));
+      sendFrame();
+      break;
+    case "checkpoint":
+      // 続く edit より前のフレームを返すと手元の編集が消えて見えるので、回数だけを返す
+      pushHistory();
+      scope.postMessage({ type: "history", history: { undo: undoStack.length, redo: redoStack.length } }, []);
+      break;
+    case "undo":
+      // 戻した先の世代はタイムラインの今の位置と限らないので、そこから記録し直す
+      if (travel(undoStack, redoStack)) resetTimeline();
+      sendFrame();
+      break;
+    case "redo":
+      if (travel(redoStack, undoStack)) resetTimeline();
+      sendFrame();
+      break;
+    case "clear":
+      if (plane) plane.clear();
+      else universe?.board.data.fill(0);
+      isTimelineDirty = true;
+      invalidateAnalysis();
+      sendFrame();
+      break;
+    case "edit":
+      for (let i = 0; i < request.edits.length; i += 3) {
+        const [x, y, state] = [request.edits[i], request.edits[i + 1], request.edits[i + 2]];
+        if (plane) plane.setCell(x, y, state);
+        else if (universe) setCell(universe.board, x, y, state);
+      }
+      isTimelineDirty = true;
+      invalidateAnalysis();
+      break;
+    case "recycle":
+      // 形式や盤面サイズの変更で合わなくなったバッファは溜めない
+      if (spareBuffers.length < 2) spareBuffers.push(request.buffer);
+      break;
+    default:
+      break;
+  }
+};
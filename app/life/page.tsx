@@ -2,11 +2,120 @@
 
 import { useEffect, useRef, useState, useCallback } from "react";
 import Link from "next/link"; // 戻るボタン用
+import { downloadBlob } from "@/lib/download";
+import { LifePattern, PatternError, parsePattern, encodeRle } from "./pattern-io";
+import { LifeRule, RULE_PRESETS, DEFAULT_RULE, RuleError, parseRule, formatRule, findPresetName } from "./rules";
+import { Topology, createBoard, formatForRule, setCell, renderBoard, packColor } from "./engine";
+import { canUseHashLife } from "./hashlife";
+import { LifeStats, Periodicity } from "./analysis";
+import { LifeFrame, LifeWorkerClient, SimulationEngine, frameCell } from "./worker-client";
+import {
+  BrushMode, CellRect, EditTool, normalizeRect, lineCells, rectCells, extractPattern, rotatePattern, flipPattern
+} from "./editing";
 
-const CELL_SIZE = 10;
-const CELL_COLOR = "#39ff14";
-const BG_COLOR = "#050505";
+const CELL_SIZES = [1, 2, 4, 10]; // 盤面を作るときのセルの大きさ (ウィンドウに収まるセル数が盤面の大きさになる)
+const DEFAULT_CELL_SIZE = 10;
+const MIN_GRID_LINE_CELL = 6; // これより小さいセルではグリッド線を引かない
+const MIN_ZOOM = 1 / 1024; // 1ピクセルあたりのセル数の上限 (無限平面の縮小表示)
+const MAX_ZOOM = 64;
+const ZOOM_SENSITIVITY = 0.001;
+const WORLD_BORDER_COLOR = "#14532d";
+const CELL_RGB = [0x39, 0xff, 0x14];
+const DECAY_END_RGB = [0x5a, 0x1e, 0x00];
+const BG_RGB = [0x05, 0x05, 0x05];
 const GRID_LINE_COLOR = "#111111";
+const CUSTOM_RULE = "custom";
+const SELECTION_COLOR = "#22d3ee";
+const GHOST_COLOR = "rgba(57, 255, 20, 0.35)"; // 貼り付け・図形のプレビュー
+const ERASE_GHOST_COLOR = "rgba(239, 68, 68, 0.45)";
+const MAX_STEP_EXPONENT = 32; // HashLife は 1フレームで最大 2^32 世代進める
+
+// 1秒あたりのステップ数 (HashLife では1ステップ = 2^k 世代)。MAX は描画を待たずに1回でまとめて進める
+type Speed = number | "max";
+const SPEEDS: Speed[] = [1, 2, 5, 10, 15, 30, 60, "max"];
+const DEFAULT_SPEED: Speed = 60;
+const MAX_BATCH_MS = 16; // MAX のとき1回の計算にかける時間の目安
+const MAX_BATCH = 4096;
+
+const TOPOLOGIES: { value: Topology; label: string }[] = [
+  { value: "torus", label: "Torus — edges wrap" },
+  { value: "dead", label: "Dead edges" },
+  { value: "klein", label: "Klein bottle — top/bottom flip" },
+  { value: "plane", label: "Unbounded plane" }
+];
+
+// 表示位置: (x, y) はキャンバス左上に来るセル座標 (小数), zoom は1セルのピクセル数
+type View = { x: number; y: number; zoom: number };
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+const BRUSHES: { value: BrushMode; label: string }[] = [
+  { value: "draw", label: "DRAW" },
+  { value: "erase", label: "ERASE" },
+  { value: "toggle", label: "TOGGLE" }
+];
+
+const TOOLS: { value: EditTool; label: string }[] = [
+  { value: "pencil", label: "PEN" },
+  { value: "line", label: "LINE" },
+  { value: "rect", label: "RECT" },
+  { value: "select", label: "SELECT" }
+];
+
+// --- 解析パネル ---
+const MAX_SAMPLES = 300; // スパークラインに残す点の数
+const SPARKLINE_WIDTH = 240;
+const SPARKLINE_HEIGHT = 48;
+
+type Sample = { generation: number; population: number };
+
+// 世代が戻ったら (巻き戻し・読み込み) その先の点を捨て、同じ世代 (編集) は上書きする
+const appendSample = (samples: Sample[], sample: Sample) => [
+  ...samples.filter(s => s.generation < sample.generation).slice(-(MAX_SAMPLES - 1)), sample
+];
+
+// 横軸は世代 (HashLife で飛ぶ間隔もそのまま)、縦軸は 0 から最大の個体数
+const Sparkline = ({ samples }: { samples: Sample[] }) => {
+  if (samples.length < 2) return <div style={{ height: SPARKLINE_HEIGHT }} className="border border-green-900/50" />;
+  const first = samples[0].generation;
+  const span = Math.max(1, samples[samples.length - 1].generation - first);
+  const peak = Math.max(1, ...samples.map(s => s.population));
+  const points = samples.map(s => (
+    `${((s.generation - first) / span * SPARKLINE_WIDTH).toFixed(1)},${(SPARKLINE_HEIGHT - s.population / peak * (SPARKLINE_HEIGHT - 2) - 1).toFixed(1)}`
+  )).join(" ");
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="border border-green-900/50">
+      <polyline points={points} fill="none" stroke="#39ff14" strokeWidth={1} />
+    </svg>
+  );
+};
+
+// 宇宙船は速さも添える (c は1世代に1セル)
+const describePeriodicity = (periodicity: Periodicity) => {
+  const { kind, period, dx, dy } = periodicity;
+  if (kind === "empty") return "DIED OUT";
+  if (kind === "still") return "STILL LIFE";
+  if (kind === "oscillator") return `OSCILLATOR · P${period}`;
+  const distance = Math.max(Math.abs(dx), Math.abs(dy));
+  return `SPACESHIP · P${period} · (${dx}, ${dy}) · ${distance === 1 ? "" : distance}c/${period}`;
+};
+
+const formatCount = (value: number | null) => (value === null ? "—" : value.toLocaleString("en-US"));
+
+// ドラッグ中の操作。pencil は通ったセル (toggle で同じセルを何度も反転しない)
+type Stroke = { tool: EditTool; start: { x: number; y: number }; last: { x: number; y: number }; visited: Set<string> };
+
+// palette[state] (ImageData 用の ABGR)。Generations の消えかけセルは生の色から暗い橙へ段階的に変える
+const buildPalette = (states: number) => {
+  const palette = new Uint32Array(Math.max(2, states));
+  palette[0] = packColor(BG_RGB[0], BG_RGB[1], BG_RGB[2]);
+  for (let state = 1; state < palette.length; state++) {
+    const t = states > 2 ? (state - 1) / (states - 1) : 0; // 0 (生) -> 1 (消える直前)
+    const [r, g, b] = CELL_RGB.map((c, i) => Math.round(c + (DECAY_END_RGB[i] - c) * t));
+    palette[state] = packColor(r, g, b);
+  }
+  return palette;
+};
 
 const PATTERNS: Record<string, number[][]> = {
   "R-Pentomino (Chaos)": [[0, 1], [0, 2], [1, 0], [1, 1], [2, 1]],
@@ -31,12 +140,60 @@ export default function GameOfLifePage() {
   
   const [isRunning, setIsRunning] = useState(false);
   const [generation, setGeneration] = useState(0);
+  const [population, setPopulation] = useState(0);
+  const [cellSize, setCellSize] = useState(DEFAULT_CELL_SIZE);
   const [selectedPattern, setSelectedPattern] = useState("Gosper Glider Gun");
+  const [rule, setRule] = useState<LifeRule>(() => parseRule(DEFAULT_RULE));
+  const [ruleText, setRuleText] = useState(DEFAULT_RULE);
+  const [ruleError, setRuleError] = useState<string | null>(null);
+  const [isImportOpen, setIsImportOpen] = useState(false);
+  const [importText, setImportText] = useState("");
+  const [pendingName, setPendingName] = useState<string | null>(null); // クリック待ちのパターン
+  const [hasSelection, setHasSelection] = useState(false);
+  const [ioMessage, setIoMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const [engine, setEngine] = useState<SimulationEngine>("array");
+  const [stepExponent, setStepExponent] = useState(0); // HashLife の歩幅 2^k
+  const [topology, setTopology] = useState<Topology>("torus");
+  const [zoom, setZoom] = useState(DEFAULT_CELL_SIZE); // 表示用
+  const [brush, setBrush] = useState<BrushMode>("draw");
+  const [tool, setTool] = useState<EditTool>("pencil");
+  const [history, setHistory] = useState({ undo: 0, redo: 0 });
+  const [hasClipboard, setHasClipboard] = useState(false);
+  const [speed, setSpeed] = useState<Speed>(DEFAULT_SPEED);
+  const [timeline, setTimeline] = useState({ index: 0, length: 1 });
+  const [targetText, setTargetText] = useState("");
+  const [targetGeneration, setTargetGeneration] = useState<number | null>(null); // RUN TO の目標
+  const [isStatsOpen, setIsStatsOpen] = useState(false);
+  const [stats, setStats] = useState<LifeStats | null>(null);
+  const [samples, setSamples] = useState<Sample[]>([]);
 
-  const gridRef = useRef<number[][]>([]);
+  const clientRef = useRef<LifeWorkerClient | null>(null);
   const rowsRef = useRef(0);
   const colsRef = useRef(0);
+  const cellSizeRef = useRef(cellSize);
   const animationFrameId = useRef<number>(0);
+  const ruleRef = useRef(rule);
+  const paletteRef = useRef(buildPalette(rule.states));
+  // 1セル = 1ピクセルの ImageData をここに描いてから、キャンバスへ拡大して転送する
+  const bufferCanvasRef = useRef<HTMLCanvasElement | null>(null);
+  const imageRef = useRef<{ image: ImageData; pixels: Uint32Array } | null>(null);
+  const pendingPatternRef = useRef<LifePattern | null>(null);
+  const selectionRef = useRef<CellRect | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const viewRef = useRef<View>({ x: 0, y: 0, zoom: DEFAULT_CELL_SIZE });
+  const topologyRef = useRef<Topology>("torus");
+  // パン (右/中ボタンのドラッグ) とピンチ操作用
+  const isPanningRef = useRef(false);
+  const lastPointerRef = useRef({ x: 0, y: 0 });
+  const pinchRef = useRef<{ dist: number; x: number; y: number } | null>(null);
+  const brushRef = useRef<BrushMode>("draw");
+  const toolRef = useRef<EditTool>("pencil");
+  const strokeRef = useRef<Stroke | null>(null);
+  const previewRef = useRef<number[] | null>(null); // 線・矩形を置く前のセル
+  const ghostRef = useRef<{ x: number; y: number } | null>(null); // 貼り付け待ちのパターンの中心
+  const clipboardRef = useRef<LifePattern | null>(null);
+  const batchRef = useRef(1); // MAX のときに1回で頼むステップ数 (計算時間を見て倍々に調整する)
+  const targetRef = useRef<number | null>(null);
 
   // --- 描画ロジック ---
   const drawGrid = useCallback(() => {
@@ -44,113 +201,751 @@ export default function GameOfLifePage() {
     if (!canvas) return;
     const ctx = canvas.getContext("2d");
     if (!ctx) return;
-    ctx.fillStyle = BG_COLOR;
+    const { x: viewX, y: viewY, zoom: size } = viewRef.current;
+    const frame = clientRef.current?.frame;
+    const toScreenX = (cellX: number) => (cellX - viewX) * size;
+    const toScreenY = (cellY: number) => (cellY - viewY) * size;
+    ctx.fillStyle = `rgb(${BG_RGB.join(",")})`;
     ctx.fillRect(0, 0, canvas.width, canvas.height);
-    ctx.strokeStyle = GRID_LINE_COLOR;
-    ctx.lineWidth = 1;
-    ctx.beginPath();
-    for (let x = 0; x <= canvas.width; x += CELL_SIZE) { ctx.moveTo(x, 0); ctx.lineTo(x, canvas.height); }
-    for (let y = 0; y <= canvas.height; y += CELL_SIZE) { ctx.moveTo(0, y); ctx.lineTo(canvas.width, y); }
-    ctx.stroke();
-    ctx.fillStyle = CELL_COLOR;
-    const grid = gridRef.current;
-    for (let y = 0; y < rowsRef.current; y++) {
-      if (!grid[y]) continue;
-      for (let x = 0; x < colsRef.current; x++) {
-        if (grid[y][x]) ctx.fillRect(x * CELL_SIZE + 1, y * CELL_SIZE + 1, CELL_SIZE - 2, CELL_SIZE - 2);
+    if (frame) {
+      const { board, origin } = frame;
+      if (!bufferCanvasRef.current) bufferCanvasRef.current = document.createElement("canvas");
+      const buffer = bufferCanvasRef.current;
+      const bufferCtx = buffer.getContext("2d");
+      if (!imageRef.current || imageRef.current.image.width !== board.width || imageRef.current.image.height !== board.height) {
+        buffer.width = board.width;
+        buffer.height = board.height;
+        const image = new ImageData(board.width, board.height);
+        imageRef.current = { image, pixels: new Uint32Array(image.data.buffer) };
+      }
+      renderBoard(board, imageRef.current.pixels, paletteRef.current);
+      if (bufferCtx) {
+        bufferCtx.putImageData(imageRef.current.image, 0, 0);
+        ctx.imageSmoothingEnabled = false;
+        const span = origin.scale * size;
+        ctx.drawImage(buffer, toScreenX(origin.x), toScreenY(origin.y), board.width * span, board.height * span);
       }
     }
+
+    // グリッド線は有界な盤面なら盤面の中だけ、無限平面なら画面全体に引く
+    const isBounded = topologyRef.current !== "plane";
+    const left = isBounded ? Math.max(0, toScreenX(0)) : 0;
+    const top = isBounded ? Math.max(0, toScreenY(0)) : 0;
+    const right = isBounded ? Math.min(canvas.width, toScreenX(colsRef.current)) : canvas.width;
+    const bottom = isBounded ? Math.min(canvas.height, toScreenY(rowsRef.current)) : canvas.height;
+    if (size >= MIN_GRID_LINE_CELL && right > left && bottom > top) {
+      ctx.strokeStyle = GRID_LINE_COLOR;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      for (let x = toScreenX(Math.ceil(viewX + left / size)); x <= right; x += size) { ctx.moveTo(x, top); ctx.lineTo(x, bottom); }
+      for (let y = toScreenY(Math.ceil(viewY + top / size)); y <= bottom; y += size) { ctx.moveTo(left, y); ctx.lineTo(right, y); }
+      ctx.stroke();
+    }
+    if (isBounded) {
+      ctx.strokeStyle = WORLD_BORDER_COLOR;
+      ctx.strokeRect(toScreenX(0) - 0.5, toScreenY(0) - 0.5, colsRef.current * size + 1, rowsRef.current * size + 1);
+    }
+    // 置く前のセル (図形は消しゴムなら赤) と、ポインタに付いてくる貼り付けパターン
+    const cellSpan = Math.max(1, size);
+    const preview = previewRef.current;
+    if (preview) {
+      ctx.fillStyle = brushRef.current === "erase" ? ERASE_GHOST_COLOR : GHOST_COLOR;
+      for (let i = 0; i < preview.length; i += 2) ctx.fillRect(toScreenX(preview[i]), toScreenY(preview[i + 1]), cellSpan, cellSpan);
+    }
+    const pending = pendingPatternRef.current;
+    if (pending && ghostRef.current) {
+      const left = ghostRef.current.x - Math.floor(pending.width / 2);
+      const top = ghostRef.current.y - Math.floor(pending.height / 2);
+      ctx.fillStyle = GHOST_COLOR;
+      pending.cells.forEach(({ x, y }) => ctx.fillRect(toScreenX(left + x), toScreenY(top + y), cellSpan, cellSpan));
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.strokeRect(toScreenX(left) + 0.5, toScreenY(top) + 0.5, pending.width * size, pending.height * size);
+    }
+    if (selectionRef.current) {
+      const { x0, y0, x1, y1 } = normalizeRect(selectionRef.current);
+      ctx.strokeStyle = SELECTION_COLOR;
+      ctx.setLineDash([4, 3]);
+      ctx.strokeRect(toScreenX(x0) + 0.5, toScreenY(y0) + 0.5, (x1 - x0 + 1) * size, (y1 - y0 + 1) * size);
+      ctx.setLineDash([]);
+    }
+  }, []);
+
+  // --- 表示範囲 (パン・ズーム) ---
+  // 無限平面では表示範囲だけを Worker に描いてもらう。縮小表示では1ピクセルに 2^k セル四方をまとめる
+  const requestViewport = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || topologyRef.current !== "plane") return;
+    const { x, y, zoom: size } = viewRef.current;
+    const scaleLevel = size >= 1 ? 0 : Math.ceil(Math.log2(1 / size));
+    const scale = 2 ** scaleLevel;
+    const x0 = Math.floor(x / scale) * scale;
+    const y0 = Math.floor(y / scale) * scale;
+    clientRef.current?.setViewport({
+      x: x0,
+      y: y0,
+      width: Math.ceil((canvas.width / size + x - x0) / scale) + 1,
+      height: Math.ceil((canvas.height / size + y - y0) / scale) + 1,
+      scaleLevel
+    });
   }, []);
 
+  const updateView = useCallback((next: View) => {
+    viewRef.current = next;
+    setZoom(next.zoom);
+    requestViewport();
+    drawGrid();
+  }, [requestViewport, drawGrid]);
+
+  // 画面上の (screenX, screenY) にあるセルを動かさずに拡大縮小する
+  const zoomAt = useCallback((screenX: number, screenY: number, factor: number) => {
+    const { x, y, zoom: size } = viewRef.current;
+    const next = clampZoom(size * factor);
+    updateView({ x: x + screenX / size - screenX / next, y: y + screenY / size - screenY / next, zoom: next });
+  }, [updateView]);
+
+  const panBy = (dx: number, dy: number) => {
+    const { x, y, zoom: size } = viewRef.current;
+    updateView({ x: x - dx / size, y: y - dy / size, zoom: size });
+  };
+
+  // 盤面 (無限平面では原点からの盤面の大きさの範囲) が画面に合うように戻す
+  const fitView = useCallback(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || colsRef.current === 0) return;
+    const size = clampZoom(Math.min(canvas.width / colsRef.current, canvas.height / rowsRef.current));
+    updateView({
+      x: (colsRef.current - canvas.width / size) / 2,
+      y: (rowsRef.current - canvas.height / size) / 2,
+      zoom: size
+    });
+  }, [updateView]);
+
   // --- グリッド操作 ---
-  const resetGrid = useCallback(() => {
+  // キャンバスはウィンドウに合わせる (盤面はそのまま)
+  const resizeCanvas = useCallback(() => {
     if (!canvasRef.current || !wrapperRef.current) return;
     const { width, height } = wrapperRef.current.getBoundingClientRect();
     canvasRef.current.width = width;
     canvasRef.current.height = height;
-    const cols = Math.ceil(width / CELL_SIZE);
-    const rows = Math.ceil(height / CELL_SIZE);
+  }, []);
+
+  // 盤面の大きさはキャンバスとセルサイズから決める
+  const createEmptyBoard = useCallback(() => {
+    if (!canvasRef.current) return null;
+    resizeCanvas();
+    const cols = Math.ceil(canvasRef.current.width / cellSizeRef.current);
+    const rows = Math.ceil(canvasRef.current.height / cellSizeRef.current);
     rowsRef.current = rows;
     colsRef.current = cols;
-    gridRef.current = new Array(rows).fill(null).map(() => new Array(cols).fill(0));
+    return createBoard(cols, rows, formatForRule(ruleRef.current));
+  }, [resizeCanvas]);
+
+  const loadPattern = useCallback((patternName: string) => {
+    const board = createEmptyBoard();
+    if (!board || !clientRef.current) return;
+    const pattern = PATTERNS[patternName];
+    if (pattern) {
+      const rows = rowsRef.current;
+      const cols = colsRef.current;
+      let maxX = 0, maxY = 0;
+      pattern.forEach(([y, x]) => { if (x > maxX) maxX = x; if (y > maxY) maxY = y; });
+      const offsetX = Math.floor((cols - maxX) / 2);
+      const offsetY = Math.floor((rows - maxY) / 2);
+      pattern.forEach(([y, x]) => {
+          const targetY = y + offsetY;
+          const targetX = x + offsetX;
+          if (targetY >= 0 && targetY < rows && targetX >= 0 && targetX < cols) setCell(board, targetX, targetY, 1);
+      });
+    }
+    clientRef.current.load(board, ruleRef.current, topologyRef.current);
     setGeneration(0);
+    fitView();
+  }, [createEmptyBoard, fitView]);
+
+  const handleFrame = useCallback((frame: LifeFrame) => {
+    setGeneration(frame.generation);
+    setPopulation(frame.population);
+    setEngine(frame.engine);
+    setHistory(frame.history);
+    setTimeline(frame.timeline);
+    setStats(frame.stats);
+    setSamples(prev => appendSample(prev, { generation: frame.generation, population: frame.population }));
+    setTopology(frame.topology);
+    topologyRef.current = frame.topology;
     drawGrid();
   }, [drawGrid]);
 
-  const loadPattern = useCallback((patternName: string) => {
-    resetGrid();
-    const pattern = PATTERNS[patternName];
-    if (!pattern) return;
-    const grid = gridRef.current;
-    const rows = rowsRef.current;
-    const cols = colsRef.current;
-    let maxX = 0, maxY = 0;
-    pattern.forEach(([y, x]) => { if (x > maxX) maxX = x; if (y > maxY) maxY = y; });
-    const offsetX = Math.floor((cols - maxX) / 2);
-    const offsetY = Math.floor((rows - maxY) / 2);
-    pattern.forEach(([y, x]) => {
-        const targetY = y + offsetY;
-        const targetX = x + offsetX;
-        if (targetY >= 0 && targetY < rows && targetX >= 0 && targetX < cols) grid[targetY][targetX] = 1;
+  // 計算は Worker に任せ、前のフレームが届いてから次の世代を頼む。
+  // 速度の指定があれば経過時間ぶんのステップを、MAX (と RUN TO) では計算時間に合わせてまとめて頼む。
+  // HashLife では1ステップで 2^k 世代進める
+  useEffect(() => {
+    if (!isRunning) return;
+    const unit = engine === "hashlife" ? 2 ** stepExponent : 1;
+    let last = performance.now();
+    let due = 0; // まだ頼んでいないステップ数 (端数を持ち越す)
+    let requestedAt = 0;
+    const loop = (now: number) => {
+      const client = clientRef.current;
+      if (speed !== "max") due = Math.min(due + ((now - last) / 1000) * speed, speed); // 詰まっても1秒ぶんまで
+      last = now;
+      if (client && !client.isBusy) {
+        const target = targetRef.current;
+        const generation = client.frame?.generation ?? 0;
+        if (target !== null && generation >= target) {
+          targetRef.current = null;
+          setTargetGeneration(null);
+          setIsRunning(false);
+          return;
+        }
+        let count = 0;
+        if (speed === "max" || target !== null) {
+          if (requestedAt) {
+            const took = now - requestedAt;
+            if (took < MAX_BATCH_MS) batchRef.current = Math.min(MAX_BATCH, batchRef.current * 2);
+            else if (took > MAX_BATCH_MS * 2) batchRef.current = Math.max(1, Math.floor(batchRef.current / 2));
+          }
+          count = batchRef.current * unit;
+        } else if (due >= 1) {
+          count = Math.floor(due) * unit;
+          due -= Math.floor(due);
+        }
+        if (target !== null) count = Math.min(count, target - generation);
+        if (count > 0) {
+          client.step(count);
+          requestedAt = now;
+        }
+      }
+      animationFrameId.current = requestAnimationFrame(loop);
+    };
+    animationFrameId.current = requestAnimationFrame(loop);
+    return () => cancelAnimationFrame(animationFrameId.current);
+  }, [isRunning, engine, stepExponent, speed]);
+
+  useEffect(() => {
+    clientRef.current = new LifeWorkerClient(handleFrame, (message) => setIoMessage({ text: message, isError: true }), setHistory);
+    loadPattern(selectedPattern);
+    const handleResize = () => { resizeCanvas(); requestViewport(); drawGrid(); };
+    window.addEventListener('resize', handleResize);
+    return () => {
+      window.removeEventListener('resize', handleResize);
+      clientRef.current?.dispose();
+      clientRef.current = null;
+    };
+  }, []); // eslint-disable-line
+
+  const handleCellSizeChange = (size: number) => {
+    cellSizeRef.current = size;
+    setCellSize(size);
+    setIsRunning(false);
+    clearSelection();
+    loadPattern(selectedPattern);
+  };
+
+  // ルールの切り替えは盤面を保ったまま次の世代から反映する。
+  // 状態数が減った場合は範囲外になった消えかけセルを消す
+  const applyRule = (next: LifeRule) => {
+    setRuleText(formatRule(next));
+    setRuleError(null);
+    updateRule(next);
+  };
+
+  const updateRule = (next: LifeRule) => {
+    ruleRef.current = next;
+    paletteRef.current = buildPalette(next.states);
+    setRule(next);
+    clientRef.current?.setRule(next);
+  };
+
+  // 入力中は書式を確かめるだけにして、Enter か入力欄を離れたときに反映する
+  // (B2/S345/C24 を打つ途中の .../C2 で消えかけセルが消えないように)
+  const handleRuleInput = (text: string) => {
+    setRuleText(text);
+    try {
+      parseRule(text);
+      setRuleError(null);
+    } catch (e) {
+      setRuleError(e instanceof RuleError ? e.message : String(e));
+    }
+  };
+
+  const commitRuleText = () => {
+    try {
+      applyRule(parseRule(ruleText));
+    } catch (e) {
+      setRuleError(e instanceof RuleError ? e.message : String(e));
+    }
+  };
+
+  const presetName = findPresetName(rule);
+
+  const handleEngineChange = (next: SimulationEngine) => {
+    if (next === "hashlife" && !canUseHashLife(ruleRef.current)) {
+      setIoMessage({ text: `HashLife only runs 2-state rules without B0 (current: ${formatRule(ruleRef.current)}).`, isError: true });
+      return;
+    }
+    setEngine(next);
+    clientRef.current?.setEngine(next);
+    // HashLife は無限平面でだけ動く
+    if (next === "hashlife") {
+      setTopology("plane");
+      topologyRef.current = "plane";
+      requestViewport();
+    }
+    setIoMessage(next === "hashlife"
+      ? { text: "HashLife runs on the unbounded plane. Drag with the right button and use the wheel to explore it.", isError: false }
+      : null);
+  };
+
+  // 盤面と無限平面の間は、盤面の範囲 (0, 0)-(幅, 高さ) のセルを受け渡す
+  const handleTopologyChange = (next: Topology) => {
+    setTopology(next);
+    topologyRef.current = next;
+    if (next !== "plane") setEngine("array");
+    clientRef.current?.setTopology(next);
+    requestViewport();
+    drawGrid();
+  };
+
+  // 有界な盤面では盤面の外には描けない
+  const isOnBoard = (x: number, y: number) =>
+    topologyRef.current === "plane" || (x >= 0 && x < colsRef.current && y >= 0 && y < rowsRef.current);
+
+  // --- Pattern Import / Export ---
+  const clientToCell = (clientX: number, clientY: number) => {
+    if (!canvasRef.current) return null;
+    const rect = canvasRef.current.getBoundingClientRect();
+    const { x, y, zoom: size } = viewRef.current;
+    return { x: Math.floor(x + (clientX - rect.left) / size), y: Math.floor(y + (clientY - rect.top) / size) };
+  };
+
+  // 編集や計算の前に今の状態を履歴に積む
+  const checkpoint = () => {
+    const client = clientRef.current;
+    if (!client) return;
+    client.checkpoint();
+    if (client.frame) setHistory(client.frame.history);
+  };
+
+  // パターンの中心を (cx, cy) に合わせて置く。盤面からはみ出す部分は捨てる
+  const placePattern = (pattern: LifePattern, cx: number, cy: number) => {
+    const left = cx - Math.floor(pattern.width / 2);
+    const top = cy - Math.floor(pattern.height / 2);
+    const maxState = Math.max(1, ruleRef.current.states - 1);
+    const edits: number[] = [];
+    let clipped = 0;
+    pattern.cells.forEach(({ x, y, state }) => {
+      const tx = left + x;
+      const ty = top + y;
+      if (isOnBoard(tx, ty)) edits.push(tx, ty, Math.min(state, maxState));
+      else clipped++;
     });
+    checkpoint();
+    clientRef.current?.edit(edits);
     drawGrid();
-  }, [resetGrid, drawGrid]);
-
-  const computeNextGen = useCallback(() => {
-    const grid = gridRef.current;
-    const rows = rowsRef.current;
-    const cols = colsRef.current;
-    const nextGrid = grid.map(arr => [...arr]); 
-    for (let y = 0; y < rows; y++) {
-      for (let x = 0; x < cols; x++) {
-        const state = grid[y][x];
-        let neighbors = 0;
-        for (let i = -1; i <= 1; i++) {
-          for (let j = -1; j <= 1; j++) {
-            if (i === 0 && j === 0) continue;
-            neighbors += grid[(y + i + rows) % rows][(x + j + cols) % cols];
-          }
+    const label = pattern.name || `${pattern.width}x${pattern.height} pattern`;
+    setIoMessage({ text: clipped > 0 ? `Placed ${label}; ${clipped} cells fell outside the board.` : `Placed ${label}.`, isError: false });
+  };
+
+  // 読み込んだパターンは、位置の指定 (ドロップ) があればそこへ、なければ次のクリック位置に置く
+  const loadPatternText = (text: string, at: { x: number; y: number } | null = null) => {
+    try {
+      const pattern = parsePattern(text);
+      if (pattern.rule) {
+        try {
+          applyRule(parseRule(pattern.rule));
+        } catch {
+          setRuleError(`Pattern rule "${pattern.rule}" is not supported; keeping ${formatRule(ruleRef.current)}.`);
         }
-        if (state === 1 && (neighbors < 2 || neighbors > 3)) nextGrid[y][x] = 0;
-        else if (state === 0 && neighbors === 3) nextGrid[y][x] = 1;
       }
+      setIsRunning(false);
+      setIsImportOpen(false);
+      if (at) {
+        placePattern(pattern, at.x, at.y);
+        return;
+      }
+      pendingPatternRef.current = pattern;
+      setPendingName(pattern.name || `${pattern.width}x${pattern.height}`);
+      setIoMessage(null);
+    } catch (e) {
+      setIoMessage({ text: e instanceof PatternError ? e.message : String(e), isError: true });
     }
-    gridRef.current = nextGrid;
-    setGeneration(g => g + 1);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (file) loadPatternText(await file.text());
+  };
+
+  const handleDrop = async (e: React.DragEvent) => {
+    e.preventDefault();
+    const at = clientToCell(e.clientX, e.clientY);
+    const file = e.dataTransfer.files[0];
+    const text = file ? await file.text() : e.dataTransfer.getData("text/plain");
+    if (text) loadPatternText(text, at);
+  };
+
+  const clearSelection = useCallback(() => {
+    selectionRef.current = null;
+    setHasSelection(false);
     drawGrid();
   }, [drawGrid]);
 
-  const loop = useCallback(() => {
-    if (!isRunning) return;
-    computeNextGen();
-    animationFrameId.current = requestAnimationFrame(loop);
-  }, [isRunning, computeNextGen]);
+  // 選択範囲 (なければ盤面全体、無限平面では表示範囲) の生きたセルを囲む最小の矩形を RLE にする
+  const handleExportRle = async () => {
+    const frame = clientRef.current?.frame;
+    if (!frame) return;
+    if (frame.origin.scale !== 1) {
+      setIoMessage({ text: "Zoom in to at least 1 cell per pixel to export from the plane.", isError: true });
+      return;
+    }
+    // フレームに写っている範囲しか読めない
+    const { origin, board } = frame;
+    const region = selectionRef.current
+      ? normalizeRect(selectionRef.current)
+      : { x0: origin.x, y0: origin.y, x1: origin.x + board.width - 1, y1: origin.y + board.height - 1 };
+    let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+    for (let y = Math.max(origin.y, region.y0); y <= Math.min(origin.y + board.height - 1, region.y1); y++) {
+      for (let x = Math.max(origin.x, region.x0); x <= Math.min(origin.x + board.width - 1, region.x1); x++) {
+        if (!frameCell(frame, x, y)) continue;
+        if (x < minX) minX = x;
+        if (y < minY) minY = y;
+        if (x > maxX) maxX = x;
+        if (y > maxY) maxY = y;
+      }
+    }
+    if (maxX === -Infinity) {
+      setIoMessage({ text: "Nothing to export: no live cells.", isError: true });
+      return;
+    }
+
+    const rle = encodeRle(maxX - minX + 1, maxY - minY + 1, (x, y) => frameCell(frame, minX + x, minY + y), { rule: formatRule(ruleRef.current) });
+    downloadBlob(new Blob([rle], { type: "text/plain" }), `life-gen${generation}.rle`);
+    try {
+      await navigator.clipboard.writeText(rle);
+      setIoMessage({ text: "RLE downloaded and copied to clipboard.", isError: false });
+    } catch {
+      setIoMessage({ text: "RLE downloaded.", isError: false });
+    }
+  };
+
+  // --- 編集 (ブラシ・選択範囲・クリップボード・履歴) ---
+  const selectTool = (next: EditTool) => { toolRef.current = next; setTool(next); };
+  const selectBrush = (next: BrushMode) => { brushRef.current = next; setBrush(next); };
+
+  // セル列をブラシで塗る。skip を渡すと一度塗ったセルは飛ばす (toggle のなぞり用)
+  const paint = (cells: number[], skip?: Set<string>) => {
+    const client = clientRef.current;
+    if (!client) return;
+    const edits: number[] = [];
+    for (let i = 0; i < cells.length; i += 2) {
+      const x = cells[i];
+      const y = cells[i + 1];
+      if (!isOnBoard(x, y)) continue;
+      if (skip) {
+        const key = `${x},${y}`;
+        if (skip.has(key)) continue;
+        skip.add(key);
+      }
+      const mode = brushRef.current;
+      const state = mode === "draw" ? 1 : mode === "erase" ? 0 : client.frame && frameCell(client.frame, x, y) ? 0 : 1;
+      edits.push(x, y, state);
+    }
+    client.edit(edits);
+  };
+
+  // 選択範囲を読む。無限平面の縮小表示では読めない
+  const readSelection = () => {
+    const frame = clientRef.current?.frame;
+    const selection = selectionRef.current;
+    if (!frame || !selection) return null;
+    if (frame.origin.scale !== 1) {
+      setIoMessage({ text: "Zoom in to at least 1 cell per pixel to copy from the plane.", isError: true });
+      return null;
+    }
+    return extractPattern(selection, (x, y) => frameCell(frame, x, y));
+  };
+
+  const eraseSelection = () => {
+    const pattern = readSelection();
+    const selection = selectionRef.current;
+    if (!pattern || !selection) return;
+    const { x0, y0 } = normalizeRect(selection);
+    checkpoint();
+    clientRef.current?.edit(pattern.cells.flatMap(({ x, y }) => [x0 + x, y0 + y, 0]));
+    drawGrid();
+  };
+
+  const copySelection = () => {
+    const pattern = readSelection();
+    if (!pattern) return false;
+    clipboardRef.current = pattern;
+    setHasClipboard(true);
+    setIoMessage({ text: `Copied ${pattern.width}x${pattern.height} selection (${pattern.cells.length} cells).`, isError: false });
+    // 他のツールへも RLE で渡せるようにする (失敗しても内部のクリップボードは使える)
+    if (pattern.cells.length > 0) {
+      const byPosition = new Map(pattern.cells.map(({ x, y, state }) => [`${x},${y}`, state]));
+      const rle = encodeRle(pattern.width, pattern.height, (x, y) => byPosition.get(`${x},${y}`) ?? 0, { rule: formatRule(ruleRef.current) });
+      navigator.clipboard?.writeText(rle).catch(() => {});
+    }
+    return true;
+  };
+
+  const cutSelection = () => {
+    if (copySelection()) eraseSelection();
+  };
+
+  // 貼り付けはゴーストをポインタに付けて、クリックで置く
+  const startPaste = () => {
+    const pattern = clipboardRef.current;
+    if (!pattern) return;
+    setIsRunning(false);
+    pendingPatternRef.current = pattern;
+    setPendingName(`${pattern.width}x${pattern.height} clipboard`);
+    drawGrid();
+  };
+
+  // 貼り付け待ちのパターンがあればそれを、なければ選択範囲をその場で回転・反転する
+  const transform = (apply: (pattern: LifePattern) => LifePattern) => {
+    if (pendingPatternRef.current) {
+      pendingPatternRef.current = apply(pendingPatternRef.current);
+      drawGrid();
+      return;
+    }
+    const pattern = readSelection();
+    const selection = selectionRef.current;
+    if (!pattern || !selection) return;
+    const rect = normalizeRect(selection);
+    const next = apply(pattern);
+    // 選択範囲の中心を保つ
+    const cx = Math.floor((rect.x0 + rect.x1) / 2);
+    const cy = Math.floor((rect.y0 + rect.y1) / 2);
+    const left = cx - Math.floor(next.width / 2);
+    const top = cy - Math.floor(next.height / 2);
+    const edits = pattern.cells.flatMap(({ x, y }) => [rect.x0 + x, rect.y0 + y, 0]);
+    next.cells.forEach(({ x, y, state }) => { if (isOnBoard(left + x, top + y)) edits.push(left + x, top + y, state); });
+    checkpoint();
+    clientRef.current?.edit(edits);
+    selectionRef.current = { x0: left, y0: top, x1: left + next.width - 1, y1: top + next.height - 1 };
+    drawGrid();
+  };
+
+  // 開いている間だけ Worker に解析させる (1世代ずつの計算になるので閉じれば元の速さ)
+  const toggleStats = () => {
+    clientRef.current?.setAnalysis(!isStatsOpen);
+    setIsStatsOpen(!isStatsOpen);
+  };
+
+  // --- 再生操作 ---
+  const togglePlay = () => {
+    if (isRunning) {
+      targetRef.current = null;
+      setTargetGeneration(null);
+    } else {
+      checkpoint();
+    }
+    setIsRunning(!isRunning);
+  };
+
+  const stepForward = () => {
+    setIsRunning(false);
+    checkpoint();
+    clientRef.current?.stepForward();
+  };
+
+  const stepBack = () => {
+    setIsRunning(false);
+    checkpoint();
+    clientRef.current?.stepBack();
+  };
+
+  const seekTimeline = (index: number) => {
+    setIsRunning(false);
+    clientRef.current?.seek(index);
+  };
 
+  // 指定した世代まで全速で進めて止める
+  const runToGeneration = () => {
+    const target = Number(targetText.replace(/[,_\s]/g, ""));
+    const current = clientRef.current?.frame?.generation ?? 0;
+    if (!Number.isSafeInteger(target) || target <= current) {
+      setIoMessage({ text: `Enter a generation after the current one (${current.toLocaleString("en-US")}).`, isError: true });
+      return;
+    }
+    targetRef.current = target;
+    setTargetGeneration(target);
+    setIoMessage(null);
+    checkpoint();
+    setIsRunning(true);
+  };
+
+  // キーボードからも呼ばれるので、戻す先がなければ何もしない (ボタンは無効になっている)
+  const undo = () => {
+    if (history.undo === 0) return;
+    setIsRunning(false);
+    clientRef.current?.undo();
+  };
+  const redo = () => {
+    if (history.redo === 0) return;
+    setIsRunning(false);
+    clientRef.current?.redo();
+  };
+
+  const clearBoard = () => {
+    setIsRunning(false);
+    checkpoint();
+    clientRef.current?.clear();
+  };
+
+  // 入力欄での操作は横取りしない
   useEffect(() => {
-    if (isRunning) animationFrameId.current = requestAnimationFrame(loop);
-    else cancelAnimationFrame(animationFrameId.current);
-    return () => cancelAnimationFrame(animationFrameId.current);
-  }, [isRunning, loop]);
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && ["INPUT", "TEXTAREA", "SELECT"].includes(target.tagName)) return;
+      const key = e.key.toLowerCase();
+      const isCommand = e.ctrlKey || e.metaKey;
+      if (e.key === "Escape") {
+        pendingPatternRef.current = null;
+        setPendingName(null);
+        clearSelection();
+      } else if (isCommand && key === "z") {
+        e.preventDefault();
+        if (e.shiftKey) redo();
+        else undo();
+      } else if (isCommand && key === "y") {
+        e.preventDefault();
+        redo();
+      } else if (isCommand && key === "c") {
+        copySelection();
+      } else if (isCommand && key === "x") {
+        cutSelection();
+      } else if (isCommand && key === "v") {
+        startPaste();
+      } else if (isCommand) {
+        return;
+      } else if (e.key === " ") {
+        if (target?.tagName === "BUTTON") return; // ボタン自身の操作に任せる
+        e.preventDefault();
+        togglePlay();
+      } else if (e.key === ".") {
+        stepForward();
+      } else if (e.key === ",") {
+        stepBack();
+      } else if (e.key === "Delete" || e.key === "Backspace") {
+        eraseSelection();
+      } else if (key === "r") {
+        transform(rotatePattern);
+      } else if (key === "h") {
+        transform(pattern => flipPattern(pattern, "horizontal"));
+      } else if (key === "v") {
+        transform(pattern => flipPattern(pattern, "vertical"));
+      }
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
 
+  // ホイールはページの拡大 (トラックパッドのピンチは ctrl+wheel) を止めたいので passive でないリスナーにする
   useEffect(() => {
-    loadPattern(selectedPattern);
-    const handleResize = () => { setIsRunning(false); loadPattern(selectedPattern); };
-    window.addEventListener('resize', handleResize);
-    return () => window.removeEventListener('resize', handleResize);
-  }, []); // eslint-disable-line
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      zoomAt(e.clientX - rect.left, e.clientY - rect.top, Math.exp(-e.deltaY * ZOOM_SENSITIVITY));
+    };
+    canvas.addEventListener("wheel", handleWheel, { passive: false });
+    return () => canvas.removeEventListener("wheel", handleWheel);
+  }, [zoomAt]);
+
+  // 2本指: ピンチで拡大縮小しながら、中点の移動でパンする
+  const handlePinch = (touches: React.TouchList) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const rect = canvas.getBoundingClientRect();
+    const dist = Math.hypot(touches[0].clientX - touches[1].clientX, touches[0].clientY - touches[1].clientY);
+    const x = (touches[0].clientX + touches[1].clientX) / 2 - rect.left;
+    const y = (touches[0].clientY + touches[1].clientY) / 2 - rect.top;
+    const last = pinchRef.current;
+    pinchRef.current = { dist, x, y };
+    if (!last || last.dist === 0) return;
+    panBy(x - last.x, y - last.y);
+    zoomAt(x, y, dist / last.dist);
+  };
+
+  // 線・矩形はボタンを離したときに確定する
+  const handlePointerEnd = () => {
+    isPanningRef.current = false;
+    pinchRef.current = null;
+    const stroke = strokeRef.current;
+    strokeRef.current = null;
+    if (stroke && previewRef.current && (stroke.tool === "line" || stroke.tool === "rect")) {
+      checkpoint();
+      paint(previewRef.current);
+    }
+    previewRef.current = null;
+    drawGrid();
+  };
 
+  // クリック: 読み込み待ち・貼り付け待ちのパターンがあれば配置、それ以外は今のツール (Shift+ドラッグは常に範囲選択)。
+  // 右/中ボタンのドラッグと2本指はパン・ズーム
   const handleInteraction = (e: React.MouseEvent | React.TouchEvent) => {
-    let clientX, clientY;
-    if ('touches' in e) { clientX = e.touches[0].clientX; clientY = e.touches[0].clientY; }
-    else { if ((e as React.MouseEvent).buttons !== 1) return; clientX = (e as React.MouseEvent).clientX; clientY = (e as React.MouseEvent).clientY; }
-    if (!canvasRef.current) return;
-    const rect = canvasRef.current.getBoundingClientRect();
-    const x = Math.floor((clientX - rect.left) / CELL_SIZE);
-    const y = Math.floor((clientY - rect.top) / CELL_SIZE);
-    if (x >= 0 && x < colsRef.current && y >= 0 && y < rowsRef.current) {
-        gridRef.current[y][x] = 1;
-        drawGrid();
+    const isStart = e.type === "mousedown" || e.type === "touchstart";
+    if ('touches' in e && e.touches.length >= 2) { handlePinch(e.touches); return; }
+    if (!('touches' in e)) {
+      const mouse = e as React.MouseEvent;
+      if (isStart && (mouse.button === 1 || mouse.button === 2)) isPanningRef.current = true;
+      if (isPanningRef.current) {
+        if (!isStart) panBy(mouse.clientX - lastPointerRef.current.x, mouse.clientY - lastPointerRef.current.y);
+        lastPointerRef.current = { x: mouse.clientX, y: mouse.clientY };
+        return;
+      }
+    }
+    if (pinchRef.current) return; // ピンチの指を離す途中で描かない
+    const point = 'touches' in e ? e.touches[0] : (e as React.MouseEvent);
+    const isPressed = 'touches' in e || (e as React.MouseEvent).buttons === 1;
+    const cell = clientToCell(point.clientX, point.clientY);
+    if (!cell) return;
+    const { x, y } = cell;
+
+    // 置く前のパターンはボタンを押していなくてもポインタに付いてくる
+    if (pendingPatternRef.current) {
+      ghostRef.current = cell;
+      if (isStart && isPressed) {
+        placePattern(pendingPatternRef.current, x, y);
+        pendingPatternRef.current = null;
+        ghostRef.current = null;
+        setPendingName(null);
+      }
+      drawGrid();
+      return;
+    }
+    if (!isPressed) return;
+
+    if (isStart) {
+      const current = e.shiftKey ? "select" : toolRef.current;
+      strokeRef.current = { tool: current, start: cell, last: cell, visited: new Set() };
+      if (current === "pencil") checkpoint();
     }
+    const stroke = strokeRef.current;
+    if (!stroke) return;
+    switch (stroke.tool) {
+      case "select":
+        selectionRef.current = { x0: stroke.start.x, y0: stroke.start.y, x1: x, y1: y };
+        setHasSelection(true);
+        break;
+      case "line":
+        previewRef.current = lineCells(stroke.start.x, stroke.start.y, x, y);
+        break;
+      case "rect":
+        previewRef.current = rectCells({ x0: stroke.start.x, y0: stroke.start.y, x1: x, y1: y });
+        break;
+      default:
+        // 速く動かしても途切れないよう、前の位置から線でつなぐ
+        paint(lineCells(stroke.last.x, stroke.last.y, x, y), brushRef.current === "toggle" ? stroke.visited : undefined);
+        stroke.last = cell;
+    }
+    drawGrid();
   };
 
   return (
@@ -160,24 +955,192 @@ export default function GameOfLifePage() {
         ← HUB
       </Link>
 
-      <div ref={wrapperRef} className="flex-grow relative w-full">
-        <canvas ref={canvasRef} className="block outline-none active:cursor-cell"
+      <div ref={wrapperRef} className="flex-grow relative w-full"
+        onDragOver={(e) => e.preventDefault()} onDrop={handleDrop}>
+        <canvas ref={canvasRef} className={`block outline-none ${pendingName ? 'cursor-crosshair' : 'active:cursor-cell'}`}
           onMouseDown={handleInteraction} onMouseMove={handleInteraction}
+          onMouseUp={handlePointerEnd} onMouseLeave={handlePointerEnd}
           onTouchStart={handleInteraction} onTouchMove={handleInteraction}
+          onTouchEnd={(e) => { if (e.touches.length === 0) handlePointerEnd(); }}
+          onContextMenu={(e) => e.preventDefault()}
         />
+        <div className="absolute right-4 bottom-4 z-30 flex gap-2 items-center text-[10px]">
+          <span className="bg-black/50 rounded px-2 py-1 backdrop-blur border border-green-900/30 pointer-events-none">
+            ZOOM: {zoom >= 1 ? `x${zoom.toFixed(2)}` : `1/${Math.round(1 / zoom)}`}
+          </span>
+          <button onClick={fitView} className="bg-black/50 rounded px-2 py-1 backdrop-blur border border-green-900 hover:border-green-500">FIT</button>
+          <button onClick={toggleStats}
+              className={`rounded px-2 py-1 backdrop-blur border ${isStatsOpen ? 'bg-green-600 border-green-600 text-black' : 'bg-black/50 border-green-900 hover:border-green-500'}`}>
+              STATS
+          </button>
+        </div>
+        {isStatsOpen && (
+          <div className="absolute right-4 top-4 z-30 flex flex-col gap-1 p-3 bg-black/70 backdrop-blur border border-green-900 rounded text-[10px] pointer-events-none">
+            <span className="text-gray-400">POPULATION {samples.length > 0 ? `(GEN ${samples[0].generation.toLocaleString("en-US")}–)` : ""}</span>
+            <Sparkline samples={samples} />
+            <span>POP: {population.toLocaleString("en-US")} · BIRTHS: {formatCount(stats?.births ?? null)} · DEATHS: {formatCount(stats?.deaths ?? null)}</span>
+            <span>
+              BOX: {stats?.bounds
+                ? `${stats.bounds.width.toLocaleString("en-US")}×${stats.bounds.height.toLocaleString("en-US")} @ (${stats.bounds.x}, ${stats.bounds.y})`
+                : "—"}
+            </span>
+            <span className="text-green-300">
+              {stats?.periodicity
+                ? describePeriodicity(stats.periodicity)
+                : engine === "hashlife" ? "PERIOD NOT TRACKED ON HASHLIFE" : "NO PERIOD FOUND (≤ 256 GEN)"}
+            </span>
+          </div>
+        )}
       </div>
 
       <div className="flex-none p-4 pb-8 bg-gray-900/90 backdrop-blur border-t border-green-900 z-10 flex flex-col gap-3 shadow-[0_-5px_20px_rgba(0,0,0,0.5)]">
         <div className="flex justify-between items-center text-xs text-gray-400 pl-16">
-            <span>GEN: {generation}</span>
-            <span>DRAW TO INTERACT</span>
+            <span>GEN: {generation.toLocaleString("en-US")} · POP: {population.toLocaleString("en-US")} · {formatRule(rule)}{presetName ? ` (${presetName})` : ""}</span>
+            <span>{pendingName ? `CLICK TO PLACE ${pendingName} · R ROTATE · H/V FLIP · ESC CANCEL` : "SHIFT+DRAG SELECT · RIGHT-DRAG PAN · WHEEL ZOOM · CTRL+Z UNDO"}</span>
+        </div>
+        <div className="flex flex-wrap gap-2 w-full items-center text-xs font-bold">
+            <div className="flex rounded border border-green-700 overflow-hidden">
+              {BRUSHES.map(({ value, label }) => (
+                <button key={value} onClick={() => selectBrush(value)}
+                    className={`px-3 py-2 ${brush === value ? 'bg-green-600 text-black' : 'bg-black text-green-400'}`}>{label}</button>
+              ))}
+            </div>
+            <div className="flex rounded border border-green-700 overflow-hidden">
+              {TOOLS.map(({ value, label }) => (
+                <button key={value} onClick={() => selectTool(value)}
+                    className={`px-3 py-2 ${tool === value ? 'bg-green-600 text-black' : 'bg-black text-green-400'}`}>{label}</button>
+              ))}
+            </div>
+            <button onClick={undo} disabled={history.undo === 0} title="Undo (Ctrl+Z)"
+                className="px-3 py-2 rounded border border-green-700 bg-black text-green-400 disabled:opacity-40">UNDO</button>
+            <button onClick={redo} disabled={history.redo === 0} title="Redo (Ctrl+Shift+Z)"
+                className="px-3 py-2 rounded border border-green-700 bg-black text-green-400 disabled:opacity-40">REDO</button>
+            <button onClick={clearBoard} className="px-3 py-2 rounded border border-red-900 bg-black text-red-400">CLEAR</button>
+        </div>
+        {(hasSelection || hasClipboard || pendingName) && (
+          <div className="flex flex-wrap gap-2 w-full text-xs font-bold">
+              <button onClick={copySelection} disabled={!hasSelection} title="Ctrl+C"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300 disabled:opacity-40">COPY</button>
+              <button onClick={cutSelection} disabled={!hasSelection} title="Ctrl+X"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300 disabled:opacity-40">CUT</button>
+              <button onClick={startPaste} disabled={!hasClipboard} title="Ctrl+V"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300 disabled:opacity-40">PASTE</button>
+              <button onClick={() => transform(rotatePattern)} title="R"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300">ROTATE</button>
+              <button onClick={() => transform(pattern => flipPattern(pattern, "horizontal"))} title="H"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300">FLIP H</button>
+              <button onClick={() => transform(pattern => flipPattern(pattern, "vertical"))} title="V"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300">FLIP V</button>
+              <button onClick={eraseSelection} disabled={!hasSelection} title="Delete"
+                  className="flex-1 p-2 rounded border border-cyan-800 text-cyan-300 disabled:opacity-40">DELETE</button>
+          </div>
+        )}
+        <div className="flex gap-2 w-full items-center">
+            <select value={presetName ? formatRule(rule) : CUSTOM_RULE}
+                onChange={(e) => { if (e.target.value !== CUSTOM_RULE) applyRule(parseRule(e.target.value)); }}
+                className="flex-grow bg-black border border-green-700 text-green-400 p-2 rounded text-sm focus:outline-none focus:border-green-400"
+                aria-label="Rule preset">
+                {RULE_PRESETS.map(preset => (
+                  <option key={preset.name} value={formatRule(parseRule(preset.rule))}>{preset.name} — {preset.rule}</option>
+                ))}
+                <option value={CUSTOM_RULE}>Custom</option>
+            </select>
+            <input value={ruleText} onChange={(e) => handleRuleInput(e.target.value)}
+                onBlur={commitRuleText}
+                onKeyDown={(e) => { if (e.key === "Enter") commitRuleText(); }}
+                spellCheck={false}
+                className={`w-40 bg-black border p-2 rounded text-sm focus:outline-none ${ruleError ? 'border-red-500 text-red-400' : 'border-green-700 text-green-400 focus:border-green-400'}`}
+                aria-label="Rulestring" title={ruleError ?? "B3/S23, 23/3, B2/S345/C4 ..."} />
+        </div>
+        {ruleError && <div className="text-xs text-red-400">{ruleError}</div>}
+        <div className="flex gap-2 w-full">
+            <button onClick={() => setIsImportOpen(!isImportOpen)}
+                className={`flex-1 p-2 rounded border text-xs font-bold transition-all ${isImportOpen ? 'bg-green-600 border-green-600 text-black' : 'bg-black border-green-700 text-green-400'}`}>
+                IMPORT RLE / CELLS
+            </button>
+            <button onClick={handleExportRle} className="flex-1 p-2 rounded border border-green-700 bg-black text-green-400 text-xs font-bold">
+                {hasSelection ? "EXPORT SELECTION" : "EXPORT RLE"}
+            </button>
+            {hasSelection && (
+              <button onClick={clearSelection} className="px-3 rounded border border-green-900 text-gray-400 text-xs" aria-label="Clear selection">×</button>
+            )}
+            <input ref={fileInputRef} type="file" accept=".rle,.cells,.txt" className="hidden" onChange={handleFileChange} />
+        </div>
+        {isImportOpen && (
+          <div className="flex flex-col gap-2">
+            <textarea value={importText} onChange={(e) => setImportText(e.target.value)} rows={4} spellCheck={false}
+                placeholder={"Paste RLE (x = 3, y = 3, rule = B3/S23 ...) or .cells plaintext.\nFiles can also be dropped onto the board."}
+                className="w-full bg-black border border-green-700 text-green-400 p-2 rounded text-xs focus:outline-none focus:border-green-400" />
+            <div className="flex gap-2">
+              <button onClick={() => loadPatternText(importText)} disabled={!importText.trim()}
+                  className="flex-1 p-2 rounded border border-green-600 text-green-400 text-xs font-bold disabled:opacity-40">LOAD PASTED</button>
+              <button onClick={() => fileInputRef.current?.click()}
+                  className="flex-1 p-2 rounded border border-green-600 text-green-400 text-xs font-bold">OPEN FILE…</button>
+            </div>
+          </div>
+        )}
+        {ioMessage && <div className={`text-xs ${ioMessage.isError ? 'text-red-400' : 'text-gray-400'}`}>{ioMessage.text}</div>}
+        <div className="flex flex-wrap gap-2 w-full items-center text-xs font-bold">
+            <button onClick={stepBack} disabled={timeline.index === 0} title="Step back (,)"
+                className="px-3 py-2 rounded border border-green-700 bg-black text-green-400 disabled:opacity-40">◀ BACK</button>
+            <button onClick={stepForward} title="Step forward (.)"
+                className="px-3 py-2 rounded border border-green-700 bg-black text-green-400">STEP ▶</button>
+            <select value={String(speed)} onChange={(e) => setSpeed(e.target.value === "max" ? "max" : Number(e.target.value))}
+                className="bg-black border border-green-700 text-green-400 p-2 rounded focus:outline-none focus:border-green-400"
+                aria-label={engine === "hashlife" ? "Steps per second" : "Generations per second"}>
+                {SPEEDS.map(value => (
+                  <option key={value} value={String(value)}>{value === "max" ? "MAX" : `${value} ${engine === "hashlife" ? "STEP" : "GEN"}/S`}</option>
+                ))}
+            </select>
+            <label className="flex-grow flex items-center gap-2 text-gray-400 font-normal min-w-40">
+                <span className="whitespace-nowrap">REWIND {timeline.index + 1}/{timeline.length}</span>
+                <input type="range" min={0} max={Math.max(0, timeline.length - 1)} value={timeline.index}
+                    onPointerDown={checkpoint} onChange={(e) => seekTimeline(Number(e.target.value))}
+                    className="flex-grow accent-green-500" aria-label="Timeline" />
+            </label>
+            <input value={targetText} onChange={(e) => setTargetText(e.target.value)}
+                onKeyDown={(e) => { if (e.key === "Enter") runToGeneration(); }}
+                inputMode="numeric" placeholder="GEN N"
+                className="w-24 bg-black border border-green-700 text-green-400 p-2 rounded focus:outline-none focus:border-green-400"
+                aria-label="Target generation" />
+            <button onClick={runToGeneration}
+                className={`px-3 py-2 rounded border ${targetGeneration !== null ? 'bg-green-600 border-green-600 text-black' : 'border-green-700 bg-black text-green-400'}`}>
+                {targetGeneration !== null ? `→ ${targetGeneration.toLocaleString("en-US")}` : "RUN TO"}
+            </button>
+        </div>
+        <div className="flex gap-2 w-full">
+            <select value={topology} onChange={(e) => handleTopologyChange(e.target.value as Topology)}
+                className="flex-grow bg-black border border-green-700 text-green-400 p-2 rounded text-sm focus:outline-none focus:border-green-400"
+                aria-label="Boundary topology">
+                {TOPOLOGIES.map(({ value, label }) => <option key={value} value={value}>{label}</option>)}
+            </select>
+            <select value={engine} onChange={(e) => handleEngineChange(e.target.value as SimulationEngine)}
+                className="flex-grow bg-black border border-green-700 text-green-400 p-2 rounded text-sm focus:outline-none focus:border-green-400"
+                aria-label="Simulation engine">
+                <option value="array">Array — every generation</option>
+                <option value="hashlife">HashLife — unbounded plane</option>
+            </select>
+            {engine === "hashlife" && (
+              <select value={stepExponent} onChange={(e) => setStepExponent(Number(e.target.value))}
+                  className="bg-black border border-green-700 text-green-400 p-2 rounded text-sm focus:outline-none focus:border-green-400"
+                  aria-label="Generations per step">
+                  {Array.from({ length: MAX_STEP_EXPONENT + 1 }, (_, k) => (
+                    <option key={k} value={k}>STEP 2^{k}{k > 0 ? ` (${(2 ** k).toLocaleString("en-US")})` : ""}</option>
+                  ))}
+              </select>
+            )}
         </div>
         <div className="flex gap-2 w-full">
             <select value={selectedPattern} onChange={(e) => { setSelectedPattern(e.target.value); setIsRunning(false); loadPattern(e.target.value); }}
                 className="flex-grow bg-black border border-green-700 text-green-400 p-3 rounded text-sm focus:outline-none focus:border-green-400">
                 {Object.keys(PATTERNS).map(name => <option key={name} value={name}>{name}</option>)}
             </select>
-            <button onClick={() => setIsRunning(!isRunning)} className={`w-24 font-bold rounded border transition-all ${isRunning ? 'bg-green-600 border-green-600 text-black' : 'bg-black border-green-600 text-green-400'}`}>
+            <select value={cellSize} onChange={(e) => handleCellSizeChange(Number(e.target.value))}
+                className="bg-black border border-green-700 text-green-400 p-3 rounded text-sm focus:outline-none focus:border-green-400"
+                aria-label="Cell size">
+                {CELL_SIZES.map(size => <option key={size} value={size}>{size}px</option>)}
+            </select>
+            <button onClick={togglePlay} className={`w-24 font-bold rounded border transition-all ${isRunning ? 'bg-green-600 border-green-600 text-black' : 'bg-black border-green-600 text-green-400'}`}>
                 {isRunning ? "STOP" : "PLAY"}
             </button>
         </div>
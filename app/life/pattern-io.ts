@@ -0,0 +1,211 @@
+// --- Pattern Import / Export ---
+// LifeWiki などで配布されている RLE (.rle) と plaintext (.cells) を読み書きする。
+// RLE は Generations の多状態表記 (. A B ... X, pA ...) にも対応する。
+
+export type PatternCell = { x: number; y: number; state: number };
+
+export type LifePattern = {
+  name: string | null;
+  width: number;
+  height: number;
+  cells: PatternCell[]; // 0 以外のセルのみ (左上が 0,0)
+  rule: string | null; // RLE のヘッダーにあれば
+};
+
+export class PatternError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PatternError";
+  }
+}
+
+const RLE_LINE_WIDTH = 70;
+const MAX_PATTERN_CELLS = 4_000_000; // 巨大な入力でタブを固めない
+
+// 実際に置かれたセルから幅・高さを決め直す (ヘッダーの x, y は信用しない)
+const createPattern = (cells: PatternCell[], name: string | null, rule: string | null): LifePattern => {
+  if (cells.length === 0) throw new PatternError("Pattern has no live cells.");
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  cells.forEach(({ x, y }) => {
+    if (x < minX) minX = x;
+    if (y < minY) minY = y;
+    if (x > maxX) maxX = x;
+    if (y > maxY) maxY = y;
+  });
+  return {
+    name,
+    rule,
+    width: maxX - minX + 1,
+    height: maxY - minY + 1,
+    cells: cells.map(({ x, y, state }) => ({ x: x - minX, y: y - minY, state }))
+  };
+};
+
+// --- RLE ---
+// 多状態: . = 0, A..X = 1..24, p..y + A..X = 25.. (Golly 準拠)。2状態: b = 0, それ以外の英字 = 1
+const decodeRleState = (prefix: string, letter: string) => {
+  if (letter === "b" || letter === ".") return 0;
+  if (letter >= "A" && letter <= "X") {
+    const base = prefix ? (prefix.charCodeAt(0) - "p".charCodeAt(0) + 1) * 24 : 0;
+    return base + letter.charCodeAt(0) - "A".charCodeAt(0) + 1;
+  }
+  return 1;
+};
+
+export const parseRle = (text: string): LifePattern => {
+  let name: string | null = null;
+  let rule: string | null = null;
+  const body: string[] = [];
+  let hasHeader = false;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    if (!line) return;
+    if (line.startsWith("#")) {
+      if (/^#N\s/.test(line)) name = line.slice(2).trim();
+      else if (/^#r\s/.test(line)) rule = line.slice(2).trim();
+      return;
+    }
+    if (!hasHeader && /^x\s*=/.test(line)) {
+      hasHeader = true;
+      const ruleMatch = line.match(/rule\s*=\s*([^,\s]+)/i);
+      if (ruleMatch) rule = ruleMatch[1];
+      return;
+    }
+    body.push(line);
+  });
+
+  // フォーラムやウィキから写した RLE は記号の間に空白を含むことがある (Golly と同じく読み飛ばす)
+  const source = body.join("").replace(/\s+/g, "");
+  const end = source.indexOf("!");
+  const data = end >= 0 ? source.slice(0, end) : source;
+
+  const cells: PatternCell[] = [];
+  let x = 0;
+  let y = 0;
+  const token = /(\d*)([p-y]?)([A-Za-z.$])/g;
+  let consumed = 0;
+  let match: RegExpExecArray | null;
+  while ((match = token.exec(data)) !== null) {
+    if (match.index !== consumed) throw new PatternError(`Unexpected "${data.slice(consumed, match.index)}" in RLE.`);
+    consumed = token.lastIndex;
+    const [, countText, prefix, letter] = match;
+    const count = countText ? Number(countText) : 1;
+
+    if (letter === "$") {
+      y += count;
+      x = 0;
+      continue;
+    }
+    const state = decodeRleState(prefix, letter);
+    if (state > 0) {
+      if (cells.length + count > MAX_PATTERN_CELLS) throw new PatternError("Pattern is too large.");
+      for (let i = 0; i < count; i++) cells.push({ x: x + i, y, state });
+    }
+    x += count;
+  }
+  if (consumed !== data.length) throw new PatternError(`Unexpected "${data.slice(consumed, consumed + 10)}" in RLE.`);
+
+  return createPattern(cells, name, rule);
+};
+
+const encodeRleState = (state: number, isMultiState: boolean) => {
+  if (!isMultiState) return state ? "o" : "b";
+  if (state === 0) return ".";
+  const prefix = Math.floor((state - 1) / 24);
+  const letter = String.fromCharCode("A".charCodeAt(0) + ((state - 1) % 24));
+  return prefix > 0 ? String.fromCharCode("p".charCodeAt(0) + prefix - 1) + letter : letter;
+};
+
+// getCell(x, y) で width x height の範囲を RLE にする。行末の空セルは省略し、空行はまとめる
+export const encodeRle = (
+  width: number,
+  height: number,
+  getCell: (x: number, y: number) => number,
+  { rule, name }: { rule?: string; name?: string } = {}
+) => {
+  let isMultiState = false;
+  for (let y = 0; y < height && !isMultiState; y++) {
+    for (let x = 0; x < width; x++) {
+      if (getCell(x, y) > 1) { isMultiState = true; break; }
+    }
+  }
+
+  const runs: string[] = [];
+  const pushRun = (count: number, tag: string) => runs.push(`${count > 1 ? count : ""}${tag}`);
+  let pendingRows = 0;
+
+  for (let y = 0; y < height; y++) {
+    let last = width - 1;
+    while (last >= 0 && getCell(last, y) === 0) last--;
+    if (last < 0) {
+      pendingRows++;
+      continue;
+    }
+    if (runs.length > 0) pushRun(pendingRows + 1, "$");
+    else if (pendingRows > 0) pushRun(pendingRows, "$");
+    pendingRows = 0;
+
+    let x = 0;
+    while (x <= last) {
+      const state = getCell(x, y);
+      let count = 1;
+      while (x + count <= last && getCell(x + count, y) === state) count++;
+      pushRun(count, encodeRleState(state, isMultiState));
+      x += count;
+    }
+  }
+  runs.push("!");
+
+  // 1行 70文字以内で折り返す (ランの途中では切らない)
+  const lines: string[] = [];
+  let line = "";
+  runs.forEach(run => {
+    if (line.length + run.length > RLE_LINE_WIDTH) {
+      lines.push(line);
+      line = "";
+    }
+    line += run;
+  });
+  lines.push(line);
+
+  const header = [
+    ...(name ? [`#N ${name}`] : []),
+    `x = ${width}, y = ${height}${rule ? `, rule = ${rule}` : ""}`
+  ];
+  return [...header, ...lines].join("\n") + "\n";
+};
+
+// --- Plaintext (.cells) ---
+// ! で始まる行はコメント (!Name: ...)。. が死、O (または *) が生
+export const parsePlaintext = (text: string): LifePattern => {
+  let name: string | null = null;
+  const cells: PatternCell[] = [];
+  let y = 0;
+
+  text.split(/\r?\n/).forEach(line => {
+    if (line.startsWith("!")) {
+      const nameMatch = line.match(/^!Name:\s*(.+)$/);
+      if (nameMatch) name = nameMatch[1].trim();
+      return;
+    }
+    for (let x = 0; x < line.length; x++) {
+      const ch = line[x];
+      if (ch === "O" || ch === "*") cells.push({ x, y, state: 1 });
+      else if (ch !== "." && ch !== " " && ch !== "\r") {
+        throw new PatternError(`Unexpected "${ch}" in plaintext pattern (line ${y + 1}).`);
+      }
+    }
+    y++;
+  });
+
+  return createPattern(cells, name, null);
+};
+
+// 形式を推測して読み込む: ヘッダー (x = ..) か RLE らしい記号があれば RLE、それ以外は plaintext
+export const parsePattern = (text: string): LifePattern => {
+  const trimmed = text.trim();
+  if (!trimmed) throw new PatternError("Pattern is empty.");
+  const isRle = /^x\s*=/m.test(trimmed) || /^#[NCcOPRr]/m.test(trimmed) || /[bo$!]/.test(trimmed.replace(/^!.*$/gm, ""));
+  return isRle ? parseRle(trimmed) : parsePlaintext(trimmed);
+};
@@ -0,0 +1,118 @@
+// --- Life-like / Generations Rules ---
+// ルール文字列 (B3/S23, 23/3, B2/S345/C4, 345/2/4 など) を解析して、セルの遷移を決める。
+// Generations ルールでは 0 = 死, 1 = 生, 2..states-1 = 消えかけ (隣接数には数えない)。
+
+export type LifeRule = {
+  birth: boolean[]; // 隣接数 0..8 で誕生するか
+  survival: boolean[]; // 隣接数 0..8 で生き残るか
+  states: number; // 2 なら通常の Life-like
+};
+
+export type RulePreset = {
+  name: string;
+  rule: string;
+};
+
+export class RuleError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RuleError";
+  }
+}
+
+export const MAX_STATES = 256;
+
+export const RULE_PRESETS: RulePreset[] = [
+  { name: "Conway's Life", rule: "B3/S23" },
+  { name: "HighLife", rule: "B36/S23" },
+  { name: "Day & Night", rule: "B3678/S34678" },
+  { name: "Seeds", rule: "B2/S" },
+  { name: "Life without Death", rule: "B3/S012345678" },
+  { name: "Maze", rule: "B3/S12345" },
+  { name: "Replicator", rule: "B1357/S1357" },
+  { name: "Diamoeba", rule: "B35678/S5678" },
+  { name: "2x2", rule: "B36/S125" },
+  { name: "Morley", rule: "B368/S245" },
+  { name: "Brian's Brain", rule: "B2/S/C3" },
+  { name: "Star Wars", rule: "B2/S345/C4" },
+  { name: "Frogs", rule: "B34/S12/C3" },
+  { name: "Bloomerang", rule: "B34678/S234/C24" }
+];
+
+export const DEFAULT_RULE = "B3/S23";
+
+const parseCounts = (digits: string, label: string) => {
+  const counts = new Array<boolean>(9).fill(false);
+  for (const ch of digits) {
+    const n = Number(ch);
+    if (!/^[0-8]$/.test(ch)) throw new RuleError(`${label} counts must be digits 0-8: "${digits}"`);
+    counts[n] = true;
+  }
+  return counts;
+};
+
+const parseStates = (digits: string) => {
+  const states = Number(digits);
+  if (!/^\d+$/.test(digits) || states < 2 || states > MAX_STATES) {
+    throw new RuleError(`State count must be 2-${MAX_STATES}: "${digits}"`);
+  }
+  return states;
+};
+
+// 接頭辞付き (B3/S23, B3S23, /S345/B2/C4 のように順不同) と、数字だけの S/B(/C) 表記を受け付ける
+export const parseRule = (text: string): LifeRule => {
+  const source = text.trim().replace(/\s+/g, "");
+  if (!source) throw new RuleError("Rule is empty.");
+
+  if (!/[BSCG]/i.test(source)) {
+    const parts = source.split("/");
+    if (parts.length > 3) throw new RuleError(`Too many parts in rule "${text}"`);
+    const [survival, birth = "", states] = parts;
+    return {
+      survival: parseCounts(survival, "Survival"),
+      birth: parseCounts(birth, "Birth"),
+      states: states === undefined ? 2 : parseStates(states)
+    };
+  }
+
+  const compact = source.replace(/\//g, "");
+  if (!/^([BSCG]\d*)+$/i.test(compact)) throw new RuleError(`Cannot parse rule "${text}"`);
+
+  let birth: boolean[] | null = null;
+  let survival: boolean[] | null = null;
+  let states = 2;
+  for (const [part, letter, digits] of compact.matchAll(/([BSCG])(\d*)/gi)) {
+    const prefix = letter.toUpperCase();
+    if (prefix === "B" && !birth) birth = parseCounts(digits, "Birth");
+    else if (prefix === "S" && !survival) survival = parseCounts(digits, "Survival");
+    else if ((prefix === "C" || prefix === "G") && states === 2) states = parseStates(digits);
+    else throw new RuleError(`Unexpected "${part}" in rule "${text}"`);
+  }
+  if (!birth) throw new RuleError(`Rule "${text}" has no B part.`);
+
+  return { birth, survival: survival || new Array<boolean>(9).fill(false), states };
+};
+
+const formatCounts = (counts: boolean[]) =>
+  counts.map((on, n) => (on ? String(n) : "")).join("");
+
+// 正規形: B3/S23, Generations は B2/S345/C4
+export const formatRule = (rule: LifeRule) => {
+  const base = `B${formatCounts(rule.birth)}/S${formatCounts(rule.survival)}`;
+  return rule.states > 2 ? `${base}/C${rule.states}` : base;
+};
+
+export const findPresetName = (rule: LifeRule) => {
+  const text = formatRule(rule);
+  return RULE_PRESETS.find(preset => formatRule(parseRule(preset.rule)) === text)?.name ?? null;
+};
+
+// 1セルの遷移。neighbors は「生 (state 1)」の隣接セル数
+export const nextCellState = (rule: LifeRule, state: number, neighbors: number) => {
+  if (state === 0) return rule.birth[neighbors] ? 1 : 0;
+  if (state === 1) {
+    if (rule.survival[neighbors]) return 1;
+    return rule.states > 2 ? 2 : 0;
+  }
+  return state + 1 < rule.states ? state + 1 : 0;
+};
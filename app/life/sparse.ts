@@ -0,0 +1,125 @@
+// --- Sparse Plane ---
+// 0 でないセルだけを Map に持つ無限平面。HashLife と違い Generations のルールも動く。
+// 空白から生まれる B0 は扱わない (無限に広がるため)。座標は ±2^25 まで (キーを1つの数値にまとめるため)
+
+import { Board, createRuleTable, getCell, setCell } from "./engine";
+import { LifeRule } from "./rules";
+
+const COORD_LIMIT = 2 ** 25;
+const SPAN = 2 ** 26;
+const NEIGHBOR_OFFSETS = [-SPAN - 1, -SPAN, -SPAN + 1, -1, 1, SPAN - 1, SPAN, SPAN + 1];
+
+const keyOf = (x: number, y: number) => (x + COORD_LIMIT) * SPAN + (y + COORD_LIMIT);
+const xOf = (key: number) => Math.floor(key / SPAN) - COORD_LIMIT;
+const yOf = (key: number) => (key % SPAN) - COORD_LIMIT;
+
+export class SparseUniverse {
+  rule: LifeRule;
+  generation = 0;
+  lastChanges = { births: 0, deaths: 0 }; // 直前の1世代での誕生・死亡数
+  private cells = new Map<number, number>();
+  private table: Uint8Array;
+
+  constructor(rule: LifeRule) {
+    this.rule = rule;
+    this.table = createRuleTable(rule);
+  }
+
+  get population() {
+    let count = 0;
+    this.cells.forEach(state => { if (state === 1) count++; });
+    return count;
+  }
+
+  // 消えかけのセルも含めた数
+  get size() {
+    return this.cells.size;
+  }
+
+  setRule(rule: LifeRule) {
+    this.cells.forEach((state, key) => { if (state >= rule.states) this.cells.delete(key); });
+    this.rule = rule;
+    this.table = createRuleTable(rule);
+  }
+
+  // 元に戻す用の写し
+  snapshot() {
+    return { cells: new Map(this.cells), generation: this.generation };
+  }
+
+  restore(snapshot: ReturnType<SparseUniverse["snapshot"]>) {
+    this.cells = new Map(snapshot.cells);
+    this.generation = snapshot.generation;
+  }
+
+  clear() {
+    this.cells.clear();
+  }
+
+  getCell(x: number, y: number) {
+    return this.cells.get(keyOf(x, y)) ?? 0;
+  }
+
+  setCell(x: number, y: number, state: number) {
+    if (Math.abs(x) >= COORD_LIMIT || Math.abs(y) >= COORD_LIMIT) return;
+    if (state) this.cells.set(keyOf(x, y), state);
+    else this.cells.delete(keyOf(x, y));
+  }
+
+  forEachCell(callback: (x: number, y: number, state: number) => void) {
+    this.cells.forEach((state, key) => callback(xOf(key), yOf(key), state));
+  }
+
+  loadBoard(board: Board, offsetX = 0, offsetY = 0) {
+    this.cells.clear();
+    for (let y = 0; y < board.height; y++) {
+      for (let x = 0; x < board.width; x++) {
+        const state = getCell(board, x, y);
+        if (state) this.setCell(x + offsetX, y + offsetY, state);
+      }
+    }
+  }
+
+  step(count = 1) {
+    for (let i = 0; i < count; i++) {
+      // 生きたセルから周りへ隣接数を配る
+      const counts = new Map<number, number>();
+      this.cells.forEach((state, key) => {
+        if (state !== 1) return;
+        for (const offset of NEIGHBOR_OFFSETS) counts.set(key + offset, (counts.get(key + offset) ?? 0) + 1);
+      });
+      const next = new Map<number, number>();
+      let births = 0, deaths = 0;
+      counts.forEach((n, key) => {
+        const current = this.cells.get(key) ?? 0;
+        const state = this.table[current * 9 + n];
+        if (state) next.set(key, state);
+        if (state === 1 && current !== 1) births++;
+        else if (current === 1 && state !== 1) deaths++;
+      });
+      // 隣接のないセル (孤立した生存と消えかけの進行)
+      this.cells.forEach((state, key) => {
+        if (counts.has(key)) return;
+        const nextState = this.table[state * 9];
+        if (nextState) next.set(key, nextState);
+        if (state === 1 && nextState !== 1) deaths++;
+      });
+      this.cells = next;
+      this.lastChanges = { births, deaths };
+      this.generation++;
+    }
+  }
+
+  // (x0, y0) を左上とする範囲を、1ピクセル = 2^scaleLevel セル四方で盤面に描き出す。生のセルを優先する
+  renderInto(board: Board, x0: number, y0: number, scaleLevel = 0) {
+    board.data.fill(0);
+    const scale = 2 ** scaleLevel;
+    this.cells.forEach((state, key) => {
+      const px = Math.floor((xOf(key) - x0) / scale);
+      const py = Math.floor((yOf(key) - y0) / scale);
+      if (px < 0 || py < 0 || px >= board.width || py >= board.height) return;
+      const current = getCell(board, px, py);
+      if (current === 0 || (state === 1 && current !== 1)) setCell(board, px, py, state);
+    });
+  }
+}
@@ -0,0 +1,214 @@
+// --- Simulation Worker Client ---
+// メインスレッド側の窓口。盤面の最新フレームを手元に持ち (編集・書き出し・描画用)、
+// 世代の計算は Worker に任せる。フレームのバッファは描画が済んだら Worker へ返して使い回す。
+// 有界なトポロジーではフレームは盤面全体、無限平面 (plane) では表示範囲 (setViewport) を写したものになる。
+
+import type { LifeStats } from "./analysis";
+import { Board, Topology, getCell, setCell } from "./engine";
+import { LifeRule } from "./rules";
+
+// array: トーラスの配列 (engine.ts), hashlife: 四分木による無限平面 (hashlife.ts)
+export type SimulationEngine = "array" | "hashlife";
+
+// 無限平面の表示範囲。(x, y) を左上に、1ピクセル = 2^scaleLevel セル四方で width x height ピクセル
+export type PlaneViewport = { x: number; y: number; width: number; height: number; scaleLevel: number };
+
+export type WorkerRequest =
+  | { type: "load"; board: Board; rule: LifeRule; topology: Topology; generation: number }
+  | { type: "engine"; engine: SimulationEngine }
+  | { type: "topology"; topology: Topology }
+  | { type: "viewport"; viewport: PlaneViewport }
+  | { type: "analysis"; enabled: boolean } // 有効な間はフレームに統計を付ける
+  | { type: "checkpoint" } // 今の状態を履歴に積む (編集や計算の前に)
+  | { type: "undo" }
+  | { type: "redo" }
+  | { type: "clear" }
+  | { type: "rule"; rule: LifeRule }
+  | { type: "step"; count: number }
+  | { type: "forward" } // タイムラインの次へ (なければ1世代計算する)
+  | { type: "back" }
+  | { type: "seek"; index: number }
+  | { type: "edit"; edits: number[] } // [x, y, state, x, y, state, ...]
+  | { type: "recycle"; buffer: ArrayBuffer };
+
+export type LifeFrame = {
+  board: Board;
+  generation: number;
+  population: number;
+  engine: SimulationEngine;
+  topology: Topology;
+  origin: { x: number; y: number; scale: number }; // board の左上のセル座標と、1ピクセルあたりのセル数 (1辺)
+  history: { undo: number; redo: number }; // 戻せる・やり直せる回数
+  timeline: { index: number; length: number }; // 世代の記録 (リングバッファ) の中での今の位置
+  stats: LifeStats | null; // 解析が無効なら null
+};
+
+const BOARD_ORIGIN = { x: 0, y: 0, scale: 1 };
+const NO_HISTORY = { undo: 0, redo: 0 };
+const NEW_TIMELINE = { index: 0, length: 1 };
+
+// フレームからセルを読む (平面上の座標)。フレームの外や縮小表示は 0
+export const frameCell = (frame: LifeFrame, x: number, y: number) => {
+  const { board, origin } = frame;
+  const fx = x - origin.x;
+  const fy = y - origin.y;
+  if (origin.scale !== 1 || fx < 0 || fy < 0 || fx >= board.width || fy >= board.height) return 0;
+  return getCell(board, fx, fy);
+};
+
+// error はフレームの代わりではなく、その前に届く知らせ (例: HashLife で動かせないルールで array に戻した)
+// history: checkpoint の返事。盤面は返さず、上限で捨てた後の回数だけを知らせる
+export type WorkerResponse =
+  | ({ type: "frame" } & LifeFrame)
+  | { type: "history"; history: LifeFrame["history"] }
+  | { type: "error"; message: string };
+
+export class LifeWorkerClient {
+  frame: LifeFrame | null = null;
+  private worker: Worker;
+  private pending = 0; // 返事 (フレーム) を待っている要求の数
+  private onFrame: (frame: LifeFrame) => void;
+  private onError: (message: string) => void;
+  private onHistory: (history: LifeFrame["history"]) => void;
+
+  constructor(
+    onFrame: (frame: LifeFrame) => void,
+    onError: (message: string) => void = () => {},
+    onHistory: (history: LifeFrame["history"]) => void = () => {}
+  ) {
+    this.onFrame = onFrame;
+    this.onError = onError;
+    this.onHistory = onHistory;
+    this.worker = new Worker(new URL("./life.worker.ts", import.meta.url));
+    this.worker.onmessage = (e: MessageEvent<WorkerResponse>) => this.receive(e.data);
+  }
+
+  // 前のフレームが届く前に次の計算を積まない (描画より速く回して溜め込まない)
+  get isBusy() {
+    return this.pending > 0;
+  }
+
+  private post(request: WorkerRequest, transfer: Transferable[] = []) {
+    this.worker.postMessage(request, transfer);
+  }
+
+  private receive(response: WorkerResponse) {
+    if (response.type === "error") {
+      this.onError(response.message);
+      return;
+    }
+    if (response.type === "history") {
+      if (this.frame) this.frame.history = response.history;
+      this.onHistory(response.history);
+      return;
+    }
+    this.pending = Math.max(0, this.pending - 1);
+    const previous = this.frame;
+    const { board, generation, population, engine, topology, origin, history, timeline, stats } = response;
+    this.frame = { board, generation, population, engine, topology, origin, history, timeline, stats };
+    if (previous && previous.board.data.buffer.byteLength > 0) {
+      const { buffer } = previous.board.data;
+      this.post({ type: "recycle", buffer: buffer as ArrayBuffer }, [buffer as ArrayBuffer]);
+    }
+    this.onFrame(this.frame);
+  }
+
+  // 盤面を丸ごと差し替える。手元の盤面はコピーを渡すので引き続き使える
+  // 無限平面では盤面の左上を原点に置く
+  load(board: Board, rule: LifeRule, topology: Topology, generation = 0) {
+    this.pending++;
+    this.frame = {
+      board, generation, population: 0, engine: this.frame?.engine ?? "array", topology, origin: BOARD_ORIGIN, history: NO_HISTORY,
+      timeline: NEW_TIMELINE, stats: null
+    };
+    this.post({ type: "load", board: { ...board, data: board.data.slice() }, rule, topology, generation });
+  }
+
+  setRule(rule: LifeRule) {
+    this.pending++;
+    this.post({ type: "rule", rule });
+  }
+
+  // 盤面は保ったまま計算方法を切り替える。HashLife は無限平面でだけ動くので、選ぶとトポロジーも plane になる
+  setEngine(engine: SimulationEngine) {
+    this.pending++;
+    this.post({ type: "engine", engine });
+  }
+
+  // 有界な盤面と無限平面の間の切り替えでは、盤面の範囲 (0, 0)-(幅, 高さ) を受け渡す
+  setTopology(topology: Topology) {
+    this.pending++;
+    this.post({ type: "topology", topology });
+  }
+
+  setViewport(viewport: PlaneViewport) {
+    this.pending++;
+    this.post({ type: "viewport", viewport });
+  }
+
+  setAnalysis(enabled: boolean) {
+    this.pending++;
+    this.post({ type: "analysis", enabled });
+  }
+
+  // ひとまとまりの編集 (ストローク・貼り付けなど) や計算の前に呼ぶ。
+  // 返事のフレームは来ないので、手元の回数を先に進めておく (上限で捨てた分は返事の history で直る)
+  checkpoint() {
+    if (this.frame) this.frame.history = { undo: this.frame.history.undo + 1, redo: 0 };
+    this.post({ type: "checkpoint" });
+  }
+
+  undo() {
+    this.pending++;
+    this.post({ type: "undo" });
+  }
+
+  redo() {
+    this.pending++;
+    this.post({ type: "redo" });
+  }
+
+  clear() {
+    this.pending++;
+    this.post({ type: "clear" });
+  }
+
+  step(count = 1) {
+    this.pending++;
+    this.post({ type: "step", count });
+  }
+
+  stepForward() {
+    this.pending++;
+    this.post({ type: "forward" });
+  }
+
+  stepBack() {
+    this.pending++;
+    this.post({ type: "back" });
+  }
+
+  seek(index: number) {
+    this.pending++;
+    this.post({ type: "seek", index });
+  }
+
+  // 座標は平面上のもの。手元のフレームにもすぐ反映して、次のフレームを待たずに描けるようにする
+  edit(edits: number[]) {
+    if (edits.length === 0) return;
+    const frame = this.frame;
+    if (frame && frame.origin.scale === 1) {
+      const { board, origin } = frame;
+      for (let i = 0; i < edits.length; i += 3) {
+        const x = edits[i] - origin.x;
+        const y = edits[i + 1] - origin.y;
+        if (x >= 0 && y >= 0 && x < board.width && y < board.height) setCell(board, x, y, edits[i + 2]);
+      }
+    }
+    this.post({ type: "edit", edits });
+  }
+
+  dispose() {
+    this.worker.terminate();
+  }
+}
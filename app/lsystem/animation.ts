@@ -0,0 +1,172 @@
+// --- Animation ---
+// 成長の再生 (亀の順に線を描き足す)・世代の間のモーフィング・風の揺れ。
+// どれも時刻だけで姿が決まるので、画面での再生とコマの書き出しで同じ絵になる
+
+import { zipFiles } from "./export";
+import { Derivation, Grammar, Module } from "./grammar";
+import { BACKGROUND, Style, View, createPainter, createProjector } from "./render";
+import { Turtle, TurtleGeometry } from "./turtle";
+
+// off: 止めておく, grow: 亀の順に描き足す, morph: 0世代目から1世代ずつ新しい枝を伸ばす
+export type Playback = "off" | "grow" | "morph";
+
+// duration: 1回の成長 (morph では1世代) の秒数, wind: 揺れの振れ幅 (度), windSpeed: 1秒あたりの揺れの回数
+export type AnimationSettings = { playback: Playback; duration: number; wind: number; windSpeed: number };
+
+// 展開した記号列をそのまま取っておき、毎フレーム伸び具合や揺れを変えて亀に読ませ直す。
+// isOverBudget: ANIMATION_BUDGET で打ち切った (止まった絵より枝が少ない)
+export type ModuleStream = { modules: Module[]; isNew: boolean[]; isOverBudget: boolean };
+
+// 1コマを描くのに要るもの
+export type Scene = {
+  streams: Map<number, ModuleStream>; // 世代 -> 記号列
+  generation: number;
+  settings: AnimationSettings;
+  angle: number;
+  length: number;
+  lengthDecay: number;
+  style: Style;
+  view: View;
+};
+
+export const DEFAULT_ANIMATION: AnimationSettings = { playback: "off", duration: 6, wind: 0, windSpeed: 0.5 };
+export const FRAME_RATE = 30; // 書き出すコマの数 (1秒あたり)。長い一巡りではこれより減らす
+// 再生では毎フレーム亀を読み直すので、止まった絵の予算とは別に線分をこれまでに抑える (2万本で亀がおよそ 15ms)
+export const ANIMATION_BUDGET = 20_000;
+const MAX_FRAMES = 360; // 書き出すコマの上限 (PNG をメモリに溜めるので)
+const HOLD = 0.5; // 育ちきった姿を duration の何倍だけ見せてから繰り返すか
+const WIND_LAG = 0.7; // 枝が1段深くなるごとの揺れの遅れ (ラジアン)。先ほど遅れてしなる
+
+export const isAnimated = (settings: AnimationSettings) => settings.playback !== "off" || settings.wind > 0;
+
+// 再生に要る世代。モーフィングでは k 世代目から k+1 世代目へ伸ばすのに k+1 世代目の列を使う。
+// 確率的なルールでも k+1 世代目は k 世代目を書き換えた列なので (Derivation の鍵つき乱数)、
+// 新しい記号の伸びが 0 の姿は k 世代目と同じになり、世代の継ぎ目で別の植物に跳ばない
+export const streamGenerations = (settings: AnimationSettings, generation: number) =>
+  settings.playback === "morph" && generation > 0
+    ? Array.from({ length: generation }, (_, i) => i + 1)
+    : [generation];
+
+// 一巡りの秒数。成長しないときは揺れ1回分
+export const cycleLength = (settings: AnimationSettings, generation: number) => {
+  if (settings.playback === "grow") return settings.duration * (1 + HOLD);
+  if (settings.playback === "morph") return settings.duration * (generation + HOLD);
+  return settings.windSpeed > 0 ? 1 / settings.windSpeed : 0;
+};
+
+// --- 記号列の記録 ---
+// 予算 (線分・触れる記号の数) の範囲で、run を呼ぶたびに少しずつ記録する
+export class StreamRecorder {
+  stream: ModuleStream = { modules: [], isNew: [], isOverBudget: false };
+  private derivation: Derivation;
+  private segments = 0;
+  private maxSegments: number;
+  private maxVisited: number;
+
+  constructor(
+    axiom: Module[], grammar: Grammar, generations: number, seed: number, maxSegments: number, maxVisited: number
+  ) {
+    this.derivation = new Derivation(axiom, grammar, generations, seed);
+    this.maxSegments = maxSegments;
+    this.maxVisited = maxVisited;
+  }
+
+  get isDone() {
+    return this.derivation.isDone || this.stream.isOverBudget;
+  }
+
+  get progress() {
+    return this.derivation.progress;
+  }
+
+  run(work: number) {
+    const { stream } = this;
+    this.derivation.run(work, (module, isNew) => {
+      if (stream.isOverBudget) return;
+      if (module.symbol === "F" || module.symbol === "G") {
+        if (this.segments >= this.maxSegments) {
+          stream.isOverBudget = true;
+          return;
+        }
+        this.segments++;
+      }
+      stream.modules.push(module);
+      stream.isNew.push(isNew);
+    });
+    if (this.derivation.visited >= this.maxVisited) stream.isOverBudget = true;
+  }
+}
+
+// --- 1コマ ---
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+// 時刻 time の姿: どの世代の列を、新しい記号をどれだけ伸ばし (growth)、線分の何割まで描くか (reveal)
+const poseAt = ({ settings, generation }: Scene, time: number) => {
+  const cycle = cycleLength(settings, generation);
+  const local = cycle > 0 ? time % cycle : 0;
+  if (settings.playback === "grow") return { generation, growth: 1, reveal: Math.min(1, local / settings.duration) };
+  if (settings.playback === "morph") {
+    const step = local / settings.duration;
+    const k = Math.floor(step);
+    if (k < generation) return { generation: k + 1, growth: ease(step - k), reveal: 1 };
+  }
+  return { generation, growth: 1, reveal: 1 };
+};
+
+// 揺れは一巡りにちょうど整数回入る速さにそろえ、繰り返しの継ぎ目で跳ばないようにする
+const swayAt = ({ settings, generation }: Scene, time: number) => {
+  if (settings.wind <= 0 || settings.windSpeed <= 0) return null;
+  const cycle = cycleLength(settings, generation);
+  const speed = Math.max(1, Math.round(settings.windSpeed * cycle)) / cycle;
+  return (depth: number) => settings.wind * Math.sin(2 * Math.PI * speed * time - depth * WIND_LAG);
+};
+
+// 伸びきって揺れてもいない姿 (grow の再生・育ちきった後の間) は毎フレーム同じなので、亀を読み直さず使い回す
+const settledGeometry = new WeakMap<ModuleStream, { key: string; geometry: TurtleGeometry }>();
+
+const geometryAt = (stream: ModuleStream, scene: Scene, growth: number, sway: Turtle["sway"]) => {
+  const isSettled = growth === 1 && !sway;
+  const key = `${scene.angle},${scene.length},${scene.lengthDecay}`;
+  const cached = isSettled ? settledGeometry.get(stream) : undefined;
+  if (cached && cached.key === key) return cached.geometry;
+  const turtle = new Turtle(scene.angle, scene.length, scene.lengthDecay);
+  turtle.sway = sway;
+  stream.modules.forEach((module, i) => turtle.feed(module, stream.isNew[i] ? growth : 1));
+  if (isSettled) settledGeometry.set(stream, { key, geometry: turtle.geometry });
+  return turtle.geometry;
+};
+
+export const paintFrame = (ctx: CanvasRenderingContext2D, width: number, height: number, scene: Scene, time: number) => {
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, width, height);
+  const pose = poseAt(scene, time);
+  const stream = scene.streams.get(pose.generation);
+  if (!stream) return;
+  const geometry = geometryAt(stream, scene, pose.growth, swayAt(scene, time));
+  const projector = createProjector(geometry, scene.view, width, height);
+  createPainter(ctx, geometry, projector, scene.style)(Infinity, Math.floor(geometry.count * pose.reveal));
+};
+
+// 一巡りをコマに分けて PNG にし、ZIP にまとめる。onProgress で書き終えたコマの数を知らせる。
+// 一巡りが MAX_FRAMES に収まらないほど長いときは、途中で切らずに1秒あたりのコマを減らす (返す fps)
+export const recordFrames = async (
+  scene: Scene, width: number, height: number, onProgress: (done: number, total: number) => void
+) => {
+  const cycle = cycleLength(scene.settings, scene.generation);
+  const fps = cycle > 0 ? Math.min(FRAME_RATE, MAX_FRAMES / cycle) : FRAME_RATE;
+  const total = Math.min(MAX_FRAMES, Math.max(1, Math.round(cycle * fps)));
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return null;
+  const files: { name: string; data: Uint8Array<ArrayBuffer> }[] = [];
+  for (let frame = 0; frame < total; frame++) {
+    paintFrame(ctx, width, height, scene, frame / fps);
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+    if (!blob) return null;
+    files.push({ name: `frame-${String(frame).padStart(4, "0")}.png`, data: new Uint8Array(await blob.arrayBuffer()) });
+    onProgress(frame + 1, total);
+  }
+  return { zip: zipFiles(files), fps };
+};
@@ -0,0 +1,315 @@
+// --- Export ---
+// 画面と同じ写し方 (render.ts) で作った折れ線を、SVG・PNG・プロッタ用 (G-code / HPGL) に書き出す。
+// 書き出しの前に、一直線に並んだ点を省き、端が触れ合う線をつなぎ、ペンを上げて動く距離が短くなる順に並べ替える
+
+import { BACKGROUND, Projector, Style, createPainter } from "./render";
+import { TurtleGeometry } from "./turtle";
+
+export type Polyline = number[]; // [x0, y0, x1, y1, ...]
+
+// 書き出す範囲 (画面座標)
+export type Frame = { x: number; y: number; width: number; height: number };
+
+const JOIN_EPSILON = 1e-3; // これより近い端はつながっているとみなす
+const FIGURE_MARGIN = 0.02; // 図全体を書き出すときの余白 (大きい辺に対する比)
+
+// プロッタの設定 (mm)
+const PEN_UP_Z = 5;
+const DRAW_FEED = 3000; // mm/min
+const PEN_FEED = 1000;
+const HPGL_UNITS_PER_MM = 40;
+
+// --- 範囲 ---
+export const boundsOf = (polylines: Polyline[]): Frame | null => {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity;
+  for (const line of polylines) {
+    for (let i = 0; i < line.length; i += 2) {
+      if (line[i] < minX) minX = line[i];
+      if (line[i] > maxX) maxX = line[i];
+      if (line[i + 1] < minY) minY = line[i + 1];
+      if (line[i + 1] > maxY) maxY = line[i + 1];
+    }
+  }
+  return minX === Infinity ? null : { x: minX, y: minY, width: maxX - minX, height: maxY - minY };
+};
+
+// 図全体を少し余白をつけて囲む
+export const figureFrame = (polylines: Polyline[]): Frame | null => {
+  const bounds = boundsOf(polylines);
+  if (!bounds) return null;
+  const margin = Math.max(bounds.width, bounds.height, 1) * FIGURE_MARGIN;
+  return {
+    x: bounds.x - margin, y: bounds.y - margin, width: bounds.width + margin * 2, height: bounds.height + margin * 2
+  };
+};
+
+// 範囲の外に出る部分を切り落とす (Liang-Barsky)。はみ出したところで折れ線は分かれる
+export const clipPolylines = (polylines: Polyline[], frame: Frame) => {
+  const right = frame.x + frame.width;
+  const bottom = frame.y + frame.height;
+  const result: Polyline[] = [];
+  for (const line of polylines) {
+    let current: Polyline | null = null;
+    for (let i = 2; i < line.length; i += 2) {
+      const x0 = line[i - 2], y0 = line[i - 1], x1 = line[i], y1 = line[i + 1];
+      const dx = x1 - x0, dy = y1 - y0;
+      let t0 = 0, t1 = 1;
+      const edges = [[-dx, x0 - frame.x], [dx, right - x0], [-dy, y0 - frame.y], [dy, bottom - y0]];
+      let isVisible = true;
+      for (const [p, q] of edges) {
+        if (p === 0) {
+          if (q < 0) isVisible = false;
+          continue;
+        }
+        const t = q / p;
+        if (p < 0) t0 = Math.max(t0, t);
+        else t1 = Math.min(t1, t);
+      }
+      if (!isVisible || t0 > t1) {
+        current = null;
+        continue;
+      }
+      if (!current || t0 > 0) {
+        current = [x0 + dx * t0, y0 + dy * t0];
+        result.push(current);
+      }
+      current.push(x0 + dx * t1, y0 + dy * t1);
+      if (t1 < 1) current = null;
+    }
+  }
+  return result;
+};
+
+// --- 経路の最適化 ---
+// 同じ向きに続く点を省く
+const simplify = (line: Polyline) => {
+  if (line.length <= 4) return line;
+  const result = [line[0], line[1]];
+  for (let i = 2; i < line.length - 2; i += 2) {
+    const ax = result[result.length - 2], ay = result[result.length - 1];
+    const bx = line[i], by = line[i + 1];
+    const cx = line[i + 2], cy = line[i + 3];
+    const cross = (bx - ax) * (cy - by) - (by - ay) * (cx - bx);
+    const dot = (bx - ax) * (cx - bx) + (by - ay) * (cy - by);
+    const scale = Math.hypot(bx - ax, by - ay) * Math.hypot(cx - bx, cy - by);
+    if (dot > 0 && Math.abs(cross) <= scale * 1e-9) continue;
+    result.push(bx, by);
+  }
+  result.push(line[line.length - 2], line[line.length - 1]);
+  return result;
+};
+
+// 今のペン先から一番近い端を持つ線を次に描く (逆向きに描いてもよい)。
+// 端が触れ合えばペンを上げずにつなぐ。端は格子に分けて入れておき、近くの升から探す
+export const optimizePaths = (polylines: Polyline[]) => {
+  const lines = polylines.filter(line => line.length >= 4).map(simplify);
+  const bounds = boundsOf(lines);
+  if (!bounds) return { paths: [] as Polyline[], travel: 0 };
+
+  const columns = Math.max(1, Math.ceil(Math.sqrt(lines.length)));
+  const cellSize = Math.max(bounds.width, bounds.height, 1e-6) / columns;
+  const cellOf = (v: number, origin: number) => Math.min(columns - 1, Math.floor((v - origin) / cellSize));
+  const grid: number[][] = Array.from({ length: columns * columns }, () => []);
+  // 端の番号: 線の番号 * 2 (+1 なら終点)
+  lines.forEach((line, index) => {
+    const n = line.length;
+    grid[cellOf(line[1], bounds.y) * columns + cellOf(line[0], bounds.x)].push(index * 2);
+    grid[cellOf(line[n - 1], bounds.y) * columns + cellOf(line[n - 2], bounds.x)].push(index * 2 + 1);
+  });
+  const isUsed = new Uint8Array(lines.length);
+  const endpoint = (id: number) => {
+    const line = lines[id >> 1];
+    return id & 1 ? [line[line.length - 2], line[line.length - 1]] : [line[0], line[1]];
+  };
+
+  const paths: Polyline[] = [];
+  let travel = 0;
+  let penX = bounds.x, penY = bounds.y;
+  for (let placed = 0; placed < lines.length; placed++) {
+    const column = cellOf(penX, bounds.x), row = cellOf(penY, bounds.y);
+    let best = -1, bestDistance = Infinity;
+    // 見つかった距離より外の輪に出たら打ち切る
+    for (let ring = 0; ring < columns; ring++) {
+      if (best >= 0 && (ring - 1) * cellSize > bestDistance) break;
+      for (let r = row - ring; r <= row + ring; r++) {
+        if (r < 0 || r >= columns) continue;
+        const isEdgeRow = r === row - ring || r === row + ring;
+        for (let c = column - ring; c <= column + ring; c += isEdgeRow ? 1 : ring * 2 || 1) {
+          if (c < 0 || c >= columns) continue;
+          const cell = grid[r * columns + c];
+          for (let j = cell.length - 1; j >= 0; j--) {
+            const id = cell[j];
+            if (isUsed[id >> 1]) {
+              cell.splice(j, 1);
+              continue;
+            }
+            const [x, y] = endpoint(id);
+            const distance = Math.hypot(x - penX, y - penY);
+            if (distance < bestDistance) {
+              best = id;
+              bestDistance = distance;
+            }
+          }
+        }
+      }
+    }
+    isUsed[best >> 1] = 1;
+    let line = lines[best >> 1];
+    if (best & 1) {
+      const reversed: Polyline = [];
+      for (let i = line.length - 2; i >= 0; i -= 2) reversed.push(line[i], line[i + 1]);
+      line = reversed;
+    }
+    if (paths.length > 0 && bestDistance <= JOIN_EPSILON) {
+      const last = paths[paths.length - 1];
+      for (let i = 2; i < line.length; i++) last.push(line[i]);
+    } else {
+      paths.push(line === lines[best >> 1] ? line.slice() : line); // あとでつなぎ足すので元の線は書き換えない
+      travel += bestDistance;
+    }
+    penX = line[line.length - 2];
+    penY = line[line.length - 1];
+  }
+  return { paths, travel };
+};
+
+// --- 書き出し ---
+const round = (v: number) => Math.round(v * 100) / 100;
+
+export const toSvg = (paths: Polyline[], frame: Frame) => {
+  const lines = paths.map(path => {
+    const points: string[] = [];
+    for (let i = 0; i < path.length; i += 2) points.push(`${round(path[i] - frame.x)},${round(path[i + 1] - frame.y)}`);
+    return `    <polyline points="${points.join(" ")}"/>`;
+  });
+  const width = round(frame.width);
+  const height = round(frame.height);
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">`,
+    `  <g fill="none" stroke="#000" stroke-width="1" stroke-linecap="round" stroke-linejoin="round">`,
+    ...lines,
+    "  </g>",
+    "</svg>",
+    ""
+  ].join("\n");
+};
+
+// 画面と同じ見た目 (加算合成の光る線と面) で、範囲を pixelScale 倍の解像度で描く
+export const renderPng = (
+  geometry: TurtleGeometry, projector: Projector, style: Style, frame: Frame, pixelScale: number
+) => {
+  const canvas = document.createElement("canvas");
+  canvas.width = Math.max(1, Math.round(frame.width * pixelScale));
+  canvas.height = Math.max(1, Math.round(frame.height * pixelScale));
+  const ctx = canvas.getContext("2d");
+  if (!ctx) return Promise.resolve(null);
+  ctx.fillStyle = BACKGROUND;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  const toPixels: Projector = (source, offset, out) => {
+    const isVisible = projector(source, offset, out);
+    out[0] = (out[0] - frame.x) * pixelScale;
+    out[1] = (out[1] - frame.y) * pixelScale;
+    return isVisible;
+  };
+  createPainter(ctx, geometry, toPixels, style, pixelScale)(Infinity);
+  return new Promise<Blob | null>(resolve => canvas.toBlob(resolve, "image/png"));
+};
+
+// プロッタは y が上向きで mm 単位。範囲の幅を plotWidth mm に合わせ、左下を原点にする
+const toPlotter = (frame: Frame, plotWidth: number) => {
+  const mmPerUnit = plotWidth / Math.max(frame.width, 1e-6);
+  return (x: number, y: number) => [(x - frame.x) * mmPerUnit, (frame.y + frame.height - y) * mmPerUnit];
+};
+
+export const toGcode = (paths: Polyline[], frame: Frame, plotWidth: number) => {
+  const map = toPlotter(frame, plotWidth);
+  const fmt = (v: number) => v.toFixed(3);
+  const lines = ["G21 ; mm", "G90 ; absolute", `G0 Z${PEN_UP_Z}`];
+  for (const path of paths) {
+    const [sx, sy] = map(path[0], path[1]);
+    lines.push(`G0 X${fmt(sx)} Y${fmt(sy)}`, `G1 Z0 F${PEN_FEED}`);
+    for (let i = 2; i < path.length; i += 2) {
+      const [x, y] = map(path[i], path[i + 1]);
+      lines.push(`G1 X${fmt(x)} Y${fmt(y)}${i === 2 ? ` F${DRAW_FEED}` : ""}`);
+    }
+    lines.push(`G0 Z${PEN_UP_Z}`);
+  }
+  lines.push("G0 X0 Y0", "M2", "");
+  return lines.join("\n");
+};
+
+export const toHpgl = (paths: Polyline[], frame: Frame, plotWidth: number) => {
+  const map = toPlotter(frame, plotWidth);
+  const unit = (x: number, y: number) => map(x, y).map(v => Math.round(v * HPGL_UNITS_PER_MM)).join(",");
+  const commands = ["IN", "SP1"];
+  for (const path of paths) {
+    commands.push(`PU${unit(path[0], path[1])}`);
+    const points: string[] = [];
+    for (let i = 2; i < path.length; i += 2) points.push(unit(path[i], path[i + 1]));
+    commands.push(`PD${points.join(",")}`);
+  }
+  commands.push("PU0,0", "SP0");
+  return commands.join(";\n") + ";\n";
+};
+
+// --- ZIP ---
+// コマの連番 PNG を1つのファイルにまとめる。PNG はもう圧縮されているので、無圧縮 (store) で入れる
+const CRC_TABLE = Uint32Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const DOS_DATE = (0 << 9) | (1 << 5) | 1; // 1980-01-01 (日付は入れない)
+
+export const zipFiles = (files: { name: string; data: Uint8Array<ArrayBuffer> }[]) => {
+  const parts: Uint8Array<ArrayBuffer>[] = [];
+  const directory: Uint8Array<ArrayBuffer>[] = [];
+  let offset = 0;
+  const header = (signature: number, size: number) => {
+    const bytes = new Uint8Array(size);
+    const view = new DataView(bytes.buffer);
+    view.setUint32(0, signature, true);
+    return { bytes, view };
+  };
+  for (const { name, data } of files) {
+    const nameBytes = new TextEncoder().encode(name);
+    const crc = crc32(data);
+    // ローカルヘッダ (30 バイト + 名前)
+    const local = header(0x04034b50, 30 + nameBytes.length);
+    local.view.setUint16(4, 20, true); // 展開に要るバージョン
+    local.view.setUint16(12, DOS_DATE, true);
+    local.view.setUint32(14, crc, true);
+    local.view.setUint32(18, data.length, true);
+    local.view.setUint32(22, data.length, true);
+    local.view.setUint16(26, nameBytes.length, true);
+    local.bytes.set(nameBytes, 30);
+    // 中央ディレクトリ (46 バイト + 名前)
+    const central = header(0x02014b50, 46 + nameBytes.length);
+    central.view.setUint16(4, 20, true);
+    central.view.setUint16(6, 20, true);
+    central.view.setUint16(14, DOS_DATE, true);
+    central.view.setUint32(16, crc, true);
+    central.view.setUint32(20, data.length, true);
+    central.view.setUint32(24, data.length, true);
+    central.view.setUint16(28, nameBytes.length, true);
+    central.view.setUint32(42, offset, true);
+    central.bytes.set(nameBytes, 46);
+    parts.push(local.bytes, data);
+    directory.push(central.bytes);
+    offset += local.bytes.length + data.length;
+  }
+  const size = directory.reduce((sum, bytes) => sum + bytes.length, 0);
+  const end = header(0x06054b50, 22);
+  end.view.setUint16(8, files.length, true);
+  end.view.setUint16(10, files.length, true);
+  end.view.setUint32(12, size, true);
+  end.view.setUint32(16, offset, true);
+  return new Blob([...parts, ...directory, end.bytes], { type: "application/zip" });
+};
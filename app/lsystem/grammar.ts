@@ -0,0 +1,586 @@
+// --- L-system Grammar ---
+// ルールの書き方 (1行に1つ):
+//   F=F[+F]F                          決定的
+//   F=(0.6)F[+F]F | (0.4)F[-F]         確率的 (重みは合計で割る)
+//   A(l):l>2=F(l)[+A(l*0.7)]           パラメトリック (":" の後は条件)
+//   A<B>C=D                            文脈依存 (左 < 自分 > 右。"*" は何でもよい)
+//   #ignore +-F                        文脈を探すときに飛ばす記号
+//   # メモ                             コメント ("#" の後に空白。"#=##" は # を書き換えるルール)
+// 乱数は種と「どの記号を書き換えるか」から作るので、同じ種なら同じ植物が育ち、
+// 世代を1つ進めても前の世代の植物をそのまま書き換えた姿になる。
+// 展開は Derivation で少しずつ進め、列全体は作らない (文脈依存のルールがあるときだけ世代ごとの列を作る)
+
+export type Module = { symbol: string; params: number[] };
+
+type Env = Record<string, number>;
+type Expr = (env: Env) => number;
+
+type ModuleTemplate = { symbol: string; args: Expr[] };
+type ModulePattern = { symbol: string; formals: string[] };
+type Successor = { weight: number; modules: ModuleTemplate[] };
+
+export type Production = {
+  predecessor: ModulePattern;
+  left: ModulePattern[];
+  right: ModulePattern[];
+  condition: Expr | null;
+  successors: Successor[];
+};
+
+export type Grammar = {
+  productions: Map<string, Production[]>; // 先に書いたルールが優先
+  ignore: Set<string>;
+};
+
+export class GrammarError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GrammarError";
+  }
+}
+
+// --- 乱数 (mulberry32) ---
+export const createRng = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// 記号の鍵: 親の鍵と、親を書き換えた右辺の何番目か から作る (murmur3 の fmix)。
+// 世代が進むごとに鍵をつなぐので、導出木のどの節かが決まり、たどる順や最後の世代によらない
+const childKey = (key: number, index: number) => {
+  let h = (Math.imul(key, 0x9e3779b1) + index) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+};
+
+// --- 式 ---
+// 四則演算・累乗 (^)・比較・論理 (&& || !)・いくつかの関数。真偽は 1 / 0
+const FUNCTIONS: Record<string, (...args: number[]) => number> = {
+  sqrt: Math.sqrt, sin: Math.sin, cos: Math.cos, tan: Math.tan, abs: Math.abs,
+  min: Math.min, max: Math.max, floor: Math.floor, exp: Math.exp, log: Math.log
+};
+
+const tokenize = (source: string) => (
+  source.match(/\d+\.?\d*(?:e[+-]?\d+)?|\.\d+|[A-Za-z_]\w*|&&|\|\||[<>=!]=|[-+*/^()<>!,]|\S/g) ?? []
+);
+
+export const compileExpression = (source: string, formals: string[] = []): Expr => {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const expect = (token: string) => {
+    if (tokens[pos] !== token) throw new GrammarError(`Expected "${token}" in "${source}"`);
+    pos++;
+  };
+
+  // 優先順位の低い順に: || && 比較 +- */ ^ 単項
+  const binary = (next: () => Expr, operators: Record<string, (a: number, b: number) => number>) => (): Expr => {
+    let left = next();
+    while (Object.hasOwn(operators, peek() ?? "")) {
+      const apply = operators[tokens[pos++]];
+      const a = left;
+      const b = next();
+      left = (env) => apply(a(env), b(env));
+    }
+    return left;
+  };
+
+  const primary = (): Expr => {
+    const token = tokens[pos++];
+    if (token === undefined) throw new GrammarError(`Unexpected end of "${source}"`);
+    if (token === "(") {
+      const inner = or();
+      expect(")");
+      return inner;
+    }
+    if (token === "-") {
+      const operand = power();
+      return (env) => -operand(env);
+    }
+    if (token === "!") {
+      const operand = power();
+      return (env) => (operand(env) ? 0 : 1);
+    }
+    if (/^[\d.]/.test(token)) {
+      const value = Number(token);
+      if (Number.isNaN(value)) throw new GrammarError(`Bad number "${token}" in "${source}"`);
+      return () => value;
+    }
+    if (/^[A-Za-z_]/.test(token)) {
+      if (peek() === "(") {
+        if (!Object.hasOwn(FUNCTIONS, token)) throw new GrammarError(`Unknown function "${token}" in "${source}"`);
+        pos++;
+        const args: Expr[] = [];
+        if (peek() !== ")") {
+          args.push(or());
+          while (peek() === ",") {
+            pos++;
+            args.push(or());
+          }
+        }
+        expect(")");
+        const fn = FUNCTIONS[token];
+        return (env) => fn(...args.map(arg => arg(env)));
+      }
+      if (!formals.includes(token)) throw new GrammarError(`Unknown parameter "${token}" in "${source}"`);
+      return (env) => env[token];
+    }
+    throw new GrammarError(`Unexpected "${token}" in "${source}"`);
+  };
+
+  // 右結合
+  const power = (): Expr => {
+    const base = primary();
+    if (peek() !== "^") return base;
+    pos++;
+    const exponent = power();
+    return (env) => base(env) ** exponent(env);
+  };
+  const product = binary(power, { "*": (a, b) => a * b, "/": (a, b) => a / b });
+  const sum = binary(product, { "+": (a, b) => a + b, "-": (a, b) => a - b });
+  const comparison = binary(sum, {
+    "<": (a, b) => +(a < b), ">": (a, b) => +(a > b), "<=": (a, b) => +(a <= b), ">=": (a, b) => +(a >= b),
+    "==": (a, b) => +(a === b), "!=": (a, b) => +(a !== b)
+  });
+  const and = binary(comparison, { "&&": (a, b) => +(a !== 0 && b !== 0) });
+  const or = binary(and, { "||": (a, b) => +(a !== 0 || b !== 0) });
+
+  if (tokens.length === 0) throw new GrammarError("Empty expression");
+  const expr = or();
+  if (pos < tokens.length) throw new GrammarError(`Unexpected "${tokens[pos]}" in "${source}"`);
+  return expr;
+};
+
+// --- 記号列の解析 ---
+// 括弧の深さ 0 で区切り文字が出る位置
+const findTopLevel = (text: string, test: (index: number) => boolean) => {
+  let depth = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")") depth--;
+    else if (depth === 0 && test(i)) return i;
+  }
+  return -1;
+};
+
+const splitTopLevel = (text: string, separator: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "(") depth++;
+    else if (text[i] === ")") depth--;
+    else if (depth === 0 && text[i] === separator) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+};
+
+// "A(x,y)B+C" を記号と括弧の中身に分ける。空白は無視する
+const splitModules = (text: string) => {
+  const modules: { symbol: string; args: string[] }[] = [];
+  const source = text.replace(/\s+/g, "");
+  let i = 0;
+  while (i < source.length) {
+    const symbol = source[i++];
+    if (symbol === "(" || symbol === ")" || symbol === ",") throw new GrammarError(`Unexpected "${symbol}" in "${text}"`);
+    let args: string[] = [];
+    if (source[i] === "(") {
+      let depth = 0;
+      let end = i;
+      for (; end < source.length; end++) {
+        if (source[end] === "(") depth++;
+        else if (source[end] === ")" && --depth === 0) break;
+      }
+      if (end >= source.length) throw new GrammarError(`Unclosed "(" in "${text}"`);
+      args = splitTopLevel(source.slice(i + 1, end), ",");
+      i = end + 1;
+    }
+    modules.push({ symbol, args });
+  }
+  return modules;
+};
+
+const parsePatterns = (text: string): ModulePattern[] => {
+  if (text.trim() === "*") return [];
+  return splitModules(text).map(({ symbol, args }) => {
+    args.forEach(arg => {
+      if (!/^[A-Za-z_]\w*$/.test(arg)) throw new GrammarError(`Parameter names must be identifiers: "${arg}"`);
+    });
+    return { symbol, formals: args };
+  });
+};
+
+const parseTemplates = (text: string, formals: string[]): ModuleTemplate[] => (
+  splitModules(text).map(({ symbol, args }) => ({ symbol, args: args.map(arg => compileExpression(arg, formals)) }))
+);
+
+// 公理 (パラメータは定数式のみ)
+export const parseWord = (text: string): Module[] => (
+  parseTemplates(text, []).map(({ symbol, args }) => ({ symbol, params: args.map(arg => arg({})) }))
+);
+
+// "(0.6)F[+F] | (0.4)F" の形なら確率的。"|" は次に重みが続くときだけ区切りとみなす (記号としての "|" と区別する)
+const WEIGHT = /^\s*\(\s*(\d*\.?\d+)\s*\)/;
+
+const parseSuccessors = (text: string, formals: string[]): Successor[] => {
+  if (!WEIGHT.test(text)) return [{ weight: 1, modules: parseTemplates(text, formals) }];
+  const alternatives = text.split(/\|(?=\s*\(\s*\d*\.?\d+\s*\))/);
+  return alternatives.map(alternative => {
+    const match = alternative.match(WEIGHT);
+    if (!match) throw new GrammarError(`Each alternative needs a weight like (0.5): "${alternative.trim()}"`);
+    return { weight: Number(match[1]), modules: parseTemplates(alternative.slice(match[0].length), formals) };
+  });
+};
+
+const parseProduction = (line: string): Production => {
+  // "=" のうち比較演算子 (==, <=, >=, !=) の一部でないもの
+  const eq = findTopLevel(line, i => line[i] === "=" && !"<>!=".includes(line[i - 1] ?? " ") && line[i + 1] !== "=");
+  if (eq < 0) throw new GrammarError(`Missing "=": "${line}"`);
+  const head = line.slice(0, eq);
+  const body = line.slice(eq + 1);
+
+  const colon = findTopLevel(head, i => head[i] === ":");
+  const pattern = colon >= 0 ? head.slice(0, colon) : head;
+  const conditionText = colon >= 0 ? head.slice(colon + 1) : null;
+
+  const lt = findTopLevel(pattern, i => pattern[i] === "<");
+  const gt = findTopLevel(pattern, i => pattern[i] === ">");
+  const leftText = lt >= 0 ? pattern.slice(0, lt) : "*";
+  const predecessorText = pattern.slice(lt + 1, gt >= 0 ? gt : pattern.length);
+  const rightText = gt >= 0 ? pattern.slice(gt + 1) : "*";
+
+  const predecessors = parsePatterns(predecessorText);
+  if (predecessors.length !== 1) throw new GrammarError(`The left side must be a single symbol: "${predecessorText.trim()}"`);
+  const [predecessor] = predecessors;
+  const left = parsePatterns(leftText);
+  const right = parsePatterns(rightText);
+
+  const formals = [...left, predecessor, ...right].flatMap(module => module.formals);
+  const condition = conditionText !== null ? compileExpression(conditionText, formals) : null;
+  const successors = parseSuccessors(body, formals);
+  if (successors.every(successor => successor.weight <= 0)) throw new GrammarError(`Weights must not all be zero: "${line}"`);
+  return { predecessor, left, right, condition, successors };
+};
+
+// "#" は亀の記号 (太くする) でもあるので、"#" の後が空白か行末のときだけコメントとみなす
+const isComment = (line: string) => /^#(\s|$)/.test(line);
+
+export const parseGrammar = (text: string): Grammar => {
+  const productions = new Map<string, Production[]>();
+  const ignore = new Set<string>();
+  text.split("\n").forEach((raw, index) => {
+    const line = raw.trim();
+    if (!line) return;
+    if (line.startsWith("#ignore")) {
+      for (const symbol of line.slice("#ignore".length).replace(/[\s:]/g, "")) ignore.add(symbol);
+      return;
+    }
+    if (isComment(line)) return;
+    try {
+      const production = parseProduction(line);
+      const { symbol } = production.predecessor;
+      productions.set(symbol, [...(productions.get(symbol) ?? []), production]);
+    } catch (e) {
+      if (e instanceof GrammarError) throw new GrammarError(`Line ${index + 1}: ${e.message}`);
+      throw e;
+    }
+  });
+  return { productions, ignore };
+};
+
+// --- 検査 ---
+// エディタで行ごとに示す指摘。parseGrammar は最初の誤りで止まるので、全部の行を調べ直す。
+// line はルールの行番号 (0 始まり)。公理についての指摘は -1
+export type Diagnostic = { line: number; severity: "error" | "warning"; message: string };
+
+const BRACKETS = [["[", "]"], ["{", "}"]];
+
+const checkBrackets = (modules: { symbol: string }[]) => {
+  for (const [open, close] of BRACKETS) {
+    let depth = 0;
+    for (const { symbol } of modules) {
+      if (symbol === open) depth++;
+      else if (symbol === close && --depth < 0) return `Unmatched "${close}"`;
+    }
+    if (depth > 0) return `Unclosed "${open}"`;
+  }
+  return null;
+};
+
+// commands は亀が読む記号。ルールもなく亀も読まない記号は書き間違いとみなす (括弧の不釣り合いと同じく、描画は続ける)
+export const lintGrammar = (rules: string, axiom: string, commands: string): Diagnostic[] => {
+  const diagnostics: Diagnostic[] = [];
+  const productions: { line: number; production: Production }[] = [];
+  const report = (line: number, e: unknown) => {
+    if (!(e instanceof GrammarError)) throw e;
+    diagnostics.push({ line, severity: "error", message: e.message });
+  };
+  rules.split("\n").forEach((raw, line) => {
+    const text = raw.trim();
+    if (!text || text.startsWith("#ignore") || isComment(text)) return;
+    try {
+      productions.push({ line, production: parseProduction(text) });
+    } catch (e) {
+      report(line, e);
+    }
+  });
+
+  const defined = new Set(productions.map(({ production }) => production.predecessor.symbol));
+  const check = (line: number, alternatives: { symbol: string }[][]) => {
+    const unbalanced = alternatives.map(checkBrackets).find(message => message !== null);
+    if (unbalanced) diagnostics.push({ line, severity: "warning", message: unbalanced });
+    const symbols = alternatives.flat().map(({ symbol }) => symbol);
+    const unknown = new Set(symbols.filter(symbol => !defined.has(symbol) && !commands.includes(symbol)));
+    if (unknown.size > 0) {
+      const list = [...unknown].map(symbol => `"${symbol}"`).join(", ");
+      diagnostics.push({ line, severity: "warning", message: `Unknown symbol ${list} (no rule, not drawn)` });
+    }
+  };
+  productions.forEach(({ line, production }) => check(line, production.successors.map(successor => successor.modules)));
+  try {
+    check(-1, [parseWord(axiom)]);
+  } catch (e) {
+    report(-1, e);
+  }
+  return diagnostics.sort((a, b) => a.line - b.line);
+};
+
+// --- 書き換え ---
+const bind = (pattern: ModulePattern, module: Module, env: Env) => {
+  if (pattern.symbol !== module.symbol || pattern.formals.length !== module.params.length) return false;
+  pattern.formals.forEach((name, i) => { env[name] = module.params[i]; });
+  return true;
+};
+
+// 左の文脈: 親の枝をさかのぼる。閉じた枝 [...] は丸ごと飛ばす
+const matchLeft = (word: Module[], index: number, left: ModulePattern[], ignore: Set<string>, env: Env) => {
+  let j = index - 1;
+  for (let k = left.length - 1; k >= 0; k--) {
+    for (;;) {
+      if (j < 0) return false;
+      const { symbol } = word[j];
+      if (symbol === "]") {
+        let depth = 1;
+        while (--j >= 0 && depth > 0) {
+          if (word[j].symbol === "]") depth++;
+          else if (word[j].symbol === "[") depth--;
+        }
+        continue;
+      }
+      if (symbol === "[" || ignore.has(symbol)) {
+        j--;
+        continue;
+      }
+      break;
+    }
+    if (!bind(left[k], word[j], env)) return false;
+    j--;
+  }
+  return true;
+};
+
+// 右の文脈: 同じ枝を先へ進む。途中の枝 [...] は飛ばし、枝の終わり "]" で打ち切る
+const matchRight = (word: Module[], index: number, right: ModulePattern[], ignore: Set<string>, env: Env) => {
+  let j = index + 1;
+  for (const pattern of right) {
+    for (;;) {
+      if (j >= word.length) return false;
+      const { symbol } = word[j];
+      if (symbol === "]") return false;
+      if (symbol === "[") {
+        let depth = 1;
+        while (++j < word.length && depth > 0) {
+          if (word[j].symbol === "[") depth++;
+          else if (word[j].symbol === "]") depth--;
+        }
+        continue;
+      }
+      if (ignore.has(symbol)) {
+        j++;
+        continue;
+      }
+      break;
+    }
+    if (!bind(pattern, word[j], env)) return false;
+    j++;
+  }
+  return true;
+};
+
+const choose = (successors: Successor[], rng: () => number) => {
+  if (successors.length === 1) return successors[0];
+  const total = successors.reduce((sum, successor) => sum + successor.weight, 0);
+  let r = rng() * total;
+  for (const successor of successors) {
+    r -= successor.weight;
+    if (r < 0) return successor;
+  }
+  return successors[successors.length - 1];
+};
+
+// index の記号に当てはまる最初のルールの右辺を返す。なければ null (そのまま残す)
+const applyProductions = (word: Module[], index: number, grammar: Grammar, rng: () => number): Module[] | null => {
+  const current = word[index];
+  const candidates = grammar.productions.get(current.symbol);
+  if (!candidates) return null;
+  for (const production of candidates) {
+    const env: Env = {};
+    if (!bind(production.predecessor, current, env)) continue;
+    if (production.left.length > 0 && !matchLeft(word, index, production.left, grammar.ignore, env)) continue;
+    if (production.right.length > 0 && !matchRight(word, index, production.right, grammar.ignore, env)) continue;
+    if (production.condition && !production.condition(env)) continue;
+    return choose(production.successors, rng).modules.map(({ symbol, args }) => ({ symbol, params: args.map(arg => arg(env)) }));
+  }
+  return null;
+};
+
+// --- 展開 ---
+const hasContext = (grammar: Grammar) => {
+  for (const productions of grammar.productions.values()) {
+    if (productions.some(production => production.left.length > 0 || production.right.length > 0)) return true;
+  }
+  return false;
+};
+
+// heir: word のうち書き換え前の記号を受け継ぐもの (右辺で最初に出てくる同じ記号)。なければ -1
+// key: word を生んだ記号の鍵。word の i 番目の鍵は childKey(key, i)
+type Frame = { word: Module[]; index: number; depth: number; heir: number; key: number };
+
+// 書き換えた記号のどれが元の記号を受け継ぐか。残りは新しく生まれた記号とみなす
+const heirOf = (replacement: Module[], symbol: string) => replacement.findIndex(module => module.symbol === symbol);
+
+// generations 世代目の記号を、run を呼ぶたびに少しずつ左から順に出す。
+// 文脈自由なら導出木を深さ優先でたどるので、持つのは今の枝の分だけ。
+// 文脈依存では隣の記号が要るので、世代ごとの列を (これも少しずつ) 作ってから読み出す。
+// emit の isNew は、最後の書き換えで新しく生まれた記号か (前の世代からのモーフィングに使う)。
+// 確率的な選択は書き換える記号の鍵を種にした乱数で決めるので、どちらの進め方でも同じ列になる
+export class Derivation {
+  isDone = false;
+  visited = 0; // 書き換え・読み出しで触れた記号の数 (予算の目安)
+  private grammar: Grammar;
+  private generations: number;
+  private stack: Frame[] = [];
+  // 文脈依存のとき
+  private word: Module[] | null = null;
+  private keys: number[] = []; // word の各記号の鍵
+  private next: Module[] = [];
+  private nextKeys: number[] = [];
+  private fresh: boolean[] = []; // 最後の世代の各記号の isNew
+  private nextFresh: boolean[] = [];
+  private index = 0;
+  private generation = 0;
+
+  constructor(axiom: Module[], grammar: Grammar, generations: number, seed: number) {
+    this.grammar = grammar;
+    this.generations = generations;
+    const key = seed >>> 0;
+    if (hasContext(grammar)) {
+      this.word = axiom;
+      this.keys = axiom.map((_, i) => childKey(key, i));
+    } else {
+      this.stack.push({ word: axiom, index: 0, depth: 0, heir: -1, key });
+    }
+  }
+
+  // 0..1 のおおよその進み具合
+  get progress() {
+    if (this.isDone) return 1;
+    if (this.word) return (this.generation + this.index / Math.max(1, this.word.length)) / (this.generations + 1);
+    let progress = 0;
+    let weight = 1;
+    this.stack.forEach((frame, i) => {
+      // 下の段は index - 1 番目の記号を展開している最中
+      const done = i < this.stack.length - 1 ? frame.index - 1 : frame.index;
+      progress += (weight * done) / frame.word.length;
+      weight /= frame.word.length;
+    });
+    return progress;
+  }
+
+  // 最大 work 個の記号を処理する
+  run(work: number, emit: (module: Module, isNew: boolean) => void) {
+    for (let n = 0; n < work && !this.isDone; n++) {
+      this.visited++;
+      if (this.word) this.stepWord(emit);
+      else this.stepTree(emit);
+    }
+  }
+
+  private stepTree(emit: (module: Module, isNew: boolean) => void) {
+    const frame = this.stack[this.stack.length - 1];
+    if (!frame) {
+      this.isDone = true;
+      return;
+    }
+    if (frame.index >= frame.word.length) {
+      this.stack.pop();
+      return;
+    }
+    const index = frame.index++;
+    const current = frame.word[index];
+    if (frame.depth === this.generations) {
+      emit(current, frame.depth > 0 && index !== frame.heir);
+      return;
+    }
+    const key = childKey(frame.key, index);
+    const replacement = applyProductions([current], 0, this.grammar, createRng(key));
+    // 当てはまるルールがなければ、この先の世代でも同じ記号のまま (パラメータも変わらない)
+    if (replacement) {
+      this.stack.push({ word: replacement, index: 0, depth: frame.depth + 1, heir: heirOf(replacement, current.symbol), key });
+    } else {
+      emit(current, false);
+    }
+  }
+
+  private stepWord(emit: (module: Module, isNew: boolean) => void) {
+    const word = this.word!;
+    if (this.generation < this.generations) {
+      const isLast = this.generation === this.generations - 1;
+      if (this.index < word.length) {
+        const key = this.keys[this.index];
+        const replacement = applyProductions(word, this.index, this.grammar, createRng(key));
+        if (replacement) {
+          this.next.push(...replacement);
+          replacement.forEach((_, i) => this.nextKeys.push(childKey(key, i)));
+          if (isLast) {
+            const heir = heirOf(replacement, word[this.index].symbol);
+            replacement.forEach((_, i) => this.nextFresh.push(i !== heir));
+          }
+        } else {
+          // 書き換えなかった記号も、自分1つに書き換えたとみなして鍵を進める
+          this.next.push(word[this.index]);
+          this.nextKeys.push(childKey(key, 0));
+          if (isLast) this.nextFresh.push(false);
+        }
+        this.index++;
+        return;
+      }
+      this.word = this.next;
+      this.keys = this.nextKeys;
+      this.fresh = this.nextFresh;
+      this.next = [];
+      this.nextKeys = [];
+      this.nextFresh = [];
+      this.index = 0;
+      this.generation++;
+      return;
+    }
+    if (this.index < word.length) {
+      emit(word[this.index], this.fresh[this.index] ?? false);
+      this.index++;
+    } else {
+      this.isDone = true;
+    }
+  }
+}
@@ -1,48 +1,51 @@
 "use client";
 
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import Link from "next/link";
+import { downloadBlob } from "@/lib/download";
+import {
+  AnimationSettings, DEFAULT_ANIMATION, ModuleStream, Playback, Scene, StreamRecorder, cycleLength, isAnimated, paintFrame,
+  ANIMATION_BUDGET, FRAME_RATE, recordFrames, streamGenerations
+} from "./animation";
+import { Derivation, GrammarError, Module, lintGrammar, parseGrammar, parseWord } from "./grammar";
+import { Frame, Polyline, clipPolylines, figureFrame, optimizePaths, renderPng, toGcode, toHpgl, toSvg } from "./export";
+import {
+  DEFAULT_SEED, HASH_PREFIX, LSystemConfig, MAX_GENERATION, PRESETS, PresetError, SavedPreset, Snapshot, decodePresetHash,
+  deleteUserPreset, encodePresetHash, listUserPresets, normalizeSeed, parsePresetFile, saveUserPreset, saveUserPresets, toPresetFile
+} from "./presets";
+import {
+  BACKGROUND, ColorBy, DEFAULT_STYLE, Orbit, PALETTES, Projector, Style, View, ViewMode, collectPolylines, createPainter,
+  createProjector
+} from "./render";
+import { COMMANDS, Turtle, TurtleGeometry } from "./turtle";
 
 // --- 型定義 ---
-type LSystemConfig = {
-  axiom: string;
-  rules: string;
-  angle: number;
-  initialLength: number;
-  startOffset: { x: number; y: number };
-};
-
-// --- プリセット ---
-const PRESETS: Record<string, LSystemConfig & { lengthDecay?: number }> = {
-  "Standard Tree": {
-    axiom: "F",
-    rules: "F=F[+F]-F",
-    angle: 45,
-    initialLength: 50, 
-    startOffset: { x: 0.5, y: 0.8 }, 
-  },
-  "Complex Bush": {
-    axiom: "F",
-    rules: "F=F[+F]F[-F]F",
-    angle: 25,
-    initialLength: 30,
-    startOffset: { x: 0.5, y: 0.8 },
-  },
-  "Dragon Curve": {
-    axiom: "FX",
-    rules: "X=X+YF+\nY=-FX-Y",
-    angle: 90,
-    initialLength: 10,
-    startOffset: { x: 0.5, y: 0.5 },
-  },
-  "Sierpinski": {
-    axiom: "F-G-G",
-    rules: "F=F-G+F+G-F\nG=GG",
-    angle: 120,
-    initialLength: 10,
-    startOffset: { x: 0.2, y: 0.7 },
-  },
-};
+// building: 展開中, done: 完成, budget: 予算で打ち切った
+type BuildStatus = { progress: number; segments: number; status: "building" | "done" | "budget" };
+
+// --- 展開の予算 ---
+const SEGMENT_BUDGETS = [50_000, 200_000, 500_000, 1_000_000, 2_000_000];
+const DEFAULT_BUDGET = 200_000;
+const SYMBOLS_PER_SEGMENT = 32; // 線を引かない記号ばかり増えるルールも止められるよう、触れる記号の数も線分の予算の何倍かまで
+const SLICE_MS = 8; // 1フレームで展開・描画に使う時間
+const CHUNK = 4096; // 時間を確かめる間隔 (記号の数)
+
+// --- 書き出し ---
+// view: 今キャンバスに見えている範囲, figure: 同じ向きで図全体
+type ExportScope = "view" | "figure";
+type ExportFormat = "svg" | "png" | "gcode" | "hpgl";
+const PNG_SCALES = [1, 2, 4, 8]; // 範囲の1単位 (画面の1ピクセル) あたりのピクセル数
+const MAX_PNG_SIDE = 16384; // ブラウザのキャンバスの上限に収める
+const DEFAULT_PLOT_WIDTH = 180; // mm
+
+// ユーザープリセットは選択肢の値にこの接頭辞をつけて組み込みのものと区別する
+const USER_PRESET_PREFIX = "user:";
+const CUSTOM_PRESET = ""; // 共有リンク・読み込んだファイル・手で書き換えた設定
+
+// --- 3D カメラ ---
+const DEFAULT_ORBIT: Orbit = { yaw: 0.6, pitch: 0.35, dolly: 1 };
+const ORBIT_SENSITIVITY = 0.01; // 1ピクセルのドラッグで回る角度 (ラジアン)
+const MAX_PITCH = Math.PI / 2 - 0.01;
 
 export default function LSystemEditor() {
   const canvasRef = useRef<HTMLCanvasElement>(null);
@@ -50,10 +53,30 @@ export default function LSystemEditor() {
   // 状態管理
   const [config, setConfig] = useState<LSystemConfig>(PRESETS["Standard Tree"]);
   const [generation, setGeneration] = useState(0);
-  const [dna, setDna] = useState("");
+  const [seed, setSeed] = useState(DEFAULT_SEED); // 確率的なルールの乱数の種
+  const [viewMode, setViewMode] = useState<ViewMode>("2d");
+  const [orbit, setOrbit] = useState<Orbit>(DEFAULT_ORBIT);
   const [scale, setScale] = useState(1.0); // ズーム倍率
   const [pan, setPan] = useState({ x: 0, y: 0 }); // 表示位置の移動量 (x, y)
   const [isPanelOpen, setIsPanelOpen] = useState(false);
+  const [budget, setBudget] = useState(DEFAULT_BUDGET); // 線分の数の上限
+  const [build, setBuild] = useState<BuildStatus>({ progress: 0, segments: 0, status: "building" });
+  const [geometry, setGeometry] = useState<TurtleGeometry | null>(null); // 完成した (打ち切った) 線分
+  const [style, setStyle] = useState<Style>(DEFAULT_STYLE); // 色と太さ (描き直すだけで育て直さない)
+  const [exportScope, setExportScope] = useState<ExportScope>("view");
+  const [pngScale, setPngScale] = useState(2);
+  const [plotWidth, setPlotWidth] = useState(DEFAULT_PLOT_WIDTH);
+  const [exportMessage, setExportMessage] = useState<string | null>(null);
+  const [animation, setAnimation] = useState<AnimationSettings>(DEFAULT_ANIMATION);
+  const [streams, setStreams] = useState<Map<number, ModuleStream> | null>(null); // 再生用に記録した記号列 (用意できるまで null)
+  const [isRecording, setIsRecording] = useState(false); // コマを書き出している最中
+  const startTimeRef = useRef(0); // 再生を始めた時刻
+  const [userPresets, setUserPresets] = useState<SavedPreset[]>([]);
+  const [presetName, setPresetName] = useState("");
+  const [presetKey, setPresetKey] = useState("Standard Tree"); // プリセットの選択肢の値 (どれとも違えば CUSTOM_PRESET)
+  const [presetMessage, setPresetMessage] = useState<{ text: string; isError: boolean } | null>(null);
+  const restoredRef = useRef(false); // 共有リンクからの復元を済ませたか (済むまで URL を書き換えない)
+  const rulesBackdropRef = useRef<HTMLDivElement>(null);
 
   // ドラッグ・ピンチ操作用のRef
   const isDraggingRef = useRef(false);
@@ -61,121 +84,390 @@ export default function LSystemEditor() {
   const lastPinchDistRef = useRef<number | null>(null); // ピンチ操作の距離
 
   // --- 1. ルールのパース ---
-  const parseRules = useCallback((rulesString: string) => {
-    const rulesMap: Record<string, string> = {};
-    rulesString.split("\n").forEach(line => {
-      const [key, value] = line.split("=");
-      if (key && value) {
-        rulesMap[key.trim()] = value.trim();
-      }
-    });
-    return rulesMap;
-  }, []);
-
-  // --- 2. DNAの成長 ---
-  const growDna = useCallback((currentString: string, rulesMap: Record<string, string>) => {
-    let nextString = "";
-    for (const char of currentString) {
-      nextString += rulesMap[char] || char;
+  // 誤りがあれば育てない (どの行が悪いかは diagnostics で示す)
+  const parsed = useMemo(() => {
+    try {
+      return { grammar: parseGrammar(config.rules), axiom: parseWord(config.axiom) };
+    } catch (e) {
+      if (e instanceof GrammarError) return { grammar: null, axiom: [] as Module[] };
+      throw e;
     }
-    return nextString;
-  }, []);
+  }, [config.rules, config.axiom]);
+  const diagnostics = useMemo(() => lintGrammar(config.rules, config.axiom, COMMANDS), [config.rules, config.axiom]);
+  // 行ごとの一番重い指摘
+  const lineSeverity = new Map<number, "error" | "warning">();
+  diagnostics.forEach(({ line, severity }) => {
+    if (lineSeverity.get(line) !== "error") lineSeverity.set(line, severity);
+  });
 
+  // --- 2. DNAの成長 ---
+  // 展開しながらそのまま亀に読ませる (列全体は作らない)。1フレームに SLICE_MS だけ働いて画面に返し、
+  // 線分が予算に達したらそこで打ち切る。同じ種からは同じ形が育つ
   useEffect(() => {
-    const rulesMap = parseRules(config.rules);
-    let currentDna = config.axiom;
-    // ステップ数上限を緩和 (複雑なルールは6、単純なものは8まで)
-    const maxGen = config.rules.length > 20 ? 6 : 9; 
-    const safeGen = Math.min(generation, maxGen);
-
-    for (let i = 0; i < safeGen; i++) {
-      currentDna = growDna(currentDna, rulesMap);
-    }
-    setDna(currentDna);
-  }, [generation, config, growDna, parseRules]);
+    const { grammar, axiom } = parsed;
+    if (!grammar) return;
+    const derivation = new Derivation(axiom, grammar, generation, seed);
+    const turtle = new Turtle(config.angle, config.initialLength, config.lengthDecay ?? 1);
+    const maxVisited = budget * SYMBOLS_PER_SEGMENT;
+    let isOverBudget = false;
+    let frameId = 0;
+    const work = () => {
+      const deadline = performance.now() + SLICE_MS;
+      while (!derivation.isDone && !isOverBudget && performance.now() < deadline) {
+        derivation.run(CHUNK, (module) => {
+          if (turtle.geometry.count < budget) turtle.feed(module);
+          else isOverBudget = true;
+        });
+        if (derivation.visited >= maxVisited) isOverBudget = true;
+      }
+      const isFinished = derivation.isDone || isOverBudget;
+      setBuild({
+        progress: derivation.progress, segments: turtle.geometry.count,
+        status: isOverBudget ? "budget" : isFinished ? "done" : "building"
+      });
+      if (isFinished) setGeometry(turtle.geometry);
+      else frameId = requestAnimationFrame(work);
+    };
+    frameId = requestAnimationFrame(work);
+    return () => cancelAnimationFrame(frameId);
+  }, [parsed, generation, seed, budget, config.angle, config.initialLength, config.lengthDecay]);
+
+  const isPlaying = isAnimated(animation) && streams !== null;
 
   // --- 3. 描画 ---
+  // 線分が多いと1度に描けないので、1フレームに SLICE_MS ずつ描き足す。止めるための関数を返す
   const draw = useCallback(() => {
     const canvas = canvasRef.current;
-    if (!canvas) return;
+    if (!canvas) return () => {};
     const ctx = canvas.getContext("2d");
-    if (!ctx) return;
+    if (!ctx) return () => {};
 
     // 画面クリア
-    ctx.fillStyle = "#020408"; // 完全な黒よりわずかに青みのある黒
+    ctx.fillStyle = BACKGROUND;
     ctx.fillRect(0, 0, canvas.width, canvas.height);
-
-    // 描画設定：加算合成で光らせる
-    ctx.globalCompositeOperation = "lighter";
-    ctx.strokeStyle = "rgba(6, 182, 212, 0.6)"; // Cyan-500 with opacity
-    ctx.lineWidth = 1.5; 
-    ctx.lineCap = "round";
+    // 再生中は下のアニメーションが毎フレーム描く
+    if (!geometry || isPlaying) return () => {};
 
     // 開始位置（根元）: 初期位置 + パン(ドラッグ)移動量
-    let x = canvas.width * config.startOffset.x + pan.x;
-    let y = canvas.height * config.startOffset.y + pan.y;
-    let dir = -90 * (Math.PI / 180); 
-    
-    // 長さ計算
-    let len = config.initialLength * scale;
-
-    const stack: { x: number; y: number; dir: number }[] = [];
-
-    ctx.beginPath();
-    ctx.moveTo(x, y);
-
-    for (const char of dna) {
-      if (char === "F" || char === "G") {
-        x += Math.cos(dir) * len;
-        y += Math.sin(dir) * len;
-        ctx.lineTo(x, y);
-      } else if (char === "+") {
-        dir += config.angle * (Math.PI / 180);
-      } else if (char === "-") {
-        dir -= config.angle * (Math.PI / 180);
-      } else if (char === "[") {
-        stack.push({ x, y, dir });
-      } else if (char === "]") {
-        ctx.stroke();
-        // パスを一度切ることで、重なり部分の発光効果を最大限に活かす
-        ctx.beginPath();
-        const state = stack.pop();
-        if (state) {
-          x = state.x;
-          y = state.y;
-          dir = state.dir;
-          ctx.moveTo(x, y);
-        }
-      }
-    }
-    ctx.stroke();
-    
-    // 設定を戻す
-    ctx.globalCompositeOperation = "source-over";
+    const root = { x: canvas.width * config.startOffset.x + pan.x, y: canvas.height * config.startOffset.y + pan.y };
+    const toScreen = createProjector(geometry, { mode: viewMode, root, scale, orbit }, canvas.width, canvas.height);
+    const paint = createPainter(ctx, geometry, toScreen, style);
 
-  }, [dna, config, scale, pan]);
+    let frameId = 0;
+    const drawChunk = () => {
+      if (!paint(performance.now() + SLICE_MS)) frameId = requestAnimationFrame(drawChunk);
+    };
+    drawChunk();
+    return () => cancelAnimationFrame(frameId);
+  }, [geometry, config.startOffset, scale, pan, viewMode, orbit, style, isPlaying]);
 
-  // リサイズ対応
+  // リサイズ対応 (表示が変わるたびにもここから描き直す。描きかけのものは止める)
   useEffect(() => {
+    let cancelDraw = () => {};
     const handleResize = () => {
       if (canvasRef.current) {
         canvasRef.current.width = window.innerWidth;
         canvasRef.current.height = window.innerHeight;
-        draw();
+        cancelDraw();
+        cancelDraw = draw();
       }
     };
     window.addEventListener("resize", handleResize);
     handleResize(); 
-    return () => window.removeEventListener("resize", handleResize);
+    return () => {
+      window.removeEventListener("resize", handleResize);
+      cancelDraw();
+    };
   }, [draw]);
 
-  useEffect(() => { draw(); }, [dna, draw]);
+  // --- 4. アニメーション ---
+  // 再生に要る世代の記号列を、成長と同じく1フレームに SLICE_MS ずつ記録してから再生を始める
+  const streamKey = isAnimated(animation) ? streamGenerations(animation, generation).join(",") : "";
+  const streamBudget = Math.min(budget, ANIMATION_BUDGET);
+  useEffect(() => {
+    const { grammar, axiom } = parsed;
+    let frameId = 0;
+    if (!grammar || !streamKey) {
+      frameId = requestAnimationFrame(() => setStreams(null));
+      return () => cancelAnimationFrame(frameId);
+    }
+    const pending = streamKey.split(",").map(Number);
+    const recorded = new Map<number, ModuleStream>();
+    let current: { generation: number; recorder: StreamRecorder } | null = null;
+    const work = () => {
+      const deadline = performance.now() + SLICE_MS;
+      while (performance.now() < deadline) {
+        if (!current) {
+          const next = pending.shift();
+          if (next === undefined) break;
+          const recorder = new StreamRecorder(axiom, grammar, next, seed, streamBudget, streamBudget * SYMBOLS_PER_SEGMENT);
+          current = { generation: next, recorder };
+        }
+        current.recorder.run(CHUNK);
+        if (current.recorder.isDone) {
+          recorded.set(current.generation, current.recorder.stream);
+          current = null;
+        }
+      }
+      if (current || pending.length > 0) {
+        frameId = requestAnimationFrame(work);
+        return;
+      }
+      startTimeRef.current = performance.now();
+      setStreams(recorded);
+    };
+    frameId = requestAnimationFrame(() => {
+      setStreams(null); // 用意できるまでは止まった絵を描く
+      work();
+    });
+    return () => cancelAnimationFrame(frameId);
+  }, [parsed, streamKey, seed, streamBudget]);
+
+  // 今の表示のまま1コマを描くための設定
+  const sceneFor = useCallback((canvas: HTMLCanvasElement, recorded: Map<number, ModuleStream>): Scene => {
+    const root = { x: canvas.width * config.startOffset.x + pan.x, y: canvas.height * config.startOffset.y + pan.y };
+    return {
+      streams: recorded, generation, settings: animation,
+      angle: config.angle, length: config.initialLength, lengthDecay: config.lengthDecay ?? 1,
+      style, view: { mode: viewMode, root, scale, orbit }
+    };
+  }, [generation, animation, config.angle, config.initialLength, config.lengthDecay, config.startOffset, style, viewMode, scale, pan, orbit]);
+
+  // 姿は再生を始めてからの時刻だけで決まるので、表示を動かしても途切れない
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext("2d");
+    if (!canvas || !ctx || !streams || !isAnimated(animation)) return;
+    let frameId = 0;
+    const tick = () => {
+      paintFrame(ctx, canvas.width, canvas.height, sceneFor(canvas, streams), (performance.now() - startTimeRef.current) / 1000);
+      frameId = requestAnimationFrame(tick);
+    };
+    frameId = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frameId);
+  }, [streams, animation, sceneFor]);
+
+  // --- 書き出し ---
+  // 画面と同じ写し方で折れ線にする。図全体は 2D なら等倍、3D なら今の向きで全体が入る距離から写す
+  const collectForExport = (): { polylines: Polyline[]; frame: Frame; projector: Projector } | null => {
+    const canvas = canvasRef.current;
+    if (!canvas || !geometry) return null;
+    if (exportScope === "view") {
+      const root = { x: canvas.width * config.startOffset.x + pan.x, y: canvas.height * config.startOffset.y + pan.y };
+      const view: View = { mode: viewMode, root, scale, orbit };
+      const frame = { x: 0, y: 0, width: canvas.width, height: canvas.height };
+      const projector = createProjector(geometry, view, canvas.width, canvas.height);
+      return { polylines: clipPolylines(collectPolylines(geometry, projector), frame), frame, projector };
+    }
+    const view: View = { mode: viewMode, root: { x: 0, y: 0 }, scale: 1, orbit: { ...orbit, dolly: 1 } };
+    const projector = createProjector(geometry, view, canvas.width, canvas.height);
+    const polylines = collectPolylines(geometry, projector);
+    const frame = figureFrame(polylines);
+    return frame ? { polylines, frame, projector } : null;
+  };
+
+  const handleExport = async (format: ExportFormat) => {
+    const collected = collectForExport();
+    if (!collected || collected.polylines.length === 0) {
+      setExportMessage("Nothing to export.");
+      return;
+    }
+    const { polylines, frame, projector } = collected;
+    const filename = `lsystem-gen${generation}`;
+    if (format === "png") {
+      const pixelScale = Math.min(pngScale, MAX_PNG_SIDE / Math.max(frame.width, frame.height));
+      const blob = geometry && (await renderPng(geometry, projector, style, frame, pixelScale));
+      if (!blob) {
+        setExportMessage("PNG export failed.");
+        return;
+      }
+      downloadBlob(blob, `${filename}.png`);
+      setExportMessage(`PNG: ${Math.round(frame.width * pixelScale)}×${Math.round(frame.height * pixelScale)} px`);
+      return;
+    }
+    const { paths, travel } = optimizePaths(polylines);
+    if (format === "svg") {
+      downloadBlob(new Blob([toSvg(paths, frame)], { type: "image/svg+xml" }), `${filename}.svg`);
+      setExportMessage(`SVG: ${paths.length.toLocaleString("en-US")} polylines`);
+      return;
+    }
+    const text = format === "gcode" ? toGcode(paths, frame, plotWidth) : toHpgl(paths, frame, plotWidth);
+    downloadBlob(new Blob([text], { type: "text/plain" }), `${filename}.${format === "gcode" ? "gcode" : "hpgl"}`);
+    const travelMm = (travel * plotWidth) / frame.width;
+    setExportMessage(
+      `${format === "gcode" ? "G-CODE" : "HPGL"}: ${paths.length.toLocaleString("en-US")} paths · pen-up travel ${Math.round(travelMm).toLocaleString("en-US")} mm`
+    );
+  };
 
+  // 一巡りをコマに分けて ZIP で書き出す (画面の大きさ・今の表示のまま)
+  const handleExportFrames = async () => {
+    const canvas = canvasRef.current;
+    if (!canvas || !streams || !isAnimated(animation)) {
+      setExportMessage("Turn on playback or wind to export frames.");
+      return;
+    }
+    setIsRecording(true);
+    let frames = 0;
+    const recorded = await recordFrames(sceneFor(canvas, streams), canvas.width, canvas.height, (done, total) => {
+      frames = done;
+      setExportMessage(`FRAMES: ${done}/${total}`);
+    });
+    setIsRecording(false);
+    if (!recorded) {
+      setExportMessage("Frame export failed.");
+      return;
+    }
+    downloadBlob(recorded.zip, `lsystem-gen${generation}-frames.zip`);
+    const fps = recorded.fps < FRAME_RATE ? `${recorded.fps.toFixed(2)} fps (lowered to fit the loop)` : `${FRAME_RATE} fps`;
+    setExportMessage(`FRAMES: ${frames} PNG · ${canvas.width}×${canvas.height} px · ${fps}`);
+  };
+
+  // --- 5. プリセット ---
+  const resetView = () => {
+    setScale(1.0);
+    setPan({ x: 0, y: 0 }); // 位置もリセット
+    setOrbit(DEFAULT_ORBIT);
+  };
+
+  // 組み込みのプリセットは形と見た目だけ差し替える (種と再生の設定はそのまま)
   const applyPreset = (name: string) => {
-    setConfig(PRESETS[name]);
+    const { view, style: presetStyle, ...presetConfig } = PRESETS[name];
+    setConfig(presetConfig);
     setGeneration(0);
+    setViewMode(view ?? "2d");
+    setStyle({ ...DEFAULT_STYLE, ...presetStyle });
+    resetView();
+  };
+
+  const applySnapshot = useCallback((snapshot: Snapshot) => {
+    setPresetKey(CUSTOM_PRESET);
+    setConfig(snapshot.config);
+    setGeneration(snapshot.generation);
+    setSeed(snapshot.seed);
+    setViewMode(snapshot.view);
+    setStyle(snapshot.style);
+    setAnimation(snapshot.animation);
     setScale(1.0);
-    setPan({ x: 0, y: 0 }); // 位置もリセット
+    setPan({ x: 0, y: 0 });
+    setOrbit(DEFAULT_ORBIT);
+  }, []);
+
+  // 手で書き換えたらどのプリセットとも違うものとし、同じプリセットをもう一度選べるようにする
+  const editConfig = (patch: Partial<LSystemConfig>) => {
+    setPresetKey(CUSTOM_PRESET);
+    setConfig({ ...config, ...patch });
+  };
+
+  const currentSnapshot = (): Snapshot => ({ config, view: viewMode, style, seed, generation, animation });
+
+  const handlePresetSelect = (value: string) => {
+    if (!value.startsWith(USER_PRESET_PREFIX)) {
+      applyPreset(value);
+      setPresetKey(value);
+      return;
+    }
+    const name = value.slice(USER_PRESET_PREFIX.length);
+    const preset = userPresets.find(entry => entry.name === name);
+    if (!preset) return;
+    applySnapshot(preset.snapshot);
+    setPresetKey(value);
+    setPresetName(name);
+  };
+
+  const handleSavePreset = () => {
+    try {
+      const name = presetName.trim();
+      const isSaved = saveUserPreset(name, currentSnapshot());
+      setUserPresets(listUserPresets());
+      setPresetMessage(isSaved
+        ? { text: `Saved "${name}".`, isError: false }
+        : { text: "Could not write to local storage.", isError: true });
+    } catch (e) {
+      if (!(e instanceof PresetError)) throw e;
+      setPresetMessage({ text: e.message, isError: true });
+    }
+  };
+
+  const handleDeletePreset = () => {
+    const name = presetName.trim();
+    if (!userPresets.some(preset => preset.name === name)) {
+      setPresetMessage({ text: `No saved preset named "${name}".`, isError: true });
+      return;
+    }
+    const isDeleted = deleteUserPreset(name);
+    setUserPresets(listUserPresets());
+    setPresetMessage(isDeleted
+      ? { text: `Deleted "${name}".`, isError: false }
+      : { text: "Could not write to local storage.", isError: true });
+  };
+
+  // 保存したものがなければ今の設定を1つだけ書き出す
+  const handleExportPresets = () => {
+    const presets = userPresets.length > 0
+      ? userPresets
+      : [{ name: presetName.trim() || "Untitled", savedAt: new Date().toISOString(), snapshot: currentSnapshot() }];
+    downloadBlob(new Blob([toPresetFile(presets)], { type: "application/json" }), "lsystem-presets.json");
+    setPresetMessage({ text: `Exported ${presets.length} preset${presets.length > 1 ? "s" : ""}.`, isError: false });
+  };
+
+  const handleImportPresets = async (file: File) => {
+    try {
+      const presets = parsePresetFile(await file.text());
+      if (presets.length === 0) throw new PresetError("Preset file is empty.");
+      const isSaved = saveUserPresets(presets);
+      setUserPresets(listUserPresets());
+      applySnapshot(presets[0].snapshot);
+      setPresetName(presets[0].name);
+      setPresetMessage(isSaved
+        ? { text: `Imported ${presets.length} preset${presets.length > 1 ? "s" : ""}.`, isError: false }
+        : { text: "Could not write to local storage (loaded the first preset only).", isError: true });
+    } catch (e) {
+      if (!(e instanceof PresetError)) throw e;
+      setPresetMessage({ text: e.message, isError: true });
+    }
+  };
+
+  const handleShareLink = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${encodePresetHash(currentSnapshot())}`;
+    window.history.replaceState(null, "", url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setPresetMessage({ text: "Link copied to clipboard.", isError: false });
+    } catch {
+      setPresetMessage({ text: "Link written to the address bar.", isError: false });
+    }
+  };
+
+  // 起動時: 共有リンク (URL ハッシュ) があればそれを開き、保存したプリセットを読み込む
+  useEffect(() => {
+    const restoreFromHash = () => {
+      const { hash } = window.location;
+      if (!hash.startsWith(HASH_PREFIX)) return;
+      try {
+        applySnapshot(decodePresetHash(hash));
+      } catch (e) {
+        console.warn("Shared preset ignored:", e);
+      }
+    };
+    restoreFromHash();
+    setUserPresets(listUserPresets());
+    restoredRef.current = true;
+    window.addEventListener("hashchange", restoreFromHash);
+    return () => window.removeEventListener("hashchange", restoreFromHash);
+  }, [applySnapshot]);
+
+  // 編集が落ち着いたら URL に今の設定を書いておく (再読み込みしても消えない)
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    const timerId = setTimeout(() => {
+      const snapshot: Snapshot = { config, view: viewMode, style, seed, generation, animation };
+      window.history.replaceState(null, "", `${window.location.pathname}${encodePresetHash(snapshot)}`);
+    }, 800);
+    return () => clearTimeout(timerId);
+  }, [config, viewMode, style, seed, generation, animation]);
+
+  const dollyBy = (factor: number) => {
+    setOrbit(prev => ({ ...prev, dolly: Math.max(0.05, Math.min(50, prev.dolly * factor)) }));
   };
 
   // --- マウスホイールでのズーム (修正版: 正確な位置維持) ---
@@ -187,6 +479,11 @@ export default function LSystemEditor() {
     // 拡大縮小の感度
     const zoomSensitivity = 0.001;
     const zoomFactor = Math.exp(-e.deltaY * zoomSensitivity);
+    // 3D ではカメラを寄せるだけ (注視点は植物の中心のまま)
+    if (viewMode === "3d") {
+      dollyBy(zoomFactor);
+      return;
+    }
     const newScale = Math.max(0.01, Math.min(100, scale * zoomFactor));
 
     // マウス位置を取得
@@ -254,6 +551,11 @@ export default function LSystemEditor() {
       
       // 距離の比率でスケール変更
       const ratio = dist / lastPinchDistRef.current;
+      if (viewMode === "3d") {
+        dollyBy(ratio);
+        lastPinchDistRef.current = dist;
+        return;
+      }
       const newScale = Math.max(0.01, Math.min(100, scale * ratio));
       
       // ズーム中心の計算 (Wheelと同じロジック)
@@ -282,7 +584,16 @@ export default function LSystemEditor() {
     const deltaX = clientX - lastMousePosRef.current.x;
     const deltaY = clientY - lastMousePosRef.current.y;
     
-    setPan(prev => ({ x: prev.x + deltaX, y: prev.y + deltaY }));
+    // 3D では注視点のまわりを回る (上下は真上・真下の手前まで)
+    if (viewMode === "3d") {
+      setOrbit(prev => ({
+        ...prev,
+        yaw: prev.yaw + deltaX * ORBIT_SENSITIVITY,
+        pitch: Math.max(-MAX_PITCH, Math.min(MAX_PITCH, prev.pitch + deltaY * ORBIT_SENSITIVITY))
+      }));
+    } else {
+      setPan(prev => ({ x: prev.x + deltaX, y: prev.y + deltaY }));
+    }
     lastMousePosRef.current = { x: clientX, y: clientY };
   };
 
@@ -316,39 +627,67 @@ export default function LSystemEditor() {
       {/* 現在の倍率表示のみ残す */}
       <div className="absolute right-4 bottom-32 z-30 pointer-events-none">
         <div className="text-center text-[10px] bg-black/50 text-cyan-400 rounded px-2 py-1 backdrop-blur border border-cyan-900/30">
-            ZOOM: x{scale.toFixed(2)}
+            ZOOM: x{(viewMode === "3d" ? orbit.dolly : scale).toFixed(2)}
         </div>
       </div>
 
       {/* コントロールパネル (常時表示部分) */}
       <div className="absolute bottom-0 w-full bg-black/80 backdrop-blur border-t border-cyan-900 p-4 pb-8 z-20 flex flex-col gap-4">
         
-        {/* 世代スライダー (上限を8に変更) */}
+        {/* 世代スライダー (大きな世代は線分の予算で止まる) */}
         <div className="flex items-center gap-4">
           <span className="text-xs w-12 text-gray-500">GEN:{generation}</span>
           <input 
-            type="range" min="0" max="8" step="1" 
+            type="range" min="0" max={MAX_GENERATION} step="1" 
             value={generation}
             onChange={(e) => setGeneration(Number(e.target.value))}
             className="flex-grow accent-cyan-500 h-2 bg-gray-800 rounded-lg appearance-none cursor-pointer"
           />
         </div>
 
+        {/* 展開の進み具合 */}
+        <div className="flex items-center gap-4 text-[10px]">
+          <div className="flex-grow h-1 bg-gray-800 rounded overflow-hidden">
+            <div className={`h-full ${build.status === "budget" ? "bg-amber-500" : "bg-cyan-500"}`}
+              style={{ width: `${Math.round(build.progress * 100)}%` }} />
+          </div>
+          <span className={build.status === "budget" ? "text-amber-400" : "text-gray-500"}>
+            {build.status === "building" && `GROWING ${Math.round(build.progress * 100)}% · `}
+            {build.segments.toLocaleString("en-US")} SEGMENTS
+            {build.status === "budget" && ` · BUDGET HIT AT ${Math.round(build.progress * 100)}%`}
+          </span>
+        </div>
+
         {/* ボタン列 */}
         <div className="flex justify-between items-center">
           <select 
             className="bg-gray-900 border border-cyan-800 text-xs text-cyan-400 py-2 px-3 rounded focus:outline-none"
-            onChange={(e) => applyPreset(e.target.value)}
+            value={presetKey}
+            onChange={(e) => handlePresetSelect(e.target.value)}
           >
+            <option value={CUSTOM_PRESET} disabled>Custom</option>
             {Object.keys(PRESETS).map(name => <option key={name} value={name}>{name}</option>)}
+            {userPresets.length > 0 && (
+              <optgroup label="MY PRESETS">
+                {userPresets.map(({ name }) => <option key={name} value={`${USER_PRESET_PREFIX}${name}`}>{name}</option>)}
+              </optgroup>
+            )}
           </select>
 
-          <button 
-            onClick={() => setIsPanelOpen(!isPanelOpen)}
-            className={`text-xs px-4 py-2 border rounded transition-colors ${isPanelOpen ? "bg-cyan-900 border-cyan-500 text-white" : "border-cyan-800 text-cyan-500"}`}
-          >
-            {isPanelOpen ? "CLOSE EDITOR" : "CUSTOMIZE"}
-          </button>
+          <div className="flex gap-2">
+            <button
+              onClick={() => setViewMode(viewMode === "2d" ? "3d" : "2d")}
+              className={`text-xs px-4 py-2 border rounded transition-colors ${viewMode === "3d" ? "bg-cyan-900 border-cyan-500 text-white" : "border-cyan-800 text-cyan-500"}`}
+            >
+              {viewMode === "3d" ? "3D" : "2D"}
+            </button>
+            <button 
+              onClick={() => setIsPanelOpen(!isPanelOpen)}
+              className={`text-xs px-4 py-2 border rounded transition-colors ${isPanelOpen ? "bg-cyan-900 border-cyan-500 text-white" : "border-cyan-800 text-cyan-500"}`}
+            >
+              {isPanelOpen ? "CLOSE EDITOR" : "CUSTOMIZE"}
+            </button>
+          </div>
         </div>
       </div>
 
@@ -367,15 +706,17 @@ export default function LSystemEditor() {
               <label className="text-[10px] text-gray-500 block mb-1">AXIOM (START)</label>
               <input 
                 type="text" value={config.axiom}
-                onChange={(e) => setConfig({...config, axiom: e.target.value})}
-                className="w-full bg-gray-900 border border-cyan-900 p-2 text-xs rounded text-white focus:border-cyan-500 focus:outline-none"
+                onChange={(e) => editConfig({ axiom: e.target.value })}
+                className={`w-full bg-gray-900 border p-2 text-xs rounded text-white focus:border-cyan-500 focus:outline-none ${
+                  lineSeverity.get(-1) === "error" ? "border-red-500" : lineSeverity.get(-1) === "warning" ? "border-amber-500" : "border-cyan-900"
+                }`}
               />
             </div>
             <div>
               <label className="text-[10px] text-gray-500 block mb-1">ANGLE: {config.angle}°</label>
               <input 
                 type="range" min="0" max="180" value={config.angle}
-                onChange={(e) => setConfig({...config, angle: Number(e.target.value)})}
+                onChange={(e) => editConfig({ angle: Number(e.target.value) })}
                 className="w-full accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
               />
             </div>
@@ -383,28 +724,241 @@ export default function LSystemEditor() {
               <label className="text-[10px] text-gray-500 block mb-1">BASE LENGTH: {config.initialLength}</label>
               <input 
                 type="range" min="10" max="200" value={config.initialLength}
-                onChange={(e) => setConfig({...config, initialLength: Number(e.target.value)})}
+                onChange={(e) => editConfig({ initialLength: Number(e.target.value) })}
+                className="w-full accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
+              />
+            </div>
+            <div>
+              <label className="text-[10px] text-gray-500 block mb-1">LENGTH DECAY: {(config.lengthDecay ?? 1).toFixed(2)}</label>
+              <input
+                type="range" min="0.5" max="1" step="0.01" value={config.lengthDecay ?? 1}
+                onChange={(e) => editConfig({ lengthDecay: Number(e.target.value) })}
                 className="w-full accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
               />
             </div>
+            <div>
+              <label className="text-[10px] text-gray-500 block mb-1">BUDGET (SEGMENTS)</label>
+              <select
+                value={budget}
+                onChange={(e) => setBudget(Number(e.target.value))}
+                className="w-full bg-gray-900 border border-cyan-900 p-2 text-xs rounded text-white focus:border-cyan-500 focus:outline-none"
+              >
+                {SEGMENT_BUDGETS.map(value => <option key={value} value={value}>{value.toLocaleString("en-US")}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="text-[10px] text-gray-500 block mb-1">SEED (RANDOM RULES)</label>
+              <div className="flex gap-2">
+                <input
+                  type="number" min="0" max={2 ** 32 - 1} value={seed}
+                  onChange={(e) => setSeed(normalizeSeed(Number(e.target.value) || 0))}
+                  className="w-full bg-gray-900 border border-cyan-900 p-2 text-xs rounded text-white focus:border-cyan-500 focus:outline-none"
+                />
+                <button
+                  onClick={() => setSeed(Math.floor(Math.random() * 2 ** 31))}
+                  className="text-[10px] px-2 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500"
+                >
+                  DICE
+                </button>
+              </div>
+            </div>
           </div>
 
           {/* 右カラム: ルールエディタ */}
           <div>
             <label className="text-[10px] text-gray-500 block mb-1">RULES (e.g. F=F[+F])</label>
-            <textarea 
-              value={config.rules}
-              onChange={(e) => setConfig({...config, rules: e.target.value})}
-              className="w-full h-24 bg-gray-900 border border-cyan-900 p-2 text-xs rounded text-white font-mono focus:border-cyan-500 focus:outline-none resize-none"
-            />
+            <div className="relative h-24">
+              {/* 指摘のある行に色をつける (テキストエリアの後ろに同じ折り返しで行を並べる) */}
+              <div
+                ref={rulesBackdropRef}
+                aria-hidden
+                className="absolute inset-0 overflow-hidden bg-gray-900 border border-transparent p-2 text-xs rounded font-mono text-transparent whitespace-pre-wrap break-words"
+              >
+                {config.rules.split("\n").map((line, index) => (
+                  <div
+                    key={index}
+                    className={lineSeverity.get(index) === "error" ? "bg-red-900/60" : lineSeverity.get(index) === "warning" ? "bg-amber-900/50" : ""}
+                  >
+                    {line || " "}
+                  </div>
+                ))}
+              </div>
+              <textarea 
+                value={config.rules}
+                onChange={(e) => editConfig({ rules: e.target.value })}
+                onScroll={(e) => {
+                  if (rulesBackdropRef.current) rulesBackdropRef.current.scrollTop = e.currentTarget.scrollTop;
+                }}
+                spellCheck={false}
+                className="relative w-full h-full bg-transparent border border-cyan-900 p-2 text-xs rounded text-white font-mono focus:border-cyan-500 focus:outline-none resize-none"
+              />
+            </div>
+            {diagnostics.slice(0, 3).map(({ line, severity, message }, index) => (
+              <p key={index} className={`mt-1 text-[10px] ${severity === "error" ? "text-red-400" : "text-amber-400"}`}>
+                {line < 0 ? "AXIOM" : `L${line + 1}`}: {message}
+              </p>
+            ))}
+            {diagnostics.length > 3 && <p className="text-[10px] text-gray-500">+{diagnostics.length - 3} more</p>}
             {/* チートシート */}
             <div className="mt-2 text-[10px] text-gray-600 grid grid-cols-2 gap-1">
               <span>F: Draw</span> <span>+: Right</span>
               <span>-: Left</span> <span>[: Save</span>
-              <span>]: Return</span>
+              <span>]: Return</span> <span>A(x): Params</span>
+              <span>(0.5)X|(0.5)Y: Random</span> <span>A&lt;B&gt;C: Context</span>
+              <span>A(x):x&gt;1=...: Condition</span> <span>&amp; ^: Pitch (3D)</span>
+              <span>\ /: Roll (3D)</span> <span>|: Turn Back</span>
+              <span>! #: Thinner / Thicker</span> <span>&apos;: Next Color</span>
+              <span>{"{ . }"}: Leaf (Fill)</span>
             </div>
           </div>
         </div>
+
+        {/* 色と太さ */}
+        <div className="max-w-lg mx-auto mt-4 flex flex-wrap items-center gap-2 text-[10px]">
+          <span className="text-gray-500">STYLE</span>
+          <select
+            value={style.palette}
+            onChange={(e) => setStyle({...style, palette: e.target.value})}
+            className="bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+            aria-label="Palette"
+          >
+            {Object.keys(PALETTES).map(name => <option key={name} value={name}>{name.toUpperCase()}</option>)}
+          </select>
+          <select
+            value={style.colorBy}
+            onChange={(e) => setStyle({...style, colorBy: e.target.value as ColorBy})}
+            className="bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+            aria-label="Color by"
+          >
+            <option value="depth">BY DEPTH</option>
+            <option value="order">BY ORDER</option>
+            <option value="symbol">BY &apos; SYMBOL</option>
+          </select>
+          <label className="flex flex-grow items-center gap-2 text-gray-500">
+            TAPER: {style.taper.toFixed(2)}
+            <input
+              type="range" min="0.5" max="1" step="0.05" value={style.taper}
+              onChange={(e) => setStyle({...style, taper: Number(e.target.value)})}
+              className="flex-grow accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
+            />
+          </label>
+        </div>
+
+        {/* アニメーション */}
+        <div className="max-w-lg mx-auto mt-4 flex flex-wrap items-center gap-2 text-[10px]">
+          <span className="text-gray-500">ANIMATE</span>
+          <select
+            value={animation.playback}
+            onChange={(e) => setAnimation({...animation, playback: e.target.value as Playback})}
+            className="bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+            aria-label="Playback"
+          >
+            <option value="off">STILL</option>
+            <option value="grow">GROW</option>
+            <option value="morph">MORPH GENERATIONS</option>
+          </select>
+          <label className="flex items-center gap-2 text-gray-500">
+            {animation.playback === "morph" ? "SEC/GEN" : "SEC"}: {animation.duration}
+            <input
+              type="range" min="1" max="20" step="1" value={animation.duration}
+              onChange={(e) => setAnimation({...animation, duration: Number(e.target.value)})}
+              className="w-16 accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-500">
+            WIND: {animation.wind}°
+            <input
+              type="range" min="0" max="15" step="1" value={animation.wind}
+              onChange={(e) => setAnimation({...animation, wind: Number(e.target.value)})}
+              className="w-16 accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-500">
+            SWAY: {animation.windSpeed.toFixed(1)}Hz
+            <input
+              type="range" min="0.1" max="2" step="0.1" value={animation.windSpeed}
+              onChange={(e) => setAnimation({...animation, windSpeed: Number(e.target.value)})}
+              className="w-16 accent-cyan-500 h-1 bg-gray-800 rounded appearance-none"
+            />
+          </label>
+          {isAnimated(animation) && (
+            <span className="text-gray-500">
+              {streams ? `LOOP ${cycleLength(animation, generation).toFixed(1)}s` : "PREPARING..."}
+              {streams && [...streams.values()].some(stream => stream.isOverBudget) &&
+                ` · FIRST ${ANIMATION_BUDGET.toLocaleString("en-US")} SEGMENTS`}
+            </span>
+          )}
+        </div>
+
+        {/* プリセットの保存・読み込み・共有 */}
+        <div className="max-w-lg mx-auto mt-4 flex flex-wrap items-center gap-2 text-[10px]">
+          <span className="text-gray-500">PRESET</span>
+          <input
+            type="text" value={presetName} placeholder="NAME"
+            onChange={(e) => setPresetName(e.target.value)}
+            className="w-28 bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+          />
+          <button onClick={handleSavePreset} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">SAVE</button>
+          <button onClick={handleDeletePreset} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">DELETE</button>
+          <button onClick={handleExportPresets} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">EXPORT JSON</button>
+          <label className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500 cursor-pointer">
+            IMPORT JSON
+            <input
+              type="file" accept="application/json,.json" className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) handleImportPresets(file);
+                e.target.value = ""; // 同じファイルをもう一度選べるように
+              }}
+            />
+          </label>
+          <button onClick={handleShareLink} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">SHARE LINK</button>
+          {presetMessage && (
+            <span className={`w-full ${presetMessage.isError ? "text-red-400" : "text-gray-500"}`}>{presetMessage.text}</span>
+          )}
+        </div>
+
+        {/* 書き出し */}
+        <div className="max-w-lg mx-auto mt-4 flex flex-wrap items-center gap-2 text-[10px]">
+          <span className="text-gray-500">EXPORT</span>
+          <select
+            value={exportScope}
+            onChange={(e) => setExportScope(e.target.value as ExportScope)}
+            className="bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+          >
+            <option value="view">CURRENT VIEW</option>
+            <option value="figure">WHOLE FIGURE</option>
+          </select>
+          <button onClick={() => handleExport("svg")} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">SVG</button>
+          <button onClick={() => handleExport("png")} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">PNG</button>
+          <select
+            value={pngScale}
+            onChange={(e) => setPngScale(Number(e.target.value))}
+            className="bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+            aria-label="PNG resolution"
+          >
+            {PNG_SCALES.map(value => <option key={value} value={value}>x{value}</option>)}
+          </select>
+          <button onClick={() => handleExport("gcode")} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">G-CODE</button>
+          <button onClick={() => handleExport("hpgl")} className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500">HPGL</button>
+          <button
+            onClick={handleExportFrames}
+            disabled={isRecording}
+            className="px-2 py-1 border border-cyan-800 rounded text-cyan-500 hover:border-cyan-500 disabled:opacity-40"
+          >
+            FRAMES
+          </button>
+          <label className="flex items-center gap-1 text-gray-500">
+            WIDTH
+            <input
+              type="number" min="10" value={plotWidth}
+              onChange={(e) => setPlotWidth(Math.max(10, Number(e.target.value) || DEFAULT_PLOT_WIDTH))}
+              className="w-16 bg-gray-900 border border-cyan-900 p-1 rounded text-white focus:border-cyan-500 focus:outline-none"
+            />
+            mm
+          </label>
+          {exportMessage && <span className="w-full text-gray-500">{exportMessage}</span>}
+        </div>
       </div>
 
     </div>
@@ -0,0 +1,312 @@
+// --- Presets ---
+// 組み込みのプリセットと、ユーザーが保存したプリセット (localStorage)・JSON ファイル・共有リンク (URL ハッシュ)。
+// 読み込むときは必ず sanitizeSnapshot を通し、壊れた入力で画面を落とさない
+
+import { AnimationSettings, DEFAULT_ANIMATION, Playback } from "./animation";
+import { ColorBy, DEFAULT_STYLE, PALETTES, Style, ViewMode } from "./render";
+
+export type LSystemConfig = {
+  axiom: string;
+  rules: string;
+  angle: number;
+  initialLength: number;
+  lengthDecay?: number; // 枝が1段深くなるごとに長さに掛ける (省略時 1)
+  startOffset: { x: number; y: number };
+};
+
+// 組み込みのプリセットは見た目の指定を省ける (省いた所は既定値)
+export type Preset = LSystemConfig & { view?: ViewMode; style?: Partial<Style> };
+
+// 保存・共有する設定一式
+export type Snapshot = {
+  config: LSystemConfig;
+  view: ViewMode;
+  style: Style;
+  seed: number;
+  generation: number;
+  animation: AnimationSettings;
+};
+
+export type SavedPreset = { name: string; savedAt: string; snapshot: Snapshot };
+
+export const PRESETS: Record<string, Preset> = {
+  "Standard Tree": {
+    axiom: "F",
+    rules: "F=F[+F]-F",
+    angle: 45,
+    initialLength: 50, 
+    startOffset: { x: 0.5, y: 0.8 }, 
+  },
+  "Complex Bush": {
+    axiom: "F",
+    rules: "F=F[+F]F[-F]F",
+    angle: 25,
+    initialLength: 30,
+    startOffset: { x: 0.5, y: 0.8 },
+  },
+  "Dragon Curve": {
+    axiom: "FX",
+    rules: "X=X+YF+\nY=-FX-Y",
+    angle: 90,
+    initialLength: 10,
+    startOffset: { x: 0.5, y: 0.5 },
+  },
+  "Sierpinski": {
+    axiom: "F-G-G",
+    rules: "F=F-G+F+G-F\nG=GG",
+    angle: 120,
+    initialLength: 10,
+    startOffset: { x: 0.2, y: 0.7 },
+  },
+  "Stochastic Weed": {
+    axiom: "F",
+    rules: "F=(0.33)F[+F]F[-F]F | (0.33)F[+F]F | (0.34)F[-F]F",
+    angle: 26,
+    initialLength: 12,
+    startOffset: { x: 0.5, y: 0.85 },
+  },
+  "Parametric Tree": {
+    axiom: "A(120)",
+    rules: "A(l):l>4=F(l)[+A(l*0.65)][-A(l*0.65)]",
+    angle: 30,
+    initialLength: 10,
+    startOffset: { x: 0.5, y: 0.85 },
+  },
+  "Context Signal": {
+    axiom: "F1F1F1",
+    rules: "#ignore +-F\n0<0>0=0\n0<0>1=1[+F1F1]\n0<1>0=1\n0<1>1=1\n1<0>0=0\n1<0>1=1F1\n1<1>0=0\n1<1>1=0\n+=-\n-=+",
+    angle: 22,
+    initialLength: 10,
+    startOffset: { x: 0.5, y: 0.85 },
+  },
+  "3D Bush": {
+    axiom: "A",
+    rules: "A=[&FA]/////[&FA]///////[&FA]\nF=S/////F\nS=F",
+    angle: 22,
+    initialLength: 10,
+    startOffset: { x: 0.5, y: 0.85 },
+    view: "3d",
+  },
+  "Leafy Tree": {
+    axiom: "X",
+    rules: "X=F[+X][-X]FX[+L][-L]\nF=FF\nL=[{.+(30)G.-(60)G.-(120)G.}]",
+    angle: 25,
+    initialLength: 4,
+    lengthDecay: 0.9,
+    startOffset: { x: 0.5, y: 0.9 },
+    style: { palette: "Forest", colorBy: "depth", taper: 0.75 },
+  },
+  "Autumn Fan": {
+    axiom: "#(3)A",
+    rules: "A=F[+!'A][-!'A]",
+    angle: 25,
+    initialLength: 90,
+    lengthDecay: 0.75,
+    startOffset: { x: 0.5, y: 0.9 },
+    style: { palette: "Autumn", colorBy: "symbol" },
+  },
+};
+
+export const DEFAULT_SEED = 1;
+// 種は乱数 (createRng) と同じく 32bit の符号なし整数にそろえる。入力欄・読み込みのどちらもこれを通す
+export const normalizeSeed = (value: number) => Math.floor(value) >>> 0;
+export const MAX_GENERATION = 30; // 大きな世代は予算で止まる
+
+export const PRESET_FORMAT = "lsystem-presets";
+export const PRESET_VERSION = 1;
+const STORAGE_KEY = "lsystem:presets";
+export const HASH_PREFIX = "#p=";
+const MAX_TEXT = 10_000; // 公理・ルールの文字数の上限
+
+export class PresetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PresetError";
+  }
+}
+
+// --- バリデーション (足りない値は既定値で埋め、範囲外はクランプ) ---
+const COLOR_BY: ColorBy[] = ["depth", "order", "symbol"];
+const PLAYBACKS: Playback[] = ["off", "grow", "morph"];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const clamp = (value: unknown, min: number, max: number, fallback: number) => {
+  const num = Number(value);
+  if (value === null || value === "" || !Number.isFinite(num)) return fallback;
+  return Math.max(min, Math.min(max, num));
+};
+
+const oneOf = <T extends string>(value: unknown, options: T[], fallback: T) =>
+  options.includes(value as T) ? (value as T) : fallback;
+
+export const sanitizeSnapshot = (raw: unknown): Snapshot => {
+  if (!isRecord(raw)) throw new PresetError("Preset must be an object.");
+  const config = isRecord(raw.config) ? raw.config : {};
+  if (typeof config.axiom !== "string" || typeof config.rules !== "string") {
+    throw new PresetError("Preset needs an axiom and rules.");
+  }
+  const offset = isRecord(config.startOffset) ? config.startOffset : {};
+  const style = isRecord(raw.style) ? raw.style : {};
+  const animation = isRecord(raw.animation) ? raw.animation : {};
+  return {
+    config: {
+      axiom: config.axiom.slice(0, MAX_TEXT),
+      rules: config.rules.slice(0, MAX_TEXT),
+      angle: clamp(config.angle, 0, 180, 25),
+      initialLength: clamp(config.initialLength, 0.1, 1000, 10),
+      lengthDecay: clamp(config.lengthDecay, 0.1, 1, 1),
+      startOffset: { x: clamp(offset.x, 0, 1, 0.5), y: clamp(offset.y, 0, 1, 0.8) }
+    },
+    view: raw.view === "3d" ? "3d" : "2d",
+    style: {
+      palette: typeof style.palette === "string" && Object.hasOwn(PALETTES, style.palette) ? style.palette : DEFAULT_STYLE.palette,
+      colorBy: oneOf(style.colorBy, COLOR_BY, DEFAULT_STYLE.colorBy),
+      taper: clamp(style.taper, 0.1, 1, DEFAULT_STYLE.taper)
+    },
+    seed: normalizeSeed(clamp(raw.seed, -Infinity, Infinity, DEFAULT_SEED)),
+    generation: Math.round(clamp(raw.generation, 0, MAX_GENERATION, 0)),
+    animation: {
+      playback: oneOf(animation.playback, PLAYBACKS, DEFAULT_ANIMATION.playback),
+      duration: clamp(animation.duration, 1, 20, DEFAULT_ANIMATION.duration),
+      wind: clamp(animation.wind, 0, 15, DEFAULT_ANIMATION.wind),
+      windSpeed: clamp(animation.windSpeed, 0.1, 2, DEFAULT_ANIMATION.windSpeed)
+    }
+  };
+};
+
+// --- JSON ファイル ---
+// { format, version, presets: [{ name, savedAt, config, view, style, ... }] }。localStorage にも同じ形で入れる
+export const toPresetFile = (presets: SavedPreset[]) => JSON.stringify({
+  format: PRESET_FORMAT,
+  version: PRESET_VERSION,
+  presets: presets.map(({ name, savedAt, snapshot }) => ({ name, savedAt, ...snapshot }))
+}, null, 2);
+
+// 形式と版を確かめて、中のプリセットを (まだ確かめずに) 返す
+const readPresetEntries = (text: string): unknown[] => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new PresetError("Preset file is not valid JSON.");
+  }
+  if (!isRecord(raw) || raw.format !== PRESET_FORMAT) throw new PresetError("Not an L-system preset file.");
+  if (typeof raw.version !== "number" || raw.version > PRESET_VERSION) {
+    throw new PresetError(`Preset file version ${String(raw.version)} is not supported (${PRESET_VERSION}).`);
+  }
+  if (!Array.isArray(raw.presets)) throw new PresetError("Preset file has no presets.");
+  return raw.presets;
+};
+
+const parsePresetEntry = (entry: unknown, index: number): SavedPreset => {
+  const name = isRecord(entry) && typeof entry.name === "string" ? entry.name.trim() : "";
+  if (!isRecord(entry) || !name) throw new PresetError(`Preset #${index + 1} has no name.`);
+  return { name, savedAt: typeof entry.savedAt === "string" ? entry.savedAt : "", snapshot: sanitizeSnapshot(entry) };
+};
+
+export const parsePresetFile = (text: string): SavedPreset[] => readPresetEntries(text).map(parsePresetEntry);
+
+// --- 共有リンク ---
+// 設定一式を JSON にして base64url で URL ハッシュに入れる
+const toBase64Url = (bytes: Uint8Array) => {
+  let binary = "";
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+  const base64 = text.replace(/-/g, "+").replace(/_/g, "/");
+  let binary: string;
+  try {
+    binary = atob(base64 + "=".repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    throw new PresetError("Shared link is not valid base64.");
+  }
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+export const encodePresetHash = (snapshot: Snapshot) =>
+  HASH_PREFIX + toBase64Url(new TextEncoder().encode(JSON.stringify({ version: PRESET_VERSION, ...snapshot })));
+
+export const decodePresetHash = (hash: string) => {
+  if (!hash.startsWith(HASH_PREFIX)) throw new PresetError("Not a shared preset link.");
+  let raw: unknown;
+  try {
+    raw = JSON.parse(new TextDecoder().decode(fromBase64Url(hash.slice(HASH_PREFIX.length))));
+  } catch (e) {
+    if (e instanceof PresetError) throw e;
+    throw new PresetError("Shared link is broken.");
+  }
+  if (isRecord(raw) && typeof raw.version === "number" && raw.version > PRESET_VERSION) {
+    throw new PresetError(`Shared link version ${raw.version} is newer than supported (${PRESET_VERSION}).`);
+  }
+  return sanitizeSnapshot(raw);
+};
+
+// --- localStorage (名前付きのユーザープリセット) ---
+const getStorage = () => {
+  if (typeof window === "undefined") return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null; // プライベートモード等でアクセス不可
+  }
+};
+
+// 壊れたプリセットは1つずつ読み飛ばす。全体が読めない (新しい版など) ときは null を返し、上書きさせない
+const readUserPresets = (): SavedPreset[] | null => {
+  const text = getStorage()?.getItem(STORAGE_KEY);
+  if (!text) return [];
+  let entries: unknown[];
+  try {
+    entries = readPresetEntries(text);
+  } catch (e) {
+    console.warn("Saved presets could not be read:", e);
+    return null;
+  }
+  return entries.flatMap((entry, index) => {
+    try {
+      return [parsePresetEntry(entry, index)];
+    } catch (e) {
+      if (!(e instanceof PresetError)) throw e;
+      console.warn("Saved preset ignored:", e);
+      return [];
+    }
+  });
+};
+
+export const listUserPresets = (): SavedPreset[] =>
+  (readUserPresets() ?? []).sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+const writeUserPresets = (presets: SavedPreset[]) => {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(STORAGE_KEY, toPresetFile(presets));
+    return true;
+  } catch (e) {
+    console.warn("Preset storage write failed:", e);
+    return false;
+  }
+};
+
+// 同じ名前は上書きする。今の中身が読めなければ書かない (false)
+export const saveUserPresets = (incoming: SavedPreset[]) => {
+  const stored = readUserPresets();
+  if (!stored) return false;
+  const names = new Set(incoming.map(preset => preset.name));
+  return writeUserPresets([...incoming, ...stored.filter(preset => !names.has(preset.name))]);
+};
+
+export const saveUserPreset = (name: string, snapshot: Snapshot) => {
+  const key = name.trim();
+  if (!key) throw new PresetError("Preset name is empty.");
+  return saveUserPresets([{ name: key, savedAt: new Date().toISOString(), snapshot }]);
+};
+
+export const deleteUserPreset = (name: string) => {
+  const stored = readUserPresets();
+  return stored !== null && writeUserPresets(stored.filter(preset => preset.name !== name));
+};
@@ -0,0 +1,209 @@
+// --- 表示 ---
+// 亀の線分を画面の座標へ写す。キャンバスへの描画も書き出し (SVG・PNG・プロッタ) も同じ写し方を使う。
+// 色はパレットのグラデーションから枝の深さ・描く順番・"'" の色番号で選び、太さは深さごとに細くする
+
+import { OrbitCamera, TurtleGeometry, Vec3, project } from "./turtle";
+
+// 2d: 画面に平らに描く (パン・ズーム), 3d: 透視投影 (ドラッグで回し、ホイールで寄る)
+export type ViewMode = "2d" | "3d";
+export type Orbit = { yaw: number; pitch: number; dolly: number };
+
+// root は 2D での根元の画面座標。3D では画面の中心に植物の中心が来る
+export type View = { mode: ViewMode; root: { x: number; y: number }; scale: number; orbit: Orbit };
+
+// 点 (source の offset 番目から3つ) を画面座標に直す。描けない (カメラの後ろ) なら false
+export type Projector = (source: ArrayLike<number>, offset: number, out: Vec3) => boolean;
+
+// 色の選び方。depth: 枝の深さ, order: 描く順番, symbol: "'" で進めた色番号
+export type ColorBy = "depth" | "order" | "symbol";
+// taper: 枝が1段深くなるごとに線の太さに掛ける
+export type Style = { palette: string; colorBy: ColorBy; taper: number };
+
+export const FIT_DISTANCE = 2.5; // dolly = 1 でのカメラの距離 (外接球の半径の何倍か)
+const NEAR_PLANE = 0.02; // カメラ距離に対する比。これより手前は描かない
+
+// 画面の見た目
+export const BACKGROUND = "#020408"; // 完全な黒よりわずかに青みのある黒
+const LINE_WIDTH = 1.5; // 太さの倍率 1 のときのピクセル数
+const STROKE_ALPHA = 0.6;
+const FILL_ALPHA = 0.35; // 面は重なると白く飛ぶので薄めに
+const PALETTE_STEPS = 32; // グラデーションを何段階の色で描くか (同じ色の線はまとめて描く)
+
+// 根元 (0) から先端 (1) へのグラデーション [r, g, b]
+export const PALETTES: Record<string, [number, number, number][]> = {
+  Cyan: [[6, 182, 212]], // Cyan-500
+  Forest: [[120, 72, 36], [84, 140, 52], [160, 230, 96]],
+  Autumn: [[110, 62, 34], [204, 68, 36], [250, 176, 48]],
+  Blossom: [[104, 64, 52], [226, 112, 168], [255, 226, 240]],
+  Spectrum: [[240, 64, 64], [240, 200, 64], [64, 220, 112], [64, 160, 240], [184, 88, 240]]
+};
+
+export const DEFAULT_STYLE: Style = { palette: "Cyan", colorBy: "depth", taper: 1 };
+
+export const createProjector = (geometry: TurtleGeometry, view: View, width: number, height: number): Projector => {
+  if (view.mode === "2d") {
+    // 奥行きは無視する
+    const { root, scale } = view;
+    return (source, offset, out) => {
+      out[0] = root.x + source[offset] * scale;
+      out[1] = root.y + source[offset + 1] * scale;
+      return true;
+    };
+  }
+  // 全体が収まる距離を基準に、dolly で寄る
+  const { min, max } = geometry;
+  const target: Vec3 = [(min[0] + max[0]) / 2, (min[1] + max[1]) / 2, (min[2] + max[2]) / 2];
+  const radius = Math.max(1, Math.hypot(max[0] - min[0], max[1] - min[1], max[2] - min[2]) / 2);
+  const camera: OrbitCamera = {
+    yaw: view.orbit.yaw, pitch: view.orbit.pitch, distance: (radius * FIT_DISTANCE) / view.orbit.dolly,
+    focal: Math.min(width, height), target
+  };
+  const near = camera.distance * NEAR_PLANE;
+  const centerX = width / 2;
+  const centerY = height / 2;
+  return (source, offset, out) => {
+    project(camera, source[offset], source[offset + 1], source[offset + 2], out);
+    out[0] += centerX;
+    out[1] += centerY;
+    return out[2] > near;
+  };
+};
+
+// つながった線分を折れ線 [x0, y0, x1, y1, ...] にまとめる。"]" で戻ったところとカメラの後ろで切る。
+// 面は輪郭を閉じた折れ線にする (プロッタでは塗れないので)
+export const collectPolylines = (geometry: TurtleGeometry, projector: Projector) => {
+  const { segments, strokes, count } = geometry;
+  const polylines: number[][] = [];
+  const a: Vec3 = [0, 0, 0];
+  const b: Vec3 = [0, 0, 0];
+  let current: number[] | null = null;
+  let k = 0;
+  for (let i = 0; i < count; i++) {
+    if (k + 1 < strokes.length && strokes[k + 1] === i) {
+      current = null;
+      k++;
+    }
+    if (!projector(segments, i * 6, a) || !projector(segments, i * 6 + 3, b)) {
+      current = null;
+      continue;
+    }
+    if (!current) {
+      current = [a[0], a[1]];
+      polylines.push(current);
+    }
+    current.push(b[0], b[1]);
+  }
+  for (const { vertices } of geometry.faces) {
+    const outline: number[] = [];
+    for (let j = 0; j <= vertices.length; j += 3) {
+      if (!projector(vertices, j % vertices.length, a)) break;
+      outline.push(a[0], a[1]);
+    }
+    if (outline.length === (vertices.length / 3 + 1) * 2) polylines.push(outline);
+  }
+  return polylines;
+};
+
+// --- 色と太さ ---
+const gradient = (stops: [number, number, number][], alpha: number) =>
+  Array.from({ length: PALETTE_STEPS }, (_, step) => {
+    const t = (step / (PALETTE_STEPS - 1)) * (stops.length - 1);
+    const index = Math.max(0, Math.min(stops.length - 2, Math.floor(t)));
+    const from = stops[index];
+    const to = stops[index + 1] ?? from;
+    const [r, g, b] = from.map((v, i) => Math.round(v + (to[i] - v) * (t - index)));
+    return `rgba(${r}, ${g}, ${b}, ${alpha})`;
+  });
+
+// 0..1 をグラデーションの段に直す
+const stepOf = (value: number, range: number) => (range > 0 ? Math.round((value / range) * (PALETTE_STEPS - 1)) : 0);
+
+// 線分と面を亀の順に描く。時間で区切って少しずつ描けるよう、続きから描く関数を返す (描き終えたら true)。
+// until まで描いたところで止まる (成長の再生用)。lineScale は線の太さに掛ける (高解像度の書き出し用)
+export const createPainter = (
+  ctx: CanvasRenderingContext2D, geometry: TurtleGeometry, projector: Projector, style: Style, lineScale = 1
+) => {
+  const { segments, widths, depths, colors, strokes, count, faces, maxDepth, maxColor } = geometry;
+  const stops = PALETTES[style.palette] ?? PALETTES[DEFAULT_STYLE.palette];
+  const strokeStyles = gradient(stops, STROKE_ALPHA);
+  const fillStyles = gradient(stops, FILL_ALPHA);
+  const colorOf = (index: number, total: number, depth: number, color: number) =>
+    style.colorBy === "depth" ? stepOf(depth, maxDepth)
+    : style.colorBy === "order" ? stepOf(index, total - 1)
+    : stepOf(color, maxColor);
+  // 太さは 1/4 ピクセル刻みにして、同じ太さの線をまとめて描けるようにする
+  const widthOf = (i: number) => Math.max(1, Math.round(LINE_WIDTH * widths[i] * style.taper ** depths[i] * 4)) / 4;
+
+  const a: Vec3 = [0, 0, 0];
+  const b: Vec3 = [0, 0, 0];
+  const fillFace = (index: number) => {
+    const { vertices, depth, color } = faces[index];
+    ctx.beginPath();
+    for (let j = 0; j < vertices.length; j += 3) {
+      if (!projector(vertices, j, a)) return;
+      if (j === 0) ctx.moveTo(a[0], a[1]);
+      else ctx.lineTo(a[0], a[1]);
+    }
+    ctx.fillStyle = fillStyles[colorOf(index, faces.length, depth, color)];
+    ctx.fill();
+  };
+
+  let face = 0; // 次に塗る面
+  let i = 0; // 次に描く線分
+  let k = 0; // i が属するまとまり (strokes の番号)
+  return (deadline: number, until = count) => {
+    const end = Math.min(count, until);
+    // 加算合成で光らせる
+    ctx.globalCompositeOperation = "lighter";
+    ctx.lineCap = "round";
+    ctx.lineJoin = "round";
+    let currentColor = "";
+    let currentWidth = -1;
+    let isOpen = false;
+    const flush = () => {
+      ctx.stroke();
+      ctx.beginPath();
+      isOpen = false;
+    };
+    ctx.beginPath();
+    for (;;) {
+      // ここまでの線分を引き終えてから閉じた面を塗る
+      if (face < faces.length && faces[face].segment <= i) {
+        flush();
+        fillFace(face++);
+        ctx.beginPath();
+        continue;
+      }
+      if (i >= end) break;
+      // "]" ごとにパスを一度切ることで、重なり部分の発光効果を最大限に活かす
+      if (k + 1 < strokes.length && strokes[k + 1] === i) {
+        flush();
+        k++;
+      }
+      // 単色のパレットでは段が違っても同じ色なので、文字列で比べる
+      const color = strokeStyles[colorOf(i, count, depths[i], colors[i])];
+      const width = widthOf(i);
+      if (color !== currentColor || width !== currentWidth) {
+        flush();
+        ctx.strokeStyle = color;
+        ctx.lineWidth = width * lineScale;
+        currentColor = color;
+        currentWidth = width;
+      }
+      // カメラの後ろに回った線分は飛ばし、次の線分から引き直す
+      if (projector(segments, i * 6, a) && projector(segments, i * 6 + 3, b)) {
+        if (!isOpen) ctx.moveTo(a[0], a[1]);
+        ctx.lineTo(b[0], b[1]);
+        isOpen = true;
+      } else {
+        isOpen = false;
+      }
+      i++;
+      if (i % 1024 === 0 && performance.now() > deadline) break;
+    }
+    ctx.stroke();
+    // 設定を戻す
+    ctx.globalCompositeOperation = "source-over";
+    return i >= count && face >= faces.length;
+  };
+};
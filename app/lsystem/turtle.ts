@@ -0,0 +1,227 @@
+// --- Turtle ---
+// 記号列を亀の動きとして読み、3D の線分にする。向きは H (進む方向), L, U の3軸で持つ。
+//   F G: 進んで線を引く (F(l) なら長さ l)
+//   + -: 左右に曲がる (U まわり)      & ^: 下・上を向く (L まわり)
+//   \ /: 左右に転がる (H まわり)      |: 後ろを向く
+//   [ ]: 状態を積む・戻す (入れ子の数が枝の深さ)
+//   ! #: 線を細く・太くする (!(w) #(w) なら太さ w)    ': 色番号を進める ('(c) なら c)
+//   { . }: 面を始める・頂点を置く・閉じて塗る (面の中では F G は線を引かずに進む)
+// 回転は +(a) のように角度 (度) を渡せる。座標は画面と同じく y が下向きで、
+// 2D のルール (+ - だけ) は z = 0 の平面に収まる。
+// 長さを渡さない F G は、枝が1段深くなるごとに lengthDecay 倍になる。
+// feed の growth (0..1) は長さと回転に掛かり、新しく生まれた枝を伸ばしながら開くのに使う
+
+import { Module } from "./grammar";
+
+// 亀が読む記号 (これ以外はルールのためだけの記号)
+export const COMMANDS = "FG+-&^\\/|[]!#'{}.";
+
+export type Vec3 = [number, number, number];
+
+// 塗りつぶす面。頂点は [x0, y0, z0, x1, y1, z1, ...]。segment はこの面より前に引いた線分の数 (描く順番)
+export type Face = { vertices: number[]; depth: number; color: number; segment: number };
+
+export type TurtleGeometry = {
+  segments: Float32Array; // [x0, y0, z0, x1, y1, z1, ...] (先頭 count 本ぶんが有効)
+  // 線分ごとの見た目 (先頭 count 本ぶんが有効)
+  widths: Float32Array; // "!" "#" で変えた太さ (倍率)
+  depths: Uint16Array; // 枝の深さ
+  colors: Uint16Array; // "'" で進めた色番号
+  count: number;
+  strokes: number[]; // 線をつないで描くまとまりの先頭の線分番号 ("]" で戻るたびに切る)
+  faces: Face[];
+  maxDepth: number;
+  maxColor: number;
+  min: Vec3;
+  max: Vec3;
+};
+
+type TurtleState = { position: Vec3; heading: Vec3; left: Vec3; up: Vec3; width: number; color: number };
+
+const DEG = Math.PI / 180;
+const INITIAL_CAPACITY = 1024; // 線分の数。足りなくなったら倍にする
+const WIDTH_STEP = 0.7; // 引数のない "!" で掛ける (# では割る)
+const MAX_COLOR = 0xffff;
+
+const grow = <T extends Float32Array | Uint16Array>(array: T, length: number): T => {
+  const grown = new (array.constructor as new (length: number) => T)(length);
+  grown.set(array);
+  return grown;
+};
+
+// a を b の方へ angle だけ回す (a, b は直交する単位ベクトル)
+const turn = (a: Vec3, b: Vec3, angle: number): [Vec3, Vec3] => {
+  const c = Math.cos(angle);
+  const s = Math.sin(angle);
+  return [
+    [a[0] * c + b[0] * s, a[1] * c + b[1] * s, a[2] * c + b[2] * s],
+    [b[0] * c - a[0] * s, b[1] * c - a[1] * s, b[2] * c - a[2] * s]
+  ];
+};
+
+// 記号を1つずつ受け取って線分を溜める (列全体を持たずに読める)
+export class Turtle {
+  geometry: TurtleGeometry = {
+    segments: new Float32Array(INITIAL_CAPACITY * 6),
+    widths: new Float32Array(INITIAL_CAPACITY),
+    depths: new Uint16Array(INITIAL_CAPACITY),
+    colors: new Uint16Array(INITIAL_CAPACITY),
+    count: 0, strokes: [0], faces: [], maxDepth: 0, maxColor: 0, min: [0, 0, 0], max: [0, 0, 0]
+  };
+  private angle: number;
+  private length: number;
+  private lengthDecay: number;
+  // 上向きに立ち、+ で画面の時計回りに曲がる (2D の描画と同じ)
+  private state: TurtleState = {
+    position: [0, 0, 0], heading: [0, -1, 0], left: [1, 0, 0], up: [0, 0, 1], width: 1, color: 0
+  };
+  private stack: TurtleState[] = [];
+  // 枝の深さごとに + - の回転へ足す角度 (度)。風で揺らすときに使う
+  sway: ((depth: number) => number) | null = null;
+  private polygons: number[][] = []; // 描きかけの面 ("{" の入れ子)
+
+  constructor(angle: number, length: number, lengthDecay = 1) {
+    this.angle = angle;
+    this.length = length;
+    this.lengthDecay = lengthDecay;
+  }
+
+  private extend(point: Vec3) {
+    const geometry = this.geometry;
+    for (let i = 0; i < 3; i++) {
+      if (point[i] < geometry.min[i]) geometry.min[i] = point[i];
+      if (point[i] > geometry.max[i]) geometry.max[i] = point[i];
+    }
+  }
+
+  // 次の線分は前の線分の終わりから始まらない
+  private breakStroke() {
+    const { strokes, count } = this.geometry;
+    if (strokes[strokes.length - 1] !== count) strokes.push(count);
+  }
+
+  private addSegment(from: Vec3, to: Vec3) {
+    const geometry = this.geometry;
+    if (geometry.count >= geometry.widths.length) {
+      const capacity = geometry.widths.length * 2;
+      geometry.segments = grow(geometry.segments, capacity * 6);
+      geometry.widths = grow(geometry.widths, capacity);
+      geometry.depths = grow(geometry.depths, capacity);
+      geometry.colors = grow(geometry.colors, capacity);
+    }
+    const { segments } = geometry;
+    const offset = geometry.count * 6;
+    segments[offset] = from[0];
+    segments[offset + 1] = from[1];
+    segments[offset + 2] = from[2];
+    segments[offset + 3] = to[0];
+    segments[offset + 4] = to[1];
+    segments[offset + 5] = to[2];
+    const depth = this.stack.length;
+    geometry.widths[geometry.count] = this.state.width;
+    geometry.depths[geometry.count] = depth;
+    geometry.colors[geometry.count] = this.state.color;
+    if (depth > geometry.maxDepth) geometry.maxDepth = depth;
+    geometry.count++;
+    this.extend(to);
+  }
+
+  feed({ symbol, params }: Module, growth = 1) {
+    const state = this.state;
+    const delta = (params[0] ?? this.angle) * DEG * growth;
+    switch (symbol) {
+      case "F":
+      case "G": {
+        const step = (params[0] ?? this.length * this.lengthDecay ** this.stack.length) * growth;
+        const [x, y, z] = state.position;
+        const { heading } = state;
+        const next: Vec3 = [x + heading[0] * step, y + heading[1] * step, z + heading[2] * step];
+        if (this.polygons.length === 0) {
+          this.addSegment(state.position, next);
+        } else {
+          this.breakStroke();
+          this.extend(next);
+        }
+        state.position = next;
+        break;
+      }
+      case "+":
+      case "-": {
+        // 揺れは向きによらず同じ側に足すので、左右の枝がそろってなびく
+        const sway = this.sway ? this.sway(this.stack.length) * DEG : 0;
+        [state.heading, state.left] = turn(state.heading, state.left, (symbol === "+" ? delta : -delta) + sway);
+        break;
+      }
+      case "&":
+      case "^":
+        [state.heading, state.up] = turn(state.heading, state.up, symbol === "&" ? delta : -delta);
+        break;
+      case "\\":
+      case "/":
+        [state.left, state.up] = turn(state.left, state.up, symbol === "\\" ? delta : -delta);
+        break;
+      case "|":
+        [state.heading, state.left] = turn(state.heading, state.left, Math.PI * growth);
+        break;
+      case "!":
+        state.width = Math.max(0, params[0] ?? state.width * WIDTH_STEP);
+        break;
+      case "#":
+        state.width = Math.max(0, params[0] ?? state.width / WIDTH_STEP);
+        break;
+      case "'": {
+        const color = Math.min(MAX_COLOR, Math.max(0, Math.round(params[0] ?? state.color + 1)));
+        state.color = color;
+        if (color > this.geometry.maxColor) this.geometry.maxColor = color;
+        break;
+      }
+      case "{":
+        this.polygons.push([]);
+        break;
+      case ".":
+        this.polygons[this.polygons.length - 1]?.push(...state.position);
+        break;
+      case "}": {
+        const vertices = this.polygons.pop();
+        if (vertices && vertices.length >= 9) {
+          const depth = this.stack.length;
+          this.geometry.faces.push({ vertices, depth, color: state.color, segment: this.geometry.count });
+          if (depth > this.geometry.maxDepth) this.geometry.maxDepth = depth;
+        }
+        break;
+      }
+      case "[":
+        // ベクトルは書き換えずに差し替えるので、浅い写しで足りる
+        this.stack.push({ ...state });
+        break;
+      case "]": {
+        const saved = this.stack.pop();
+        if (saved) this.state = saved;
+        this.breakStroke();
+        break;
+      }
+      default:
+        break;
+    }
+  }
+}
+
+// --- 透視投影 ---
+// 注視点のまわりを回るカメラ。yaw は縦軸まわり、pitch は見下ろす角度 (ラジアン)
+export type OrbitCamera = { yaw: number; pitch: number; distance: number; focal: number; target: Vec3 };
+
+// 画面中心からのずれ (x, y) と奥行きを out に書く。カメラの後ろは depth <= 0
+export const project = (camera: OrbitCamera, x: number, y: number, z: number, out: Vec3) => {
+  const dx = x - camera.target[0];
+  const dy = y - camera.target[1];
+  const dz = z - camera.target[2];
+  const cy = Math.cos(camera.yaw), sy = Math.sin(camera.yaw);
+  const cp = Math.cos(camera.pitch), sp = Math.sin(camera.pitch);
+  const rx = dx * cy - dz * sy;
+  const rz = dx * sy + dz * cy;
+  const ry = dy * cp - rz * sp;
+  const depth = camera.distance - (dy * sp + rz * cp);
+  out[0] = (rx * camera.focal) / depth;
+  out[1] = (ry * camera.focal) / depth;
+  out[2] = depth;
+};
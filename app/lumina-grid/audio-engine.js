@@ -0,0 +1,184 @@
+import { VOICES } from './voices';
+
+const REVERB_SECONDS = 2.4;
+const MAX_DELAY_SECONDS = 2;
+
+// 長さ倍率のサニタイズ (極端な値で無音・鳴りっぱなしにならないように)
+const sanitizeLength = (length) => (Number.isFinite(length) ? Math.max(0.05, Math.min(8, length)) : 1);
+
+// 減衰するステレオノイズをリバーブのインパルス応答にする
+const createImpulseResponse = (ctx, seconds) => {
+  const length = Math.ceil(ctx.sampleRate * seconds);
+  const buffer = ctx.createBuffer(2, length, ctx.sampleRate);
+  for (let ch = 0; ch < 2; ch++) {
+    const data = buffer.getChannelData(ch);
+    for (let i = 0; i < length; i++) data[i] = (Math.random() * 2 - 1) * Math.pow(1 - i / length, 3);
+  }
+  return buffer;
+};
+
+// --- Audio Engine (Enhanced Robustness) ---
+// context を渡すとそのコンテキスト (OfflineAudioContext など) 上で同じ音作りを行う
+export class AudioEngine {
+  constructor(context = null) {
+    this.ctx = null;
+    this.masterGain = null;
+    this.compressor = null;
+    this.isInitialized = false;
+    this.externalContext = context;
+    this.layerBuses = new Map();
+  }
+
+  // 安全な初期化: 何度呼んでも安全、SSR環境対応
+  init() {
+    if (!this.externalContext && typeof window === 'undefined') return;
+
+    try {
+      if (!this.ctx) {
+        if (this.externalContext) {
+          this.ctx = this.externalContext;
+        } else {
+          const AudioContext = window.AudioContext || window.webkitAudioContext;
+          if (!AudioContext) {
+            console.warn('Web Audio API is not supported in this browser.');
+            return;
+          }
+          this.ctx = new AudioContext();
+        }
+
+        // ダイナミクスコンプレッサー（音割れ防止・聴覚保護）
+        this.compressor = this.ctx.createDynamicsCompressor();
+        this.compressor.threshold.setValueAtTime(-24, this.ctx.currentTime);
+        this.compressor.knee.setValueAtTime(30, this.ctx.currentTime);
+        this.compressor.ratio.setValueAtTime(12, this.ctx.currentTime);
+        this.compressor.attack.setValueAtTime(0.003, this.ctx.currentTime);
+        this.compressor.release.setValueAtTime(0.25, this.ctx.currentTime);
+
+        this.masterGain = this.ctx.createGain();
+        this.masterGain.gain.value = 0.4; // 初期マスターボリューム
+
+        // チェーン接続: MasterGain -> Compressor -> Destination
+        this.masterGain.connect(this.compressor);
+        this.compressor.connect(this.ctx.destination);
+        this.setupEffects();
+
+        this.isInitialized = true;
+      }
+
+      // オフラインコンテキストは startRendering で動き出すので resume しない
+      if (!this.externalContext && this.ctx.state === 'suspended') {
+        this.ctx.resume().catch(err => console.error('Audio resume failed:', err));
+      }
+    } catch (e) {
+      console.error('AudioEngine initialization error:', e);
+    }
+  }
+
+  // リソースの破棄
+  dispose() {
+    if (this.ctx) {
+      try {
+        if (!this.externalContext) this.ctx.close();
+      } catch (e) {
+        // ignore close errors
+      }
+      this.ctx = null;
+      this.isInitialized = false;
+    }
+  }
+
+  // 安全な現在時刻取得
+  get currentTime() {
+    return this.ctx ? this.ctx.currentTime : 0;
+  }
+
+  // 予約時刻の正規化: 未指定・過去の時刻は「今すぐ」として扱う
+  resolveTime(when) {
+    const now = this.ctx.currentTime;
+    return Number.isFinite(when) && when > now ? when : now;
+  }
+
+  // --- Effects Buses ---
+  // 共有のリバーブ (生成したインパルス応答) とフィードバックディレイ。各レイヤーのバスから send する
+  setupEffects() {
+    const ctx = this.ctx;
+
+    this.reverb = ctx.createConvolver();
+    this.reverb.buffer = createImpulseResponse(ctx, REVERB_SECONDS);
+    this.reverbReturn = ctx.createGain();
+    this.reverbReturn.gain.value = 0.8;
+    this.reverb.connect(this.reverbReturn);
+    this.reverbReturn.connect(this.masterGain);
+
+    this.delay = ctx.createDelay(MAX_DELAY_SECONDS);
+    this.delay.delayTime.value = 0.375;
+    this.delayFeedback = ctx.createGain();
+    this.delayFeedback.gain.value = 0.35;
+    // 繰り返すたびに高域が落ちるようにフィードバック経路にローパスを挟む
+    this.delayTone = ctx.createBiquadFilter();
+    this.delayTone.type = 'lowpass';
+    this.delayTone.frequency.value = 3000;
+    this.delay.connect(this.delayTone);
+    this.delayTone.connect(this.delayFeedback);
+    this.delayFeedback.connect(this.delay);
+    this.delayReturn = ctx.createGain();
+    this.delayReturn.gain.value = 0.6;
+    this.delayTone.connect(this.delayReturn);
+    this.delayReturn.connect(this.masterGain);
+
+    this.layerBuses = new Map();
+  }
+
+  // テンポ同期用 (付点8分など)。再生中でもクリックしないよう短く補間する
+  setDelayTime(seconds) {
+    if (!this.delay || !Number.isFinite(seconds)) return;
+    const time = Math.max(0.01, Math.min(MAX_DELAY_SECONDS, seconds));
+    this.delay.delayTime.setTargetAtTime(time, this.ctx.currentTime, 0.05);
+  }
+
+  // レイヤーごとのバス: input -> master, input -> reverb send / delay send
+  getLayerBus(layerIdx) {
+    if (!this.layerBuses.has(layerIdx)) {
+      const input = this.ctx.createGain();
+      const reverbSend = this.ctx.createGain();
+      const delaySend = this.ctx.createGain();
+      reverbSend.gain.value = 0;
+      delaySend.gain.value = 0;
+      input.connect(this.masterGain);
+      input.connect(reverbSend);
+      input.connect(delaySend);
+      reverbSend.connect(this.reverb);
+      delaySend.connect(this.delay);
+      this.layerBuses.set(layerIdx, { input, reverbSend, delaySend });
+    }
+    return this.layerBuses.get(layerIdx);
+  }
+
+  // note: { patch, layerIdx, r, freq, volume, time, length, duration }
+  //   length: gate の倍率 (ドラムの減衰に使う), duration: 鍵盤を押している秒数 (シンセの ADSR に使う)
+  playNote({ patch, layerIdx = 0, r, freq, volume = 0.8, time, length = 1, duration = 0.125 }) {
+    if (!this.ctx || !this.isInitialized) return;
+
+    const voice = patch && VOICES[patch.voice];
+    if (!voice) return;
+
+    try {
+      const now = this.resolveTime(time);
+      const bus = this.getLayerBus(layerIdx);
+      bus.reverbSend.gain.setValueAtTime(patch.reverbSend, now);
+      bus.delaySend.gain.setValueAtTime(patch.delaySend, now);
+
+      voice.render(this.ctx, bus.input, patch, {
+        r,
+        freq,
+        // Volumeのサニタイズ (0.0 ~ 1.0)
+        volume: Math.max(0, Math.min(1, volume)),
+        now,
+        length: sanitizeLength(length),
+        duration: Number.isFinite(duration) ? Math.max(0.005, duration) : 0.125
+      });
+    } catch (e) {
+      console.warn(`Audio synthesis error (${voice.label}):`, e);
+    }
+  }
+}
@@ -0,0 +1,46 @@
+// --- Offline Bounce ---
+// 現在のパターン (ソングモードならチェーン) を OfflineAudioContext で N小節レンダリングし WAV にする。
+// 音作りはリアルタイム再生と同じ AudioEngine / getStepNotes を使う。
+
+import { AudioEngine } from './audio-engine';
+import { forEachArrangedStep, resolveHits, playHits } from './sequence';
+import { encodeWav, WAV_FORMATS } from './wav';
+import { getDelayTime } from './voices';
+import { TICKS_PER_BEAT, TICKS_PER_BAR } from './timing';
+
+export const BOUNCE_BAR_OPTIONS = Object.freeze([1, 2, 4, 8, 16, 32]);
+export const BOUNCE_SAMPLE_RATE = 48000;
+export const BOUNCE_TAIL_SEC = 3; // 最後のノートの余韻 (リバーブ・ディレイを含む)
+const CHANNEL_COUNT = 2;
+
+// state: { patterns, activePatternIdx, songMode, song, bpm, layerVolumes, layerPatches, layerSteps, layerDivisions, swing,
+//          scale, rootNote, layerTransposes }
+export const renderBars = (state, { bars, sampleRate = BOUNCE_SAMPLE_RATE, includeTail = false }) => {
+  const OfflineContext = typeof window !== 'undefined'
+    ? window.OfflineAudioContext || window.webkitOfflineAudioContext
+    : undefined;
+  if (!OfflineContext) {
+    return Promise.reject(new Error('Offline rendering is not supported in this browser.'));
+  }
+
+  const tickDuration = 60 / Math.max(1, state.bpm) / TICKS_PER_BEAT;
+  const totalTicks = Math.max(1, bars) * TICKS_PER_BAR;
+  const duration = totalTicks * tickDuration + (includeTail ? BOUNCE_TAIL_SEC : 0);
+  const ctx = new OfflineContext(CHANNEL_COUNT, Math.ceil(duration * sampleRate), sampleRate);
+
+  const engine = new AudioEngine(ctx);
+  engine.init();
+  if (!engine.isInitialized) return Promise.reject(new Error('Failed to set up the offline audio graph.'));
+  engine.setDelayTime(getDelayTime(state.bpm));
+
+  forEachArrangedStep(state, bars, (tick, notes) => playHits(engine, resolveHits(notes, tick * tickDuration, tickDuration)));
+
+  return ctx.startRendering();
+};
+
+export const bounceToWav = async (state, { format = WAV_FORMATS.PCM16, ...options }) => {
+  const buffer = await renderBars(state, options);
+  const channels = [];
+  for (let ch = 0; ch < buffer.numberOfChannels; ch++) channels.push(buffer.getChannelData(ch));
+  return new Blob([encodeWav(channels, buffer.sampleRate, format)], { type: 'audio/wav' });
+};
@@ -0,0 +1,20 @@
+// --- Constants (Frozen for immutability) ---
+export const CONSTANTS = Object.freeze({
+  ROWS: 16,
+  COLS: 16,
+  DEFAULT_BPM: 120,
+  MAX_EFFECTS: 150, // 安全装置: 描画負荷によるクラッシュ防止
+  MIN_BPM: 60,
+  MAX_BPM: 240,
+  FLOOR_Y: 15.5
+});
+
+// Layer Configurations
+export const LAYERS_CONFIG = [
+  { id: 0, name: 'LEAD', type: 'sine', color: '#60a5fa', baseOctave: 0 },
+  { id: 1, name: 'BASS', type: 'triangle', color: '#34d399', baseOctave: -1 },
+  { id: 2, name: 'DRUM', type: 'drum', color: '#f472b6', baseOctave: 0 },
+  { id: 3, name: 'CHRD', type: 'square', color: '#fbbf24', baseOctave: -0.5 }
+];
+
+export const EFFECT_TYPES = ['RIPPLE', 'GRAVITY', 'SPLASH', 'STAR'];
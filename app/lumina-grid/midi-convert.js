@@ -0,0 +1,214 @@
+// --- Grid <-> MIDI Conversion ---
+// グリッドを SMF (type 1: コンダクタートラック + レイヤーごとのトラック) に書き出し、
+// 逆に SMF を16分音符で量子化して現在のスケール上のグリッドへ読み込む。
+
+import { CONSTANTS, LAYERS_CONFIG } from './constants';
+import { PATTERN_SLOTS, createEmptyPattern } from './patterns';
+import { rowToFrequency } from './scales';
+import { forEachArrangedStep } from './sequence';
+import { DEFAULT_PPQ, MidiFileError } from './midi-file';
+import { createStep } from './steps';
+import { TICKS_PER_BEAT, MAX_STEPS } from './timing';
+
+const DRUM_CHANNEL = 9; // GM の10ch
+const DRUM_LAYER_IDX = LAYERS_CONFIG.findIndex(layer => layer.type === 'drum');
+const MELODIC_LAYER_IDXS = LAYERS_CONFIG.map((layer, idx) => idx).filter(idx => idx !== DRUM_LAYER_IDX);
+
+// 行 -> GMドラムのノート番号。エンジンの音色分け (上8行: ハット, 4行: スネア, 下4行: キック) に合わせる
+export const DRUM_NOTE_MAP = Object.freeze([
+  49, 57, 51, 53, 46, 56, 44, 42, // Crash, Crash 2, Ride, Ride Bell, Open HH, Cowbell, Pedal HH, Closed HH
+  39, 37, 40, 38,                 // Clap, Side Stick, Electric Snare, Acoustic Snare
+  47, 45, 35, 36                  // Low-Mid Tom, Low Tom, Acoustic Bass Drum, Bass Drum 1
+]);
+
+// 波形 -> GMプログラム番号 (0始まり)
+const GM_PROGRAMS = Object.freeze({ sine: 79, triangle: 38, square: 80, sawtooth: 81 });
+
+const freqToMidi = (freq) => 69 + 12 * Math.log2(freq / 440);
+export const velocityFromVolume = (volume) => Math.max(1, Math.min(127, Math.round(volume * 127)));
+
+// getStepNotes のノート -> MIDIノート番号 (ドラムは GM のドラムマップ)
+export const noteToMidiNumber = ({ layerIdx, r, freq }) => (
+  layerIdx === DRUM_LAYER_IDX
+    ? DRUM_NOTE_MAP[r]
+    : Math.max(0, Math.min(127, Math.round(freqToMidi(freq))))
+);
+
+// --- Export ---
+// state: 再生用の状態 (patterns, activePatternIdx, songMode, song, bpm, layerVolumes, layerPatches,
+//        layerSteps, layerDivisions, swing, scale, rootNote, layerTransposes)
+export const gridsToMidi = (state, bars) => {
+  const midiTicksPerTick = DEFAULT_PPQ / TICKS_PER_BEAT;
+
+  const conductor = {
+    name: 'Lumina Grid',
+    events: [
+      { tick: 0, type: 'tempo', bpm: state.bpm },
+      { tick: 0, type: 'timeSignature', numerator: 4, denominator: 4 }
+    ]
+  };
+
+  const layerTracks = LAYERS_CONFIG.map((layer, idx) => {
+    const channel = idx === DRUM_LAYER_IDX ? DRUM_CHANNEL : idx;
+    // 音色はパッチの波形から近い GM プログラムを選ぶ
+    const waveform = state.layerPatches?.[idx]?.waveform ?? layer.type;
+    const events = idx === DRUM_LAYER_IDX
+      ? []
+      : [{ tick: 0, type: 'program', channel, program: GM_PROGRAMS[waveform] ?? 0 }];
+    return { name: layer.name, channel, events };
+  });
+
+  // probability は書き出し時に確定させず、すべてのステップを書き出す (ラチェットは連打として展開)
+  forEachArrangedStep(state, bars, (tick, notes) => {
+    notes.forEach(note => {
+      const track = layerTracks[note.layerIdx];
+      const midiNote = noteToMidiNumber(note);
+      const velocity = velocityFromVolume(note.volume * note.velocity);
+      const start = (tick + note.delayTicks) * midiTicksPerTick;
+      const interval = (note.stepTicks * midiTicksPerTick) / note.ratchet;
+      const length = Math.max(1, Math.round(interval * note.gate));
+      for (let k = 0; k < note.ratchet; k++) {
+        const onTick = Math.round(start + k * interval);
+        track.events.push(
+          { tick: onTick, type: 'noteOn', channel: track.channel, note: midiNote, velocity },
+          { tick: onTick + length, type: 'noteOff', channel: track.channel, note: midiNote }
+        );
+      }
+    });
+  });
+
+  return { ppq: DEFAULT_PPQ, tracks: [conductor, ...layerTracks] };
+};
+
+// --- Import ---
+const drumNoteToRow = (note) => {
+  const row = DRUM_NOTE_MAP.indexOf(note);
+  if (row >= 0) return row;
+  // 未知のノートは GM の音域でおおまかに振り分ける
+  if (note <= 36) return CONSTANTS.ROWS - 1;
+  if (note <= 40) return 11;
+  return 7;
+};
+
+// 音高に最も近い行を探す。グリッドの音域外はオクターブ単位で折り返す
+const createPitchMapper = (tuning) => {
+  const rowPitches = [];
+  for (let r = 0; r < CONSTANTS.ROWS; r++) rowPitches.push(freqToMidi(rowToFrequency(r, tuning)));
+  const low = Math.min(...rowPitches);
+  const high = Math.max(...rowPitches);
+
+  return (note) => {
+    let pitch = note;
+    while (pitch < low - 0.5 && pitch + 12 <= high + 0.5) pitch += 12;
+    while (pitch > high + 0.5 && pitch - 12 >= low - 0.5) pitch -= 12;
+
+    let bestRow = 0;
+    let bestDist = Infinity;
+    rowPitches.forEach((p, r) => {
+      const dist = Math.abs(p - pitch);
+      if (dist < bestDist) {
+        bestDist = dist;
+        bestRow = r;
+      }
+    });
+    return bestRow;
+  };
+};
+
+// MIDIノート番号 -> レイヤーの行 (外部キーボードからの入力用)
+// tuning: { scale, rootNote, layerTransposes }
+export const createRowMapper = (layerIdx, { scale, rootNote, layerTransposes }) => {
+  if (layerIdx === DRUM_LAYER_IDX) return drumNoteToRow;
+  const layer = LAYERS_CONFIG[layerIdx];
+  return createPitchMapper({ scale, root: rootNote, transpose: layerTransposes[layerIdx] || 0, baseOctave: layer.baseOctave });
+};
+
+// トラック (format 0 はチャンネル) ごとにノートをまとめ、レイヤーを割り当てる。
+// noteOn には対応する noteOff までの長さ (length, tick) を付ける。閉じていないノートは1拍扱い
+const collectSources = (smf) => {
+  const sources = new Map();
+  smf.tracks.forEach((track, trackIdx) => {
+    const sounding = new Map();
+    track.events.forEach(event => {
+      if (event.type !== 'noteOn' && event.type !== 'noteOff') return;
+      const key = `${trackIdx}:${event.channel}`;
+      const pitchKey = `${event.channel}:${event.note}`;
+
+      if (event.type === 'noteOff') {
+        const pending = sounding.get(pitchKey);
+        if (pending && pending.length > 0) {
+          const note = pending.shift();
+          note.length = event.tick - note.tick;
+        }
+        return;
+      }
+
+      if (!sources.has(key)) sources.set(key, { name: track.name, channel: event.channel, notes: [] });
+      const note = { ...event, length: smf.ppq };
+      sources.get(key).notes.push(note);
+      if (!sounding.has(pitchKey)) sounding.set(pitchKey, []);
+      sounding.get(pitchKey).push(note);
+    });
+  });
+  return [...sources.values()];
+};
+
+const assignLayers = (sources) => {
+  const freeMelodic = [...MELODIC_LAYER_IDXS];
+  const take = (idx) => {
+    const pos = freeMelodic.indexOf(idx);
+    if (pos >= 0) freeMelodic.splice(pos, 1);
+    return idx;
+  };
+
+  // 1. ドラムチャンネル 2. トラック名が一致 3. 残りを空いているレイヤーへ (溢れたら最後の旋律レイヤーへ)
+  const assigned = sources.map(source => {
+    if (source.channel === DRUM_CHANNEL) return DRUM_LAYER_IDX;
+    const byName = LAYERS_CONFIG.findIndex(layer => layer.name.toLowerCase() === source.name.trim().toLowerCase());
+    return byName >= 0 && byName !== DRUM_LAYER_IDX ? take(byName) : null;
+  });
+  return assigned.map(idx => {
+    if (idx !== null) return idx;
+    return freeMelodic.length > 0 ? freeMelodic.shift() : MELODIC_LAYER_IDXS[MELODIC_LAYER_IDXS.length - 1];
+  });
+};
+
+// 読み込みは16分音符 (16ステップ = 1小節) で量子化する
+// tuning: { scale, rootNote, layerTransposes }
+// 戻り値: { patterns (1小節ずつ, 最大 maxBars), bpm (テンポ指定が無ければ null), truncatedBars }
+export const midiToGrids = (smf, { scale, rootNote, layerTransposes }, maxBars = PATTERN_SLOTS.length) => {
+  const sources = collectSources(smf);
+  if (sources.length === 0) throw new MidiFileError('The MIDI file contains no notes.');
+
+  const ticksPerStep = smf.ppq / 4;
+  const layerIdxs = assignLayers(sources);
+  const mappers = LAYERS_CONFIG.map((layer, idx) => createRowMapper(idx, { scale, rootNote, layerTransposes }));
+
+  const patterns = [];
+  let totalBars = 0;
+  sources.forEach((source, sourceIdx) => {
+    const layerIdx = layerIdxs[sourceIdx];
+    source.notes.forEach(({ tick, note, velocity, length }) => {
+      const step = Math.round(tick / ticksPerStep);
+      const bar = Math.floor(step / CONSTANTS.COLS);
+      totalBars = Math.max(totalBars, bar + 1);
+      if (bar >= maxBars) return;
+
+      while (patterns.length <= bar) patterns.push(createEmptyPattern(LAYERS_CONFIG.length, CONSTANTS.ROWS, MAX_STEPS));
+      const row = mappers[layerIdx](note);
+      patterns[bar][layerIdx][row][step % CONSTANTS.COLS] = createStep({
+        velocity: velocity / 127,
+        gate: length / ticksPerStep
+      });
+    });
+  });
+
+  if (patterns.length === 0) throw new MidiFileError('No notes fit into the available pattern slots.');
+
+  const tempoEvent = smf.tracks.flatMap(track => track.events).find(event => event.type === 'tempo');
+  return {
+    patterns,
+    bpm: tempoEvent ? tempoEvent.bpm : null,
+    truncatedBars: Math.max(0, totalBars - maxBars)
+  };
+};
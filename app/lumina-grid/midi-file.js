@@ -0,0 +1,244 @@
+// --- Standard MIDI File Codec ---
+// SMF (format 0 / 1) のバイト列 <-> { format, ppq, tracks: [{ name, events }] } の相互変換。
+// イベントの tick は絶対時間 (トラック先頭からの tick 数) で扱う。
+
+export class MidiFileError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'MidiFileError';
+  }
+}
+
+export const DEFAULT_PPQ = 96;
+
+// 同じ tick では noteOff を先に並べる (同じ音の連打が途切れないように)
+const EVENT_ORDER = { tempo: 0, timeSignature: 0, trackName: 0, program: 1, noteOff: 2, noteOn: 3 };
+
+// --- Encoder ---
+const writeVarLen = (out, value) => {
+  let buffer = value & 0x7f;
+  let v = value >> 7;
+  while (v > 0) {
+    buffer <<= 8;
+    buffer |= (v & 0x7f) | 0x80;
+    v >>= 7;
+  }
+  for (;;) {
+    out.push(buffer & 0xff);
+    if (buffer & 0x80) buffer >>= 8;
+    else break;
+  }
+};
+
+const writeUint32 = (out, value) => out.push((value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff);
+const writeUint16 = (out, value) => out.push((value >>> 8) & 0xff, value & 0xff);
+const textBytes = (text) => Array.from(new TextEncoder().encode(text));
+
+const encodeEvent = (out, event) => {
+  const channel = (event.channel || 0) & 0x0f;
+  switch (event.type) {
+    case 'noteOn':
+      out.push(0x90 | channel, event.note & 0x7f, event.velocity & 0x7f);
+      break;
+    case 'noteOff':
+      out.push(0x80 | channel, event.note & 0x7f, (event.velocity || 0) & 0x7f);
+      break;
+    case 'program':
+      out.push(0xc0 | channel, event.program & 0x7f);
+      break;
+    case 'tempo': {
+      const mpqn = Math.round(60000000 / event.bpm);
+      out.push(0xff, 0x51, 0x03, (mpqn >> 16) & 0xff, (mpqn >> 8) & 0xff, mpqn & 0xff);
+      break;
+    }
+    case 'timeSignature':
+      // numerator, denominator (2の累乗), クリック間隔, 32分音符数
+      out.push(0xff, 0x58, 0x04, event.numerator, Math.log2(event.denominator), 24, 8);
+      break;
+    case 'trackName': {
+      const bytes = textBytes(event.text);
+      out.push(0xff, 0x03);
+      writeVarLen(out, bytes.length);
+      out.push(...bytes);
+      break;
+    }
+    default:
+      throw new MidiFileError(`Unknown MIDI event type: ${event.type}`);
+  }
+};
+
+export const encodeMidiFile = ({ ppq = DEFAULT_PPQ, tracks }) => {
+  const out = [];
+  out.push(...textBytes('MThd'));
+  writeUint32(out, 6);
+  writeUint16(out, tracks.length > 1 ? 1 : 0);
+  writeUint16(out, tracks.length);
+  writeUint16(out, ppq);
+
+  tracks.forEach(track => {
+    const events = [
+      ...(track.name ? [{ tick: 0, type: 'trackName', text: track.name }] : []),
+      ...track.events
+    ].sort((a, b) => a.tick - b.tick || EVENT_ORDER[a.type] - EVENT_ORDER[b.type]);
+
+    const body = [];
+    let lastTick = 0;
+    events.forEach(event => {
+      writeVarLen(body, Math.max(0, event.tick - lastTick));
+      lastTick = Math.max(lastTick, event.tick);
+      encodeEvent(body, event);
+    });
+    body.push(0x00, 0xff, 0x2f, 0x00); // End of Track
+
+    out.push(...textBytes('MTrk'));
+    writeUint32(out, body.length);
+    out.push(...body);
+  });
+
+  return Uint8Array.from(out);
+};
+
+// --- Decoder ---
+class ByteReader {
+  constructor(bytes, offset = 0, end = bytes.length) {
+    this.bytes = bytes;
+    this.pos = offset;
+    this.end = end;
+  }
+
+  get done() {
+    return this.pos >= this.end;
+  }
+
+  uint8() {
+    if (this.pos >= this.end) throw new MidiFileError('Unexpected end of MIDI data.');
+    return this.bytes[this.pos++];
+  }
+
+  uint16() {
+    return (this.uint8() << 8) | this.uint8();
+  }
+
+  uint32() {
+    return ((this.uint8() << 24) | (this.uint8() << 16) | (this.uint8() << 8) | this.uint8()) >>> 0;
+  }
+
+  varLen() {
+    let value = 0;
+    for (let i = 0; i < 4; i++) {
+      const byte = this.uint8();
+      value = (value << 7) | (byte & 0x7f);
+      if (!(byte & 0x80)) return value;
+    }
+    throw new MidiFileError('Invalid variable-length quantity.');
+  }
+
+  ascii(length) {
+    let text = '';
+    for (let i = 0; i < length; i++) text += String.fromCharCode(this.uint8());
+    return text;
+  }
+
+  skip(length) {
+    this.pos += length;
+    if (this.pos > this.end) throw new MidiFileError('Unexpected end of MIDI data.');
+  }
+}
+
+const decodeText = (reader, length) => {
+  const start = reader.pos;
+  reader.skip(length);
+  const raw = reader.bytes.subarray(start, start + length);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(raw);
+  } catch {
+    return String.fromCharCode(...raw); // UTF-8でない (Shift_JIS等) 場合はバイト列のまま
+  }
+};
+
+const parseTrack = (reader) => {
+  const events = [];
+  let name = '';
+  let tick = 0;
+  let runningStatus = null;
+
+  while (!reader.done) {
+    tick += reader.varLen();
+    let status = reader.uint8();
+
+    if (status === 0xff) {
+      const metaType = reader.uint8();
+      const length = reader.varLen();
+      if (metaType === 0x2f) break; // End of Track
+      if (metaType === 0x51 && length === 3) {
+        const mpqn = (reader.uint8() << 16) | (reader.uint8() << 8) | reader.uint8();
+        if (mpqn > 0) events.push({ tick, type: 'tempo', bpm: 60000000 / mpqn });
+      } else if (metaType === 0x03 && !name) {
+        name = decodeText(reader, length);
+      } else {
+        reader.skip(length);
+      }
+      continue;
+    }
+    if (status === 0xf0 || status === 0xf7) {
+      reader.skip(reader.varLen()); // SysEx は無視
+      continue;
+    }
+
+    let firstData;
+    if (status & 0x80) {
+      runningStatus = status;
+      firstData = null;
+    } else {
+      if (runningStatus === null) throw new MidiFileError('Running status without a previous status byte.');
+      firstData = status;
+      status = runningStatus;
+    }
+
+    const kind = status & 0xf0;
+    const channel = status & 0x0f;
+    const data1 = firstData !== null ? firstData : reader.uint8();
+
+    if (kind === 0xc0 || kind === 0xd0) {
+      if (kind === 0xc0) events.push({ tick, type: 'program', channel, program: data1 });
+      continue;
+    }
+    const data2 = reader.uint8();
+    if (kind === 0x90 && data2 > 0) {
+      events.push({ tick, type: 'noteOn', channel, note: data1, velocity: data2 });
+    } else if (kind === 0x80 || kind === 0x90) {
+      events.push({ tick, type: 'noteOff', channel, note: data1, velocity: data2 });
+    }
+    // それ以外 (CC, ピッチベンド等) は読み飛ばす
+  }
+
+  return { name, events };
+};
+
+export const parseMidiFile = (input) => {
+  const bytes = input instanceof Uint8Array ? input : new Uint8Array(input);
+  const reader = new ByteReader(bytes);
+
+  if (bytes.length < 14 || reader.ascii(4) !== 'MThd') throw new MidiFileError('Not a Standard MIDI File.');
+  const headerLength = reader.uint32();
+  if (headerLength < 6) throw new MidiFileError(`Invalid MThd length: ${headerLength}.`);
+  const format = reader.uint16();
+  const trackCount = reader.uint16();
+  const division = reader.uint16();
+  reader.skip(headerLength - 6);
+
+  if (format > 1) throw new MidiFileError(`MIDI format ${format} is not supported.`);
+  if (division & 0x8000) throw new MidiFileError('SMPTE time division is not supported.');
+  if (division === 0) throw new MidiFileError('Invalid time division (0 ticks per quarter note).');
+
+  const tracks = [];
+  for (let i = 0; i < trackCount && !reader.done; i++) {
+    const chunkType = reader.ascii(4);
+    const length = reader.uint32();
+    const end = Math.min(bytes.length, reader.pos + length);
+    if (chunkType === 'MTrk') tracks.push(parseTrack(new ByteReader(bytes, reader.pos, end)));
+    reader.pos = end;
+  }
+
+  return { format, ppq: division, tracks };
+};
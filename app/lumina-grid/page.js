@@ -1,6 +1,40 @@
 'use client';
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
+import { downloadBlob } from '@/lib/download';
+import { CONSTANTS, LAYERS_CONFIG, EFFECT_TYPES } from './constants';
+import { AudioEngine } from './audio-engine';
+import { StepScheduler } from './scheduler';
+import { getStepNotes, getLayerPositions, resolveHits, playHits, getArrangementBars } from './sequence';
+import { RATCHET_OPTIONS, GATE_OPTIONS, createStep, sanitizeStep } from './steps';
+import {
+  VOICES, VOICE_IDS, WAVEFORMS, FILTER_TYPES,
+  createPatch, createDefaultPatch, paramToUnit, unitToParam, getDelayTime
+} from './voices';
+import { encodeMidiFile, parseMidiFile } from './midi-file';
+import { gridsToMidi, midiToGrids, noteToMidiNumber, velocityFromVolume, createRowMapper } from './midi-convert';
+import {
+  WebMidiBridge, MidiClockFollower, CLOCK_MODES, INPUT_MODES, ALL_INPUTS, MIDI_CHANNELS, CLOCK_PPQN,
+  CLOCK_MESSAGE, START_MESSAGE, STOP_MESSAGE, audioTimeToTimestamp
+} from './web-midi';
+import { BOUNCE_BAR_OPTIONS, bounceToWav } from './bounce';
+import { WAV_FORMATS } from './wav';
+import {
+  PATTERN_SLOTS, MAX_SONG_LENGTH, MAX_SONG_REPEATS,
+  createEmptyGrid, createPatternBank, clonePattern, isPatternEmpty,
+  createSongEntry, createPlayhead, advanceBar
+} from './patterns';
+import {
+  HASH_PREFIX, createSession, parseSession, encodeSessionHash, decodeSessionHash,
+  saveAutosave, loadAutosave, listSessionSlots, saveSessionSlot, loadSessionSlot, deleteSessionSlot
+} from './session';
+import {
+  NOTE_NAMES, DEFAULT_ROOT, SCALES, DEFAULT_SCALE_ID, CUSTOM_SCALE_ID, TRANSPOSE_RANGE,
+  getScale, parseCentsTable, formatCentsTable, clampTranspose, rowToFrequency
+} from './scales';
+import {
+  TICKS_PER_BEAT, TICKS_PER_BAR, MIN_STEPS, MAX_STEPS, DEFAULT_STEPS, DIVISIONS, DEFAULT_DIVISION, MAX_SWING, clampSteps
+} from './timing';
 
 // --- Safe Icons (Memoized for performance) ---
 const PlayIcon = React.memo(() => (
@@ -22,261 +56,531 @@ const TrashIcon = React.memo(() => (
   </svg>
 ));
 
-// --- Constants (Frozen for immutability) ---
-const CONSTANTS = Object.freeze({
-  ROWS: 16,
-  COLS: 16,
-  DEFAULT_BPM: 120,
-  BASE_FREQ: 174.61,
-  MAX_EFFECTS: 150, // 安全装置: 描画負荷によるクラッシュ防止
-  MIN_BPM: 60,
-  MAX_BPM: 240,
-  FLOOR_Y: 15.5
-});
-
-// Pentatonic Scale
-const PENTATONIC_RATIOS = [
-  4.0, 3.367, 3.0, 2.667, 2.378, 2.0, 1.683, 1.5,
-  1.333, 1.189, 1.0, 0.841, 0.75, 0.667, 0.595, 0.5
-];
-
-// Layer Configurations
-const LAYERS_CONFIG = [
-  { id: 0, name: 'LEAD', type: 'sine', color: '#60a5fa', baseOctave: 0 },
-  { id: 1, name: 'BASS', type: 'triangle', color: '#34d399', baseOctave: -1 },
-  { id: 2, name: 'DRUM', type: 'drum', color: '#f472b6', baseOctave: 0 },
-  { id: 3, name: 'CHRD', type: 'square', color: '#fbbf24', baseOctave: -0.5 }
-];
-
-const EFFECT_TYPES = ['RIPPLE', 'GRAVITY', 'SPLASH', 'STAR'];
-
-// --- Audio Engine (Enhanced Robustness) ---
-class AudioEngine {
-  constructor() {
-    this.ctx = null;
-    this.masterGain = null;
-    this.compressor = null;
-    this.isInitialized = false;
-  }
-
-  // 安全な初期化: 何度呼んでも安全、SSR環境対応
-  init() {
-    if (typeof window === 'undefined') return;
+// --- Playback Helpers ---
+const STOPPED_POSITIONS = LAYERS_CONFIG.map(() => -1);
+const CLOCKS_PER_TICK = CLOCK_PPQN / TICKS_PER_BEAT;
+
+// スウィングで遅れたヒットが後の tick より後ろに来るので、時刻順を保って挿入する
+const insertByTime = (queue, entry) => {
+  let idx = queue.length;
+  while (idx > 0 && queue[idx - 1].time > entry.time) idx--;
+  queue.splice(idx, 0, entry);
+};
+
+// --- Session Panel ---
+const SessionPanel = ({
+  slots, message, songBars, isBouncing,
+  onSaveSlot, onLoadSlot, onDeleteSlot, onExport, onImport, onShare, onBounce, onExportMidi, onImportMidi, onClose
+}) => {
+  const [slotName, setSlotName] = useState('');
+  const [bounceBars, setBounceBars] = useState(BOUNCE_BAR_OPTIONS[2]);
+  const [bounceFormat, setBounceFormat] = useState(WAV_FORMATS.PCM16);
+  const [includeTail, setIncludeTail] = useState(true);
+  const fileInputRef = useRef(null);
+  const midiInputRef = useRef(null);
+
+  const buttonClass = 'px-2 py-1.5 rounded text-[10px] font-bold bg-gray-700 border border-gray-600 text-gray-300 hover:text-white hover:border-white transition-colors';
 
-    try {
-      if (!this.ctx) {
-        const AudioContext = window.AudioContext || window.webkitAudioContext;
-        if (!AudioContext) {
-          console.warn('Web Audio API is not supported in this browser.');
-          return;
-        }
-        this.ctx = new AudioContext();
+  return (
+    <div className="absolute top-full right-2 mt-1 w-72 max-w-[calc(100vw-1rem)] bg-gray-800 border border-gray-600 rounded-xl shadow-2xl p-3 flex flex-col gap-3 z-50">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold tracking-widest text-gray-400">SESSION</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close Session Panel">×</button>
+      </div>
 
-        // ダイナミクスコンプレッサー（音割れ防止・聴覚保護）
-        this.compressor = this.ctx.createDynamicsCompressor();
-        this.compressor.threshold.setValueAtTime(-24, this.ctx.currentTime);
-        this.compressor.knee.setValueAtTime(30, this.ctx.currentTime);
-        this.compressor.ratio.setValueAtTime(12, this.ctx.currentTime);
-        this.compressor.attack.setValueAtTime(0.003, this.ctx.currentTime);
-        this.compressor.release.setValueAtTime(0.25, this.ctx.currentTime);
+      <div className="grid grid-cols-3 gap-1">
+        <button onClick={onShare} className={buttonClass}>SHARE URL</button>
+        <button onClick={onExport} className={buttonClass}>EXPORT</button>
+        <button onClick={() => fileInputRef.current?.click()} className={buttonClass}>IMPORT</button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onImport(file);
+            e.target.value = ''; // 同じファイルを続けて選べるように
+          }}
+        />
+      </div>
 
-        this.masterGain = this.ctx.createGain();
-        this.masterGain.gain.value = 0.4; // 初期マスターボリューム
+      <form
+        className="flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (onSaveSlot(slotName)) setSlotName('');
+        }}
+      >
+        <input
+          type="text"
+          value={slotName}
+          onChange={(e) => setSlotName(e.target.value)}
+          placeholder="Slot name"
+          maxLength={40}
+          className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 text-xs text-white focus:outline-none focus:border-gray-400"
+        />
+        <button type="submit" className={buttonClass} disabled={!slotName.trim()}>SAVE</button>
+      </form>
+
+      <div className="flex flex-col gap-1 max-h-40 overflow-y-auto">
+        {slots.length === 0 && <span className="text-[10px] text-gray-600">No saved slots</span>}
+        {slots.map(({ name }) => (
+          <div key={name} className="flex items-center gap-1">
+            <button onClick={() => onLoadSlot(name)} className="flex-1 text-left truncate text-xs text-gray-300 hover:text-white px-1 py-0.5 rounded hover:bg-gray-700">
+              {name}
+            </button>
+            <button onClick={() => onDeleteSlot(name)} className="text-gray-600 hover:text-red-400 text-xs px-1" aria-label={`Delete ${name}`}>×</button>
+          </div>
+        ))}
+      </div>
 
-        // チェーン接続: MasterGain -> Compressor -> Destination
-        this.masterGain.connect(this.compressor);
-        this.compressor.connect(this.ctx.destination);
+      {/* MIDI (SMF type 1) */}
+      <div className="flex flex-col gap-1 border-t border-gray-700 pt-2">
+        <span className="text-[8px] font-bold tracking-widest text-gray-500">MIDI FILE</span>
+        <div className="grid grid-cols-2 gap-1">
+          <button onClick={onExportMidi} className={buttonClass}>EXPORT .MID</button>
+          <button onClick={() => midiInputRef.current?.click()} className={buttonClass}>IMPORT .MID</button>
+          <input
+            ref={midiInputRef}
+            type="file"
+            accept=".mid,.midi,audio/midi"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) onImportMidi(file);
+              e.target.value = '';
+            }}
+          />
+        </div>
+      </div>
 
-        this.isInitialized = true;
-      }
+      {/* WAV書き出し (songBars があればソング全体も選べる) */}
+      <div className="flex flex-col gap-1 border-t border-gray-700 pt-2">
+        <span className="text-[8px] font-bold tracking-widest text-gray-500">BOUNCE WAV</span>
+        <div className="flex gap-1">
+          <select
+            value={bounceBars}
+            onChange={(e) => setBounceBars(Number(e.target.value))}
+            className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 text-xs text-white focus:outline-none"
+            aria-label="Bars to Render"
+          >
+            {BOUNCE_BAR_OPTIONS.map(n => <option key={n} value={n}>{n} BAR{n > 1 ? 'S' : ''}</option>)}
+            {songBars > 0 && !BOUNCE_BAR_OPTIONS.includes(songBars) && <option value={songBars}>SONG ({songBars})</option>}
+          </select>
+          <select
+            value={bounceFormat}
+            onChange={(e) => setBounceFormat(e.target.value)}
+            className="flex-1 bg-gray-900 border border-gray-700 rounded px-1 text-xs text-white focus:outline-none"
+            aria-label="WAV Format"
+          >
+            <option value={WAV_FORMATS.PCM16}>16-bit</option>
+            <option value={WAV_FORMATS.FLOAT32}>32-bit float</option>
+          </select>
+        </div>
+        <div className="flex items-center justify-between gap-1">
+          <label className="flex items-center gap-1 text-[10px] text-gray-400">
+            <input type="checkbox" checked={includeTail} onChange={(e) => setIncludeTail(e.target.checked)} className="accent-white" />
+            TAIL
+          </label>
+          <button
+            onClick={() => onBounce({ bars: bounceBars, format: bounceFormat, includeTail })}
+            disabled={isBouncing}
+            className={`${buttonClass} disabled:opacity-50 disabled:cursor-wait`}
+          >
+            {isBouncing ? 'RENDERING…' : 'RENDER'}
+          </button>
+        </div>
+      </div>
 
-      if (this.ctx.state === 'suspended') {
-        this.ctx.resume().catch(err => console.error('Audio resume failed:', err));
-      }
+      {message && (
+        <p className={`text-[10px] ${message.isError ? 'text-red-400' : 'text-gray-400'}`}>{message.text}</p>
+      )}
+    </div>
+  );
+};
+
+// --- Tuning Panel ---
+const TuningPanel = ({ scaleId, rootNote, customScale, onScaleChange, onRootChange, onCustomScaleChange, onClose }) => {
+  const [centsText, setCentsText] = useState(() => (customScale ? formatCentsTable(customScale) : '0 150 350 500 700 850 1050'));
+  const [error, setError] = useState(null);
+
+  const applyCents = () => {
+    try {
+      onCustomScaleChange(parseCentsTable(centsText));
+      setError(null);
     } catch (e) {
-      console.error('AudioEngine initialization error:', e);
+      setError(e.message);
     }
-  }
+  };
 
-  // リソースの破棄
-  dispose() {
-    if (this.ctx) {
-      try {
-        this.ctx.close();
-      } catch (e) {
-        // ignore close errors
-      }
-      this.ctx = null;
-      this.isInitialized = false;
-    }
-  }
+  const selectClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-gray-400';
 
-  // 安全な現在時刻取得
-  get currentTime() {
-    return this.ctx ? this.ctx.currentTime : 0;
-  }
+  return (
+    <div className="absolute top-full left-2 mt-1 w-64 max-w-[calc(100vw-1rem)] bg-gray-800 border border-gray-600 rounded-xl shadow-2xl p-3 flex flex-col gap-3 z-50">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold tracking-widest text-gray-400">TUNING</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close Tuning Panel">×</button>
+      </div>
 
-  playDrum(row, rawVolume = 0.8) {
-    if (!this.ctx || !this.isInitialized) return;
+      <div className="grid grid-cols-2 gap-2">
+        <label className="flex flex-col gap-1 text-[8px] font-bold tracking-widest text-gray-500">
+          SCALE
+          <select value={scaleId} onChange={(e) => onScaleChange(e.target.value)} className={selectClass}>
+            {SCALES.map(scale => <option key={scale.id} value={scale.id}>{scale.name}</option>)}
+            <option value={CUSTOM_SCALE_ID} disabled={!customScale}>Custom</option>
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-[8px] font-bold tracking-widest text-gray-500">
+          ROOT
+          <select value={rootNote} onChange={(e) => onRootChange(Number(e.target.value))} className={selectClass}>
+            {NOTE_NAMES.map((name, idx) => <option key={name} value={idx}>{name}</option>)}
+          </select>
+        </label>
+      </div>
 
-    try {
-      // Volumeのサニタイズ (0.0 ~ 1.0)
-      const volume = Math.max(0, Math.min(1, rawVolume));
-      const now = this.ctx.currentTime;
-
-      const master = this.ctx.createGain();
-      master.gain.value = volume;
-      master.connect(this.masterGain);
-
-      // --- Kick ---
-      if (row >= 12) {
-        const osc = this.ctx.createOscillator();
-        const gain = this.ctx.createGain();
-        osc.frequency.setValueAtTime(150, now);
-        osc.frequency.exponentialRampToValueAtTime(0.01, now + 0.5);
-
-        gain.gain.setValueAtTime(1, now);
-        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.5);
-
-        osc.connect(gain);
-        gain.connect(master);
-        osc.start(now);
-        osc.stop(now + 0.51); // 余分なマージンを持たせてstop
-      }
-      // --- Snare ---
-      else if (row >= 8) {
-        const bufferSize = this.ctx.sampleRate * 0.1;
-        const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-        const data = buffer.getChannelData(0);
-        for (let i = 0; i < bufferSize; i++) data[i] = Math.random() * 2 - 1;
-
-        const noise = this.ctx.createBufferSource();
-        noise.buffer = buffer;
-        const noiseGain = this.ctx.createGain();
-        const filter = this.ctx.createBiquadFilter();
-
-        filter.type = 'bandpass';
-        filter.frequency.value = 1000;
-
-        noiseGain.gain.setValueAtTime(1, now);
-        noiseGain.gain.exponentialRampToValueAtTime(0.01, now + 0.2);
-
-        noise.connect(filter);
-        filter.connect(noiseGain);
-        noiseGain.connect(master);
-        noise.start(now);
-      }
-      // --- Hi-Hat ---
-      else {
-        const bufferSize = this.ctx.sampleRate * 0.05;
-        const buffer = this.ctx.createBuffer(1, bufferSize, this.ctx.sampleRate);
-        const data = buffer.getChannelData(0);
-        for (let i = 0; i < bufferSize; i++) data[i] = Math.random() * 2 - 1;
-
-        const noise = this.ctx.createBufferSource();
-        noise.buffer = buffer;
-
-        const filter = this.ctx.createBiquadFilter();
-        filter.type = 'highpass';
-        filter.frequency.value = 5000;
-
-        const gain = this.ctx.createGain();
-        gain.gain.setValueAtTime(0.6, now);
-        gain.gain.exponentialRampToValueAtTime(0.01, now + 0.05);
-
-        noise.connect(filter);
-        filter.connect(gain);
-        gain.connect(master);
-        noise.start(now);
-      }
-    } catch (e) {
-      console.warn('Audio synthesis error (Drum):', e);
-    }
-  }
+      <form
+        className="flex flex-col gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          applyCents();
+        }}
+      >
+        <span className="text-[8px] font-bold tracking-widest text-gray-500">CUSTOM (CENTS)</span>
+        <div className="flex gap-1">
+          <input
+            type="text"
+            value={centsText}
+            onChange={(e) => setCentsText(e.target.value)}
+            className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 text-xs text-white font-mono focus:outline-none focus:border-gray-400"
+            aria-label="Custom Cents Table"
+          />
+          <button type="submit" className="px-2 py-1 rounded text-[10px] font-bold bg-gray-700 border border-gray-600 text-gray-300 hover:text-white">SET</button>
+        </div>
+        <span className={`text-[9px] ${error ? 'text-red-400' : 'text-gray-600'}`}>
+          {error || 'Steps within one octave. A value ≥ 1200 sets the period.'}
+        </span>
+      </form>
+    </div>
+  );
+};
 
-  playTone(row, layerType, baseOctave = 0, rawVolume = 0.8) {
-    if (!this.ctx || !this.isInitialized) return;
+// ステップの詳細編集 (Shift+クリック / 右クリック / 長押しで開く)
+const StepInspector = ({ row, col, step, layerColor, onChange, onToggle, onClose }) => {
+  const optionClass = (selected) => `flex-1 py-1 rounded text-[10px] font-bold border transition-colors
+    ${selected ? 'bg-gray-200 text-black border-white' : 'bg-gray-900 text-gray-400 border-gray-700 hover:text-white'}`;
+  const sliderLabelClass = 'flex flex-col gap-1 text-[8px] font-bold tracking-widest text-gray-500';
 
-    // Volumeサニタイズ
-    const volume = Math.max(0, Math.min(1, rawVolume));
+  return (
+    <div
+      className="absolute left-1/2 bottom-3 -translate-x-1/2 w-64 max-w-[calc(100%-1rem)] bg-gray-800/95 border border-gray-600 rounded-xl shadow-2xl p-3 flex flex-col gap-3 z-40"
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+      onTouchMove={(e) => e.stopPropagation()}
+    >
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold tracking-widest text-gray-400">
+          STEP {col + 1} / ROW {row + 1}
+        </span>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={onToggle}
+            className="px-2 py-0.5 rounded text-[10px] font-bold border border-gray-600"
+            style={step ? { backgroundColor: layerColor, color: 'black' } : undefined}
+          >
+            {step ? 'ON' : 'OFF'}
+          </button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close Step Inspector">×</button>
+        </div>
+      </div>
 
-    if (layerType === 'drum') {
-      this.playDrum(row, volume);
-      return;
-    }
+      {step ? (
+        <>
+          <label className={sliderLabelClass}>
+            <span className="flex justify-between">VELOCITY <span className="text-gray-300">{Math.round(step.velocity * 127)}</span></span>
+            <input
+              type="range" min="0" max="1" step="0.01"
+              value={step.velocity}
+              onChange={(e) => onChange({ velocity: parseFloat(e.target.value) })}
+              className="w-full accent-white"
+            />
+          </label>
+          <label className={sliderLabelClass}>
+            <span className="flex justify-between">PROBABILITY <span className="text-gray-300">{Math.round(step.probability * 100)}%</span></span>
+            <input
+              type="range" min="0" max="1" step="0.01"
+              value={step.probability}
+              onChange={(e) => onChange({ probability: parseFloat(e.target.value) })}
+              className="w-full accent-white"
+            />
+          </label>
+          <div className="flex flex-col gap-1">
+            <span className="text-[8px] font-bold tracking-widest text-gray-500">RATCHET</span>
+            <div className="flex gap-1">
+              {RATCHET_OPTIONS.map(option => (
+                <button key={option} onClick={() => onChange({ ratchet: option })} className={optionClass(step.ratchet === option)}>
+                  ×{option}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="flex flex-col gap-1">
+            <span className="text-[8px] font-bold tracking-widest text-gray-500">GATE (STEPS)</span>
+            <div className="flex gap-1">
+              {GATE_OPTIONS.map(option => (
+                <button key={option} onClick={() => onChange({ gate: option })} className={optionClass(step.gate === option)}>
+                  {option < 1 ? `1/${1 / option}` : option}
+                </button>
+              ))}
+            </div>
+          </div>
+        </>
+      ) : (
+        <span className="text-[9px] text-gray-600">Turn the step on to edit its parameters.</span>
+      )}
+    </div>
+  );
+};
+
+// --- MIDI Panel ---
+const MidiPanel = ({
+  status, ports, inputId, inputMode, clockMode, clockOutputId, layerRoutes,
+  onConnect, onInputChange, onInputModeChange, onClockModeChange, onClockOutputChange, onRouteChange, onClose
+}) => {
+  const selectClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-gray-400 disabled:opacity-40';
+  const labelClass = 'flex flex-col gap-1 text-[8px] font-bold tracking-widest text-gray-500';
+  const sectionClass = 'text-[8px] font-bold tracking-widest text-gray-500';
+  const disabled = !status.connected;
 
-    try {
-      const osc = this.ctx.createOscillator();
-      const gain = this.ctx.createGain();
-
-      // 安全な波形タイプ設定
-      const safeType = ['sine', 'square', 'sawtooth', 'triangle'].includes(layerType) ? layerType : 'sine';
-      osc.type = safeType;
-
-      // 周波数計算（undefined対策）
-      const ratio = PENTATONIC_RATIOS[row] !== undefined ? PENTATONIC_RATIOS[row] : 1.0;
-      let freq = CONSTANTS.BASE_FREQ * ratio;
-      if (baseOctave !== 0) freq = freq * Math.pow(2, baseOctave);
-
-      // ナイキスト周波数チェック（念の為）
-      if (freq > this.ctx.sampleRate / 2) freq = this.ctx.sampleRate / 2;
-      osc.frequency.setValueAtTime(freq, this.ctx.currentTime);
-
-      const now = this.ctx.currentTime;
-      osc.connect(gain);
-      gain.connect(this.masterGain);
-      osc.start(now);
-
-      // エンベロープ処理（クリックノイズ除去のため、0からの立ち上がりを明示）
-      let duration = 0.6;
-      gain.gain.setValueAtTime(0, now);
-
-      if (layerType === 'square') {
-        gain.gain.linearRampToValueAtTime(0.3 * volume, now + 0.01);
-        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.3);
-        duration = 0.4;
-      } else if (layerType === 'triangle') {
-        gain.gain.linearRampToValueAtTime(0.5 * volume, now + 0.05);
-        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.8);
-        duration = 0.9;
-      } else {
-        gain.gain.linearRampToValueAtTime(0.6 * volume, now + 0.01);
-        gain.gain.exponentialRampToValueAtTime(0.001, now + 0.5);
-        duration = 0.6;
-      }
+  return (
+    <div className="absolute top-full right-2 mt-1 w-72 max-w-[calc(100vw-1rem)] max-h-[80dvh] overflow-y-auto bg-gray-800 border border-gray-600 rounded-xl shadow-2xl p-3 flex flex-col gap-3 z-50">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold tracking-widest text-gray-400">MIDI</span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close MIDI Panel">×</button>
+      </div>
 
-      // 完全に音が消えてからStop
-      osc.stop(now + duration + 0.05);
-    } catch (e) {
-      console.warn('Audio synthesis error (Tone):', e);
-    }
-  }
-}
+      {!status.connected && (
+        <button onClick={onConnect} className="py-1 rounded text-[10px] font-bold bg-gray-700 border border-gray-600 text-gray-300 hover:text-white">
+          CONNECT MIDI DEVICES
+        </button>
+      )}
+      {(status.error || status.connected) && (
+        <p className={`text-[10px] ${status.error ? 'text-red-400' : 'text-gray-400'}`}>
+          {status.error || `${ports.inputs.length} input${ports.inputs.length === 1 ? '' : 's'}, ${ports.outputs.length} output${ports.outputs.length === 1 ? '' : 's'}`}
+        </p>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className={labelClass}>
+          INPUT
+          <select value={inputId ?? ''} onChange={(e) => onInputChange(e.target.value || null)} disabled={disabled} className={selectClass}>
+            <option value="">None</option>
+            <option value={ALL_INPUTS}>All inputs</option>
+            {ports.inputs.map(port => <option key={port.id} value={port.id}>{port.name}</option>)}
+          </select>
+        </label>
+        <label className={labelClass}>
+          NOTES
+          <select value={inputMode} onChange={(e) => onInputModeChange(e.target.value)} disabled={disabled} className={selectClass}>
+            <option value={INPUT_MODES.TOGGLE}>Toggle cells</option>
+            <option value={INPUT_MODES.PREVIEW}>Preview only</option>
+          </select>
+        </label>
+        <label className={labelClass}>
+          CLOCK
+          <select value={clockMode} onChange={(e) => onClockModeChange(e.target.value)} disabled={disabled} className={selectClass}>
+            <option value={CLOCK_MODES.INTERNAL}>Internal</option>
+            <option value={CLOCK_MODES.SEND}>Send</option>
+            <option value={CLOCK_MODES.FOLLOW}>Follow input</option>
+          </select>
+        </label>
+        <label className={labelClass}>
+          CLOCK OUT
+          <select
+            value={clockOutputId ?? ''}
+            onChange={(e) => onClockOutputChange(e.target.value || null)}
+            disabled={disabled || clockMode !== CLOCK_MODES.SEND}
+            className={selectClass}
+          >
+            <option value="">None</option>
+            {ports.outputs.map(port => <option key={port.id} value={port.id}>{port.name}</option>)}
+          </select>
+        </label>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        <span className={sectionClass}>LAYER OUTPUTS</span>
+        {LAYERS_CONFIG.map((layer, idx) => {
+          const route = layerRoutes[idx];
+          return (
+            <div key={layer.id} className="grid grid-cols-[2.5rem_1fr_3.5rem_auto] gap-1 items-center">
+              <span className="text-[9px] font-bold" style={{ color: layer.color }}>{layer.name}</span>
+              <select value={route.outputId ?? ''} onChange={(e) => onRouteChange(idx, { outputId: e.target.value || null })} disabled={disabled} className={selectClass}>
+                <option value="">None</option>
+                {ports.outputs.map(port => <option key={port.id} value={port.id}>{port.name}</option>)}
+              </select>
+              <select value={route.channel} onChange={(e) => onRouteChange(idx, { channel: Number(e.target.value) })} disabled={disabled} className={selectClass} aria-label={`${layer.name} MIDI Channel`}>
+                {Array.from({ length: MIDI_CHANNELS }, (_, ch) => <option key={ch} value={ch}>ch{ch + 1}</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-[8px] text-gray-400" title="Also play the internal synth">
+                <input type="checkbox" checked={route.local} onChange={(e) => onRouteChange(idx, { local: e.target.checked })} className="accent-white" />
+                LOCAL
+              </label>
+            </div>
+          );
+        })}
+      </div>
+      <span className="text-[9px] text-gray-600">Following clock: the transport starts and stops with the incoming Start/Stop messages.</span>
+    </div>
+  );
+};
+
+// --- Patch Panel ---
+const formatParamValue = (def, value) => {
+  if (def.integer) return String(value);
+  return Math.abs(value) >= 100 ? String(Math.round(value)) : value.toFixed(2);
+};
+
+// 表示中レイヤーの音色エディタ。スライダーは VOICES のパラメータ定義から組み立てる
+const PatchPanel = ({ layer, patch, onChange, onReset, onAudition, onClose }) => {
+  const voice = VOICES[patch.voice];
+  const selectClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white focus:outline-none focus:border-gray-400';
+  const labelClass = 'flex flex-col gap-1 text-[8px] font-bold tracking-widest text-gray-500';
+
+  return (
+    <div className="fixed inset-x-2 bottom-2 md:inset-x-auto md:right-4 md:top-14 md:bottom-auto md:w-72 max-h-[70dvh] overflow-y-auto bg-gray-800 border border-gray-600 rounded-xl shadow-2xl p-3 flex flex-col gap-3 z-50">
+      <div className="flex justify-between items-center">
+        <span className="text-[10px] font-bold tracking-widest" style={{ color: layer.color }}>{layer.name} PATCH</span>
+        <div className="flex items-center gap-2">
+          <button onClick={onAudition} className="px-2 py-0.5 rounded text-[10px] font-bold bg-gray-700 border border-gray-600 text-gray-300 hover:text-white" aria-label="Audition Patch">▶</button>
+          <button onClick={onReset} className="px-2 py-0.5 rounded text-[10px] font-bold bg-gray-700 border border-gray-600 text-gray-300 hover:text-white">RESET</button>
+          <button onClick={onClose} className="text-gray-500 hover:text-white text-xs" aria-label="Close Patch Panel">×</button>
+        </div>
+      </div>
+
+      <div className={`grid gap-2 ${patch.voice === 'synth' ? 'grid-cols-3' : 'grid-cols-1'}`}>
+        <label className={labelClass}>
+          VOICE
+          {/* voice を切り替えるとパラメータ構成が変わるので初期値から作り直す */}
+          <select value={patch.voice} onChange={(e) => onChange(createPatch(e.target.value, { reverbSend: patch.reverbSend, delaySend: patch.delaySend }))} className={selectClass}>
+            {VOICE_IDS.map(id => <option key={id} value={id}>{VOICES[id].label}</option>)}
+          </select>
+        </label>
+        {patch.voice === 'synth' && (
+          <>
+            <label className={labelClass}>
+              WAVE
+              <select value={patch.waveform} onChange={(e) => onChange({ ...patch, waveform: e.target.value })} className={selectClass}>
+                {WAVEFORMS.map(wave => <option key={wave} value={wave}>{wave}</option>)}
+              </select>
+            </label>
+            <label className={labelClass}>
+              FILTER
+              <select value={patch.filterType} onChange={(e) => onChange({ ...patch, filterType: e.target.value })} className={selectClass}>
+                {FILTER_TYPES.map(type => <option key={type} value={type}>{type}</option>)}
+              </select>
+            </label>
+          </>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 gap-x-3 gap-y-2">
+        {voice.params.map(def => (
+          <label key={def.key} className={labelClass}>
+            <span className="flex justify-between">{def.label} <span className="text-gray-300">{formatParamValue(def, patch[def.key])}</span></span>
+            <input
+              type="range" min="0" max="1" step="0.005"
+              value={paramToUnit(def, patch[def.key])}
+              onChange={(e) => onChange(createPatch(patch.voice, { ...patch, [def.key]: unitToParam(def, Number(e.target.value)) }))}
+              className="w-full h-1.5 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-white"
+            />
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
 
 export default function TenoriOn() {
   // --- Refs ---
   // AudioEngineをRefで保持し、再レンダリング間の永続性を確保
   const engineRef = useRef(null);
-  const getEngine = () => {
+  const getEngine = useCallback(() => {
     if (!engineRef.current) {
       engineRef.current = new AudioEngine();
     }
     return engineRef.current;
-  };
+  }, []);
 
   // --- State ---
-  const [grids, setGrids] = useState(() =>
-    LAYERS_CONFIG.map(() => Array(CONSTANTS.ROWS).fill().map(() => Array(CONSTANTS.COLS).fill(false)))
+  // パターンバンク (A〜H)。画面に出ているのは activePatternIdx のパターン
+  const [patterns, setPatterns] = useState(() =>
+    createPatternBank(LAYERS_CONFIG.length, CONSTANTS.ROWS, MAX_STEPS)
   );
+  const [activePatternIdx, setActivePatternIdx] = useState(0);
+  const [queuedPatternIdx, setQueuedPatternIdx] = useState(null); // 次の小節頭で切り替わる予約
+  const [songMode, setSongMode] = useState(false);
+  const [song, setSong] = useState(() => [createSongEntry(0, 1)]);
+  const [songPos, setSongPos] = useState(0);
+
+  const grids = patterns[activePatternIdx] || patterns[0];
+
+  // 表示中パターンのグリッドだけを更新する (既存の setGrids 呼び出しと同じ形で使える)
+  const setGrids = useCallback((updater) => {
+    setPatterns(prev => {
+      const current = prev[activePatternIdx];
+      const updated = updater(current);
+      if (updated === current) return prev;
+      const newPatterns = [...prev];
+      newPatterns[activePatternIdx] = updated;
+      return newPatterns;
+    });
+  }, [activePatternIdx]);
 
   const [layerEffects, setLayerEffects] = useState(['RIPPLE', 'GRAVITY', 'SPLASH', 'STAR']);
   const [layerVolumes, setLayerVolumes] = useState([0.8, 0.8, 0.8, 0.8]);
 
+  // チューニング (スケール・ルート・レイヤーごとの移調)
+  const [scaleId, setScaleId] = useState(DEFAULT_SCALE_ID);
+  const [customScale, setCustomScale] = useState(null);
+  const [rootNote, setRootNote] = useState(DEFAULT_ROOT);
+  const [layerTransposes, setLayerTransposes] = useState(() => LAYERS_CONFIG.map(() => 0));
+  // レイヤーごとの音色パッチ
+  const [layerPatches, setLayerPatches] = useState(() => LAYERS_CONFIG.map(createDefaultPatch));
+  // レイヤーごとのステップ数・分割と、全体のスウィング
+  const [layerSteps, setLayerSteps] = useState(() => LAYERS_CONFIG.map(() => DEFAULT_STEPS));
+  const [layerDivisions, setLayerDivisions] = useState(() => LAYERS_CONFIG.map(() => DEFAULT_DIVISION));
+  const [swing, setSwing] = useState(0);
+  const scale = useMemo(() => getScale(scaleId, customScale), [scaleId, customScale]);
+
   const [activeLayerIdx, setActiveLayerIdx] = useState(0);
   const [isPlaying, setIsPlaying] = useState(false);
-  const [currentCol, setCurrentCol] = useState(-1);
+  const [playPositions, setPlayPositions] = useState(STOPPED_POSITIONS); // レイヤーごとのスキャナー位置
+  const [gridPage, setGridPage] = useState(0); // 16列ずつの表示ページ
   const [bpm, setBpm] = useState(CONSTANTS.DEFAULT_BPM);
   const [isMouseDown, setIsMouseDown] = useState(false);
+  const [inspectedCell, setInspectedCell] = useState(null); // { r, c } 表示中レイヤーのセル
+
+  const [isSessionOpen, setIsSessionOpen] = useState(false);
+  const [isTuningOpen, setIsTuningOpen] = useState(false);
+  const [isPatchOpen, setIsPatchOpen] = useState(false);
+
+  // Web MIDI (接続はユーザー操作で開始する)
+  const [isMidiOpen, setIsMidiOpen] = useState(false);
+  const [midiStatus, setMidiStatus] = useState({ connected: false, error: null });
+  const [midiPorts, setMidiPorts] = useState({ inputs: [], outputs: [] });
+  const [midiInputId, setMidiInputId] = useState(null);
+  const [midiInputMode, setMidiInputMode] = useState(INPUT_MODES.TOGGLE);
+  const [clockMode, setClockMode] = useState(CLOCK_MODES.INTERNAL);
+  const [clockOutputId, setClockOutputId] = useState(null);
+  const [layerMidiRoutes, setLayerMidiRoutes] = useState(() => LAYERS_CONFIG.map((layer, idx) => ({
+    outputId: null,
+    channel: layer.type === 'drum' ? 9 : idx, // ドラムは GM の10ch
+    local: true
+  })));
+  const [isBouncing, setIsBouncing] = useState(false);
+  const [sessionSlots, setSessionSlots] = useState([]);
+  const [sessionMessage, setSessionMessage] = useState(null);
 
   // エフェクト配列。メモリ管理のため上限を設ける
   const [effects, setEffects] = useState([]);
@@ -284,22 +588,35 @@ export default function TenoriOn() {
   // Refs for logic that doesn't need to trigger render immediately or needs access inside callbacks
   const lastTouchedRef = useRef(null);
   const requestRef = useRef(null);
+  const patternClipboardRef = useRef(null);
+  const longPressRef = useRef({ timerId: null, fired: false, cell: null });
 
   const activeLayerConfig = LAYERS_CONFIG[activeLayerIdx] || LAYERS_CONFIG[0]; // fallback safety
 
+  // 表示中レイヤーの再生位置と、グリッドに出している16列の範囲
+  const activeSteps = layerSteps[activeLayerIdx] || DEFAULT_STEPS;
+  const pageCount = Math.ceil(activeSteps / CONSTANTS.COLS);
+  const viewPage = Math.min(gridPage, pageCount - 1);
+  const pageOffset = viewPage * CONSTANTS.COLS;
+  const currentCol = playPositions[activeLayerIdx] ?? -1;
+
   // --- Handlers ---
 
   const handleStart = () => {
     const engine = getEngine();
     engine.init();
-    setIsPlaying(prev => !prev);
+    if (isPlaying) {
+      setPlayPositions(STOPPED_POSITIONS);
+      setQueuedPatternIdx(null);
+    }
+    setIsPlaying(!isPlaying);
   };
 
   const handleClear = () => {
     setGrids(prev => {
       const newGrids = [...prev];
       if (newGrids[activeLayerIdx]) {
-        newGrids[activeLayerIdx] = Array(CONSTANTS.ROWS).fill().map(() => Array(CONSTANTS.COLS).fill(false));
+        newGrids[activeLayerIdx] = createEmptyGrid(CONSTANTS.ROWS, MAX_STEPS);
       }
       return newGrids;
     });
@@ -327,11 +644,399 @@ export default function TenoriOn() {
     });
   };
 
+  const handleTransposeChange = (value) => {
+    setLayerTransposes(prev => prev.map((t, idx) => (idx === activeLayerIdx ? clampTranspose(value) : t)));
+  };
+
+  const handleStepsChange = (value) => {
+    setLayerSteps(prev => prev.map((steps, idx) => (idx === activeLayerIdx ? clampSteps(value) : steps)));
+  };
+
+  const handleDivisionChange = (id) => {
+    setLayerDivisions(prev => prev.map((division, idx) => (idx === activeLayerIdx ? id : division)));
+  };
+
+  const handlePatchChange = (patch) => {
+    setLayerPatches(prev => prev.map((p, idx) => (idx === activeLayerIdx ? patch : p)));
+  };
+
+  // パッチエディタの試聴: ルートの音 (ドラムはキック) を1拍鳴らす
+  const handleAuditionPatch = () => {
+    const engine = getEngine();
+    engine.init();
+    const row = activeLayerConfig.type === 'drum' ? CONSTANTS.ROWS - 1 : 10;
+    engine.playNote({
+      patch: layerPatches[activeLayerIdx],
+      layerIdx: activeLayerIdx,
+      r: row,
+      freq: rowToFrequency(row, {
+        scale,
+        root: rootNote,
+        transpose: layerTransposes[activeLayerIdx] || 0,
+        baseOctave: activeLayerConfig.baseOctave
+      }),
+      volume: layerVolumes[activeLayerIdx],
+      duration: 60 / bpm
+    });
+  };
+
+  const handleCustomScaleChange = (table) => {
+    setCustomScale(table);
+    setScaleId(CUSTOM_SCALE_ID);
+  };
+
   const handleBpmChange = (e) => {
     const val = Number(e.target.value);
     setBpm(Math.max(CONSTANTS.MIN_BPM, Math.min(CONSTANTS.MAX_BPM, val)));
   };
 
+  // 停止中は即座に切り替え、再生中は次の小節頭まで予約する
+  const selectPattern = (idx) => {
+    if (idx < 0 || idx >= PATTERN_SLOTS.length) return;
+    if (isPlaying && !songMode) {
+      setQueuedPatternIdx(idx === activePatternIdx ? null : idx);
+    } else if (!isPlaying) {
+      setActivePatternIdx(idx);
+      setQueuedPatternIdx(null);
+    }
+  };
+
+  const copyPattern = () => {
+    patternClipboardRef.current = clonePattern(grids);
+  };
+
+  const pastePattern = () => {
+    if (!patternClipboardRef.current) return;
+    const copied = clonePattern(patternClipboardRef.current);
+    setGrids(() => copied);
+  };
+
+  // ソングチェーンの編集
+  const appendSongEntry = () => {
+    setSong(prev => prev.length >= MAX_SONG_LENGTH ? prev : [...prev, createSongEntry(activePatternIdx, 1)]);
+  };
+
+  const removeSongEntry = (pos) => {
+    setSong(prev => prev.length <= 1 ? prev : prev.filter((_, i) => i !== pos));
+  };
+
+  const changeSongRepeats = (pos, delta) => {
+    setSong(prev => prev.map((entry, i) => (
+      i === pos ? createSongEntry(entry.pattern, entry.repeats + delta) : entry
+    )));
+  };
+
+  const toggleSongMode = () => {
+    setSongMode(prev => !prev);
+    setQueuedPatternIdx(null);
+  };
+
+  // --- Session ---
+  const buildSession = () => createSession({
+    patterns, song, songMode, activePatternIdx, bpm, layerEffects, layerVolumes,
+    scaleId, customScale, rootNote, layerTransposes, layerPatches, layerSteps, layerDivisions, swing
+  });
+
+  // 読み込んだセッションを画面に反映 (再生は止める)
+  const applySession = useCallback((state) => {
+    setIsPlaying(false);
+    setPlayPositions(STOPPED_POSITIONS);
+    setQueuedPatternIdx(null);
+    setPatterns(state.patterns);
+    setActivePatternIdx(state.activePatternIdx);
+    setSong(state.song);
+    setSongMode(state.songMode);
+    setSongPos(0);
+    setBpm(state.bpm);
+    setLayerEffects(state.layerEffects);
+    setLayerVolumes(state.layerVolumes);
+    setScaleId(state.scaleId);
+    setCustomScale(state.customScale);
+    setRootNote(state.rootNote);
+    setLayerTransposes(state.layerTransposes);
+    setLayerPatches(state.layerPatches);
+    setLayerSteps(state.layerSteps);
+    setLayerDivisions(state.layerDivisions);
+    setSwing(state.swing);
+  }, []);
+
+  const showSessionMessage = (text, isError = false) => setSessionMessage({ text, isError });
+
+  const handleSaveSlot = (name) => {
+    try {
+      if (!saveSessionSlot(name, buildSession())) {
+        showSessionMessage('Storage is not available.', true);
+        return false;
+      }
+      setSessionSlots(listSessionSlots());
+      showSessionMessage(`Saved "${name.trim()}".`);
+      return true;
+    } catch (e) {
+      showSessionMessage(e.message, true);
+      return false;
+    }
+  };
+
+  const handleLoadSlot = (name) => {
+    try {
+      applySession(loadSessionSlot(name));
+      showSessionMessage(`Loaded "${name}".`);
+    } catch (e) {
+      showSessionMessage(e.message, true);
+    }
+  };
+
+  const handleDeleteSlot = (name) => {
+    deleteSessionSlot(name);
+    setSessionSlots(listSessionSlots());
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(buildSession(), null, 2)], { type: 'application/json' });
+    downloadBlob(blob, `lumina-grid-${new Date().toISOString().slice(0, 10)}.json`);
+  };
+
+  const handleBounce = async ({ bars, format, includeTail }) => {
+    setIsBouncing(true);
+    showSessionMessage(`Rendering ${bars} bar${bars > 1 ? 's' : ''}…`);
+    try {
+      const blob = await bounceToWav(
+        {
+          patterns, activePatternIdx, songMode, song, bpm, layerVolumes, layerPatches, scale, rootNote, layerTransposes,
+          layerSteps, layerDivisions, swing
+        },
+        { bars, format, includeTail }
+      );
+      downloadBlob(blob, `lumina-grid-${bpm}bpm-${bars}bars.wav`);
+      showSessionMessage(`Rendered ${(blob.size / 1024 / 1024).toFixed(1)} MB WAV.`);
+    } catch (e) {
+      console.error('Bounce failed:', e);
+      showSessionMessage(e.message, true);
+    } finally {
+      setIsBouncing(false);
+    }
+  };
+
+  const handleImport = async (file) => {
+    try {
+      applySession(parseSession(await file.text()));
+      showSessionMessage(`Imported ${file.name}.`);
+    } catch (e) {
+      showSessionMessage(e.message, true);
+    }
+  };
+
+  // ソングモードならチェーン全体、通常はアクティブなパターン1小節を書き出す
+  const handleExportMidi = () => {
+    const state = {
+      patterns, activePatternIdx, songMode, song, bpm, layerVolumes, layerPatches, scale, rootNote, layerTransposes,
+      layerSteps, layerDivisions, swing
+    };
+    const bars = getArrangementBars(state);
+    const bytes = encodeMidiFile(gridsToMidi(state, bars));
+    downloadBlob(new Blob([bytes], { type: 'audio/midi' }), `lumina-grid-${bpm}bpm.mid`);
+    showSessionMessage(`Exported ${bars} bar${bars > 1 ? 's' : ''} as MIDI.`);
+  };
+
+  // 読み込んだ小節はアクティブなスロットから順に上書きする
+  const handleImportMidi = async (file) => {
+    try {
+      const smf = parseMidiFile(await file.arrayBuffer());
+      const availableSlots = PATTERN_SLOTS.length - activePatternIdx;
+      const result = midiToGrids(smf, { scale, rootNote, layerTransposes }, availableSlots);
+
+      setIsPlaying(false);
+      setPlayPositions(STOPPED_POSITIONS);
+      setQueuedPatternIdx(null);
+      setPatterns(prev => prev.map((pattern, idx) => result.patterns[idx - activePatternIdx] || pattern));
+      if (result.bpm) setBpm(Math.round(Math.max(CONSTANTS.MIN_BPM, Math.min(CONSTANTS.MAX_BPM, result.bpm))));
+
+      const last = PATTERN_SLOTS[activePatternIdx + result.patterns.length - 1];
+      const range = result.patterns.length > 1 ? `${PATTERN_SLOTS[activePatternIdx]}-${last}` : last;
+      showSessionMessage(result.truncatedBars > 0
+        ? `Imported into ${range}; ${result.truncatedBars} bar(s) did not fit.`
+        : `Imported into pattern ${range}.`);
+    } catch (e) {
+      showSessionMessage(e.message, true);
+    }
+  };
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${window.location.pathname}${HASH_PREFIX}${encodeSessionHash(buildSession())}`;
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      showSessionMessage('Link copied to clipboard.');
+    } catch {
+      showSessionMessage('Link written to the address bar.');
+    }
+  };
+
+  const toggleSessionPanel = () => {
+    if (!isSessionOpen) setSessionSlots(listSessionSlots());
+    setIsSessionOpen(!isSessionOpen);
+    setIsMidiOpen(false);
+    setSessionMessage(null);
+  };
+
+  // --- Web MIDI ---
+  const bridgeRef = useRef(null);
+  const followerRef = useRef(null);
+  const midiMessageRef = useRef(null); // 最新の state を参照する受信ハンドラ
+  const midiCursorRef = useRef(0); // 停止中のステップ入力位置
+
+  const getFollower = useCallback(() => {
+    if (!followerRef.current) {
+      followerRef.current = new MidiClockFollower({
+        ticksPerBeat: TICKS_PER_BEAT,
+        onTempo: (value) => setBpm(Math.round(Math.max(CONSTANTS.MIN_BPM, Math.min(CONSTANTS.MAX_BPM, value))))
+      });
+    }
+    return followerRef.current;
+  }, []);
+
+  const handleMidiConnect = async () => {
+    if (!bridgeRef.current) {
+      bridgeRef.current = new WebMidiBridge({
+        onMessage: (message, timestamp) => {
+          if (midiMessageRef.current) midiMessageRef.current(message, timestamp);
+        },
+        onPortsChange: setMidiPorts
+      });
+    }
+    try {
+      setMidiPorts(await bridgeRef.current.connect());
+      setMidiStatus({ connected: true, error: null });
+    } catch (e) {
+      setMidiStatus({ connected: false, error: e.message });
+    }
+  };
+
+  const handleMidiRouteChange = (layerIdx, props) => {
+    setLayerMidiRoutes(prev => prev.map((route, idx) => (idx === layerIdx ? { ...route, ...props } : route)));
+  };
+
+  const toggleMidiPanel = () => {
+    setIsMidiOpen(!isMidiOpen);
+    setIsSessionOpen(false);
+  };
+
+  // 外部キーボードのノートをアクティブなレイヤーの行に割り当て、トグル (ステップ入力) または試聴する。
+  // 再生中は今鳴っている列、停止中は入力カーソルの列に入れてカーソルを進める
+  const handleMidiNote = ({ note, velocity }) => {
+    const engine = getEngine();
+    engine.init();
+    const row = createRowMapper(activeLayerIdx, { scale, rootNote, layerTransposes })(note);
+    const col = isPlaying ? Math.max(0, currentCol) : midiCursorRef.current % activeSteps;
+
+    engine.playNote({
+      patch: layerPatches[activeLayerIdx],
+      layerIdx: activeLayerIdx,
+      r: row,
+      freq: rowToFrequency(row, {
+        scale,
+        root: rootNote,
+        transpose: layerTransposes[activeLayerIdx] || 0,
+        baseOctave: activeLayerConfig.baseOctave
+      }),
+      volume: (layerVolumes[activeLayerIdx] ?? 0.8) * (velocity / 127),
+      duration: 0.25
+    });
+    addVisualEffect(row, col % CONSTANTS.COLS, layerEffects[activeLayerIdx], activeLayerConfig.color, activeLayerIdx, velocity / 127);
+
+    if (midiInputMode !== INPUT_MODES.TOGGLE) return;
+    setGrids((prev) => {
+      const layer = prev[activeLayerIdx];
+      if (!layer || !layer[row]) return prev;
+      const newGrids = [...prev];
+      const newLayer = layer.map(cells => [...cells]);
+      newLayer[row][col] = newLayer[row][col] ? false : createStep({ velocity: velocity / 127 });
+      newGrids[activeLayerIdx] = newLayer;
+      return newGrids;
+    });
+    if (!isPlaying) {
+      const cursor = (col + 1) % activeSteps;
+      midiCursorRef.current = cursor;
+      setPlayPositions(prev => prev.map((pos, idx) => (idx === activeLayerIdx ? cursor : pos)));
+    }
+  };
+
+  const handleMidiMessage = (message, timestamp) => {
+    const isFollowing = clockMode === CLOCK_MODES.FOLLOW;
+    switch (message.type) {
+      case 'noteOn':
+        handleMidiNote(message);
+        break;
+      case 'clock':
+        if (isFollowing) getFollower().pulse(timestamp, performance.now());
+        break;
+      case 'start':
+        if (!isFollowing) break;
+        getEngine().init();
+        getFollower().reset();
+        setIsPlaying(true);
+        break;
+      case 'continue':
+        if (!isFollowing) break;
+        getEngine().init();
+        setIsPlaying(true);
+        break;
+      case 'stop':
+        if (!isFollowing) break;
+        setIsPlaying(false);
+        setPlayPositions(STOPPED_POSITIONS);
+        setQueuedPatternIdx(null);
+        break;
+      default:
+        break;
+    }
+  };
+
+  useEffect(() => {
+    midiMessageRef.current = handleMidiMessage;
+  });
+
+  useEffect(() => {
+    if (bridgeRef.current) bridgeRef.current.setInput(midiInputId);
+  }, [midiInputId, midiPorts]);
+
+  // 起動時の復元: 共有リンク (URLハッシュ) を優先し、なければオートセーブから
+  const restoredRef = useRef(false);
+  useEffect(() => {
+    const restoreFromHash = () => {
+      const { hash } = window.location;
+      if (!hash.startsWith(HASH_PREFIX)) return false;
+      try {
+        applySession(decodeSessionHash(hash.slice(HASH_PREFIX.length)));
+        return true;
+      } catch (e) {
+        console.warn('Shared session ignored:', e);
+        return false;
+      }
+    };
+
+    if (!restoreFromHash()) {
+      const autosaved = loadAutosave();
+      if (autosaved) applySession(autosaved);
+    }
+    restoredRef.current = true;
+
+    window.addEventListener('hashchange', restoreFromHash);
+    return () => window.removeEventListener('hashchange', restoreFromHash);
+  }, [applySession]);
+
+  // オートセーブ (編集が落ち着いてから書き込む)
+  useEffect(() => {
+    if (!restoredRef.current) return;
+    const timerId = setTimeout(() => {
+      saveAutosave(createSession({
+        patterns, song, songMode, activePatternIdx, bpm, layerEffects, layerVolumes,
+        scaleId, customScale, rootNote, layerTransposes, layerPatches, layerSteps, layerDivisions, swing
+      }));
+    }, 800);
+    return () => clearTimeout(timerId);
+  }, [patterns, song, songMode, activePatternIdx, bpm, layerEffects, layerVolumes, scaleId, customScale, rootNote, layerTransposes, layerPatches, layerSteps, layerDivisions, swing]);
+
   // --- Visual Physics Loop ---
 
   useEffect(() => {
@@ -409,16 +1114,18 @@ export default function TenoriOn() {
     return () => {
       if (requestRef.current) cancelAnimationFrame(requestRef.current);
       if (engineRef.current) engineRef.current.dispose();
+      if (bridgeRef.current) bridgeRef.current.dispose();
     };
   }, []);
 
-  const addVisualEffect = useCallback((r, c, type, layerColor, layerIdx) => {
+  // intensity: ステップのベロシティ。エフェクトの明るさに掛ける
+  const addVisualEffect = useCallback((r, c, type, layerColor, layerIdx, intensity = 1) => {
     // パフォーマンスガード: 同時エフェクト数が多すぎる場合は追加しない
     setEffects(prev => {
       if (prev.length >= CONSTANTS.MAX_EFFECTS) return prev;
 
       const id = Math.random();
-      let newEffect = { id, type, r, c, startTime: Date.now(), color: layerColor, layerIdx };
+      let newEffect = { id, type, r, c, startTime: Date.now(), color: layerColor, layerIdx, intensity };
 
       if (type === 'GRAVITY') {
         newEffect = { ...newEffect, y: r, dy: 0 };
@@ -444,49 +1151,169 @@ export default function TenoriOn() {
   }, []);
 
   // --- Sequencer Loop ---
+  // スケジューラのコールバックは再生中ずっと生きているので、最新のstateはRef経由で参照する
+  const sequenceRef = useRef({
+    patterns, activePatternIdx, queuedPatternIdx, songMode, song, layerEffects, layerVolumes, layerPatches, bpm,
+    scale, rootNote, layerTransposes, layerSteps, layerDivisions, swing
+  });
   useEffect(() => {
-    let intervalId;
+    sequenceRef.current = {
+      patterns, activePatternIdx, queuedPatternIdx, songMode, song, layerEffects, layerVolumes, layerPatches, bpm,
+      scale, rootNote, layerTransposes, layerSteps, layerDivisions, swing
+    };
+  }, [patterns, activePatternIdx, queuedPatternIdx, songMode, song, layerEffects, layerVolumes, layerPatches, bpm, scale, rootNote, layerTransposes, layerSteps, layerDivisions, swing]);
 
-    if (isPlaying) {
-      // 安全策: BPMが0や負の場合の除算エラー防止
-      const safeBpm = Math.max(1, bpm);
-      const msPerBeat = (60 * 1000) / safeBpm / 4;
-
-      intervalId = setInterval(() => {
-        setCurrentCol((prev) => {
-          const nextCol = (prev + 1) % CONSTANTS.COLS;
-          const engine = getEngine();
-
-          // Batch grid processing
-          LAYERS_CONFIG.forEach((layer, idx) => {
-            // Grid boundary check
-            const layerGrid = grids[idx];
-            if (!layerGrid) return;
-
-            for (let r = 0; r < CONSTANTS.ROWS; r++) {
-              if (layerGrid[r] && layerGrid[r][nextCol]) {
-                const volume = layerVolumes[idx] !== undefined ? layerVolumes[idx] : 0.8;
-                engine.playTone(r, layer.type, layer.baseOctave, volume);
-
-                const effectType = layerEffects[idx];
-                addVisualEffect(r, nextCol, effectType, layer.color, idx);
-              }
-            }
-          });
-          return nextCol;
-        });
-      }, msPerBeat);
+  // MIDI出力の設定もスケジューラから参照する
+  const midiRef = useRef({ layerMidiRoutes, clockMode, clockOutputId });
+  useEffect(() => {
+    midiRef.current = { layerMidiRoutes, clockMode, clockOutputId };
+  }, [layerMidiRoutes, clockMode, clockOutputId]);
+
+  const schedulerRef = useRef(null);
+  // 予約済みだがまだ画面に反映していないステップ (オーディオクロックの時刻順)
+  const visualQueueRef = useRef([]);
+  const lastPositionsRef = useRef(null); // 最後にキューへ積んだスキャナー位置
+  const visualFrameRef = useRef(null);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+
+    const engine = getEngine();
+    engine.setDelayTime(getDelayTime(sequenceRef.current.bpm));
+    // 再生中のパターン位置はスケジューラ側 (先行予約の時間軸) で管理する
+    let playhead = createPlayhead(sequenceRef.current.activePatternIdx);
+
+    // 音はオーディオクロック上に先行予約し、見た目は予約時刻に達した時点で反映する。
+    // スケジューラは共通クロックの1 tick ごとに呼ばれ、各レイヤーは自分のステップ頭の tick でだけ鳴る
+    const scheduleStep = (tick, time, tickDuration) => {
+      const { patterns: bank } = sequenceRef.current;
+
+      // 小節の頭でパターンの切り替え (予約・ソングチェーン) を確定させる
+      let barChange = null;
+      if (tick % TICKS_PER_BAR === 0) {
+        const { songMode: isSong, song: chain, queuedPatternIdx: queued } = sequenceRef.current;
+        playhead = advanceBar(playhead, { songMode: isSong, song: chain, queuedIdx: queued });
+        barChange = { patternIdx: playhead.patternIdx, songPos: playhead.songPos };
+      }
+
+      const notes = getStepNotes(bank[playhead.patternIdx], tick, sequenceRef.current);
+      const hits = resolveHits(notes, time, tickDuration);
+      const { layerMidiRoutes: routes } = midiRef.current;
+      // MIDI出力先のあるレイヤーは LOCAL がオフなら内蔵音源を鳴らさない
+      playHits(engine, hits.filter(hit => routes[hit.layerIdx].local || !routes[hit.layerIdx].outputId));
+      sendMidi(hits, time, tickDuration);
+
+      // スキャナーの位置と、ヒット (スウィングで遅れたもの・ラチェットの連打を含む) を時刻順にキューへ積む
+      const queue = visualQueueRef.current;
+      const positions = getLayerPositions(tick, sequenceRef.current);
+      const previous = lastPositionsRef.current;
+      if (barChange || !previous || positions.some((pos, idx) => pos !== previous[idx])) {
+        insertByTime(queue, { time, positions, hits: [], barChange });
+        lastPositionsRef.current = positions;
+      }
+      const hitTimes = [...new Set(hits.map(hit => hit.time))];
+      hitTimes.forEach(t => {
+        insertByTime(queue, { time: t, positions: null, hits: hits.filter(hit => hit.time === t), barChange: null });
+      });
+    };
+
+    // ノートと (送信モードなら) クロックを MIDI 出力へ。タイムスタンプはオーディオクロックから換算する
+    let clockStarted = false;
+    let clockEnd = 0;
+    const sendMidi = (hits, time, tickDuration) => {
+      const bridge = bridgeRef.current;
+      if (!bridge || !bridge.isConnected) return;
+      const { layerMidiRoutes: routes, clockMode: mode, clockOutputId: clockOut } = midiRef.current;
+      const audioNow = engine.currentTime;
+      const perfNow = performance.now();
+      const toTimestamp = (t) => audioTimeToTimestamp(t, audioNow, perfNow);
+
+      hits.forEach(hit => {
+        const route = routes[hit.layerIdx];
+        if (!route.outputId) return;
+        bridge.sendNote(route.outputId, route.channel, noteToMidiNumber(hit), velocityFromVolume(hit.volume), toTimestamp(hit.time), hit.duration * 1000);
+      });
+
+      if (mode === CLOCK_MODES.SEND && clockOut) {
+        if (!clockStarted) {
+          bridge.send(clockOut, START_MESSAGE, toTimestamp(time));
+          clockStarted = true;
+        }
+        for (let k = 0; k < CLOCKS_PER_TICK; k++) {
+          bridge.send(clockOut, CLOCK_MESSAGE, toTimestamp(time + (k * tickDuration) / CLOCKS_PER_TICK));
+        }
+        clockEnd = time + tickDuration;
+      }
+    };
+
+    const callbacks = { getTime: () => engine.currentTime, onStep: scheduleStep, bpm: sequenceRef.current.bpm };
+    let scheduler;
+    if (clockMode === CLOCK_MODES.FOLLOW) {
+      scheduler = getFollower();
+      scheduler.attach(callbacks);
     } else {
-      setCurrentCol(-1);
+      scheduler = new StepScheduler({ ...callbacks, stepsPerBeat: TICKS_PER_BEAT });
     }
+    lastPositionsRef.current = null;
+    schedulerRef.current = scheduler;
+    scheduler.start();
+
+    const syncVisuals = () => {
+      const now = engine.currentTime;
+      const queue = visualQueueRef.current;
+      let latest = null;
+      let positions = null;
+
+      while (queue.length > 0 && queue[0].time <= now) {
+        latest = queue.shift();
+        if (latest.positions) positions = latest.positions;
+
+        const { barChange } = latest;
+        if (barChange) {
+          setActivePatternIdx(barChange.patternIdx);
+          setSongPos(barChange.songPos);
+          setQueuedPatternIdx(prev => (prev === barChange.patternIdx ? null : prev));
+        }
+
+        // 大きく遅れたステップ (タブ復帰直後など) はエフェクトを省略してカーソルだけ進める
+        if (now - latest.time > 0.25) continue;
+
+        const { layerEffects: effectsByLayer } = sequenceRef.current;
+        latest.hits.forEach(({ r, col, layerIdx, velocity }) => {
+          const layer = LAYERS_CONFIG[layerIdx];
+          // 16列を超えるステップは画面上の同じ列に重ねて光らせる
+          addVisualEffect(r, col % CONSTANTS.COLS, effectsByLayer[layerIdx], layer.color, layerIdx, velocity);
+        });
+      }
+      if (positions) setPlayPositions(positions);
+
+      visualFrameRef.current = requestAnimationFrame(syncVisuals);
+    };
+    visualFrameRef.current = requestAnimationFrame(syncVisuals);
 
     return () => {
-      if (intervalId) clearInterval(intervalId);
+      scheduler.stop();
+      // 予約済みのクロックを送り終えてから Stop を送る
+      const { clockOutputId: clockOut } = midiRef.current;
+      if (clockStarted && clockOut && bridgeRef.current) {
+        bridgeRef.current.send(clockOut, STOP_MESSAGE, audioTimeToTimestamp(Math.max(clockEnd, engine.currentTime), engine.currentTime, performance.now()));
+      }
+      schedulerRef.current = null;
+      visualQueueRef.current = [];
+      if (visualFrameRef.current) cancelAnimationFrame(visualFrameRef.current);
     };
-  }, [isPlaying, bpm, grids, layerEffects, layerVolumes, addVisualEffect]);
+  }, [isPlaying, getEngine, addVisualEffect, clockMode, getFollower]);
+
+  // BPM変更は再生を止めずにスケジューラへ反映 (ディレイもテンポに追従)
+  useEffect(() => {
+    if (schedulerRef.current) schedulerRef.current.setBpm(bpm);
+    if (engineRef.current) engineRef.current.setDelayTime(getDelayTime(bpm));
+  }, [bpm]);
 
   // --- Input Handlers ---
-  const handleMouseDown = () => {
+  const handleMouseDown = (e) => {
+    // Shift+クリック・右クリックはインスペクタ用なのでドラッグ描画を始めない
+    if (e && (e.button > 0 || e.shiftKey)) return;
     setIsMouseDown(true);
     lastTouchedRef.current = null;
     getEngine().init(); // User interaction trigger
@@ -506,7 +1333,7 @@ export default function TenoriOn() {
       if (newGrids[activeLayerIdx]) {
         const newLayer = newGrids[activeLayerIdx].map(row => [...row]);
         if (newLayer[r] !== undefined) {
-          newLayer[r][c] = !newLayer[r][c];
+          newLayer[r][c] = newLayer[r][c] ? false : createStep();
           newGrids[activeLayerIdx] = newLayer;
         }
       }
@@ -526,7 +1353,7 @@ export default function TenoriOn() {
         const currentVal = newGrids[activeLayerIdx][r]?.[c];
         if (currentVal === false) { // Only activate if currently inactive
           const newLayer = newGrids[activeLayerIdx].map(row => [...row]);
-          newLayer[r][c] = true;
+          newLayer[r][c] = createStep();
           newGrids[activeLayerIdx] = newLayer;
         }
         return newGrids;
@@ -535,6 +1362,57 @@ export default function TenoriOn() {
     }
   };
 
+  // --- Step Inspector ---
+  const updateStep = (r, c, props) => {
+    setGrids((prev) => {
+      const layer = prev[activeLayerIdx];
+      if (!layer || !layer[r]) return prev;
+      const current = sanitizeStep(layer[r][c]);
+      if (!current) return prev;
+      const newGrids = [...prev];
+      const newLayer = layer.map(row => [...row]);
+      newLayer[r][c] = createStep({ ...current, ...props });
+      newGrids[activeLayerIdx] = newLayer;
+      return newGrids;
+    });
+  };
+
+  const cancelLongPress = useCallback(() => {
+    if (longPressRef.current.timerId) clearTimeout(longPressRef.current.timerId);
+    longPressRef.current.timerId = null;
+  }, []);
+
+  const handleCellMouseDown = (e, r, c) => {
+    // 長押しで開いた直後の互換マウスイベントではトグルしない
+    if (longPressRef.current.fired) {
+      longPressRef.current.fired = false;
+      return;
+    }
+    if (e.button > 0) return;
+    if (e.shiftKey) {
+      setInspectedCell({ r, c });
+      return;
+    }
+    toggleCell(r, c);
+  };
+
+  const handleCellContextMenu = (e, r, c) => {
+    e.preventDefault();
+    setInspectedCell({ r, c });
+  };
+
+  const handleCellTouchStart = (r, c) => {
+    cancelLongPress();
+    longPressRef.current.fired = false;
+    longPressRef.current.cell = { r, c };
+    longPressRef.current.timerId = setTimeout(() => {
+      longPressRef.current.timerId = null;
+      longPressRef.current.fired = true;
+      setIsMouseDown(false);
+      setInspectedCell({ r, c });
+    }, 500);
+  };
+
   const handleTouchMove = useCallback((e) => {
     // Passive listener warning prevention happens in React usually, but preventDefault is needed for UI logic
     if (e.cancelable && e.target && e.target.closest('.grid-container')) {
@@ -552,6 +1430,11 @@ export default function TenoriOn() {
 
       if (lastTouchedRef.current && lastTouchedRef.current.r === r && lastTouchedRef.current.c === c) return;
 
+      // 長押し待ちの間は同じセル内の指のブレでは描画しない。別のセルに移ったらドラッグ描画に切り替える
+      const pressed = longPressRef.current;
+      if (pressed.timerId && pressed.cell && pressed.cell.r === r && pressed.cell.c === c) return;
+      cancelLongPress();
+
       setGrids((prev) => {
         const newGrids = [...prev];
         if (!newGrids[activeLayerIdx]) return prev;
@@ -559,7 +1442,7 @@ export default function TenoriOn() {
         const currentVal = newGrids[activeLayerIdx][r]?.[c];
         if (currentVal === false) {
           const newLayer = newGrids[activeLayerIdx].map(row => [...row]);
-          newLayer[r][c] = true;
+          newLayer[r][c] = createStep();
           newGrids[activeLayerIdx] = newLayer;
           return newGrids;
         }
@@ -567,7 +1450,7 @@ export default function TenoriOn() {
       });
       lastTouchedRef.current = { r, c };
     }
-  }, [activeLayerIdx]); // grids removed from dependency to prevent lag, relying on functional state update
+  }, [activeLayerIdx, setGrids, cancelLongPress]); // grids removed from dependency to prevent lag, relying on functional state update
 
   // --- Rendering Helpers (Memoized for performance) ---
 
@@ -583,6 +1466,8 @@ export default function TenoriOn() {
       // Simple distance check to skip expensive calculations for far-away effects
       if (Math.abs(eff.r - r) > 8 && Math.abs(eff.c - c) > 8 && eff.type !== 'SPLASH') continue;
 
+      // このエフェクトの寄与分だけをベロシティで弱める
+      const before = brightness;
       if (eff.type === 'RIPPLE') {
         const timeDelta = now - eff.startTime;
         const radius = timeDelta * 0.012;
@@ -623,6 +1508,7 @@ export default function TenoriOn() {
           if (distR === distC && distR < 3) brightness += (1 - distR / 3) * life * 0.7;
         }
       }
+      brightness = before + (brightness - before) * (eff.intensity ?? 1);
       if (brightness >= 1) break; // Clamp early
     }
     return Math.min(1, brightness);
@@ -632,8 +1518,158 @@ export default function TenoriOn() {
     <div className="h-[100dvh] w-full bg-neutral-900 flex flex-col items-center overflow-hidden font-sans text-white select-none touch-none">
 
       {/* Header */}
-      <div className="h-10 md:h-12 flex items-center justify-center shrink-0 w-full bg-neutral-900/80 z-20">
+      <div className="relative h-10 md:h-12 flex items-center justify-center shrink-0 w-full bg-neutral-900/80 z-30">
+        <button
+          onClick={() => setIsTuningOpen(!isTuningOpen)}
+          className={`absolute left-2 md:left-4 px-2 py-1 rounded text-[10px] font-bold border transition-colors
+            ${isTuningOpen ? 'bg-gray-200 text-black border-white' : 'bg-gray-800 text-gray-400 border-gray-700 hover:text-white'}`}
+          aria-label="Tuning Menu"
+        >
+          {NOTE_NAMES[rootNote]} {scale.name.toUpperCase()}
+        </button>
+        {isTuningOpen && (
+          <TuningPanel
+            scaleId={scaleId}
+            rootNote={rootNote}
+            customScale={customScale}
+            onScaleChange={setScaleId}
+            onRootChange={setRootNote}
+            onCustomScaleChange={handleCustomScaleChange}
+            onClose={() => setIsTuningOpen(false)}
+          />
+        )}
         <h1 className="text-sm md:text-lg font-light tracking-[0.3em] text-gray-400">LUMINA GRID</h1>
+        <div className="absolute right-2 md:right-4 flex gap-1">
+          <button
+            onClick={toggleMidiPanel}
+            className={`px-2 py-1 rounded text-[10px] font-bold border transition-colors
+              ${isMidiOpen ? 'bg-gray-200 text-black border-white' : 'bg-gray-800 text-gray-400 border-gray-700 hover:text-white'}`}
+            aria-label="MIDI Menu"
+          >
+            MIDI{clockMode === CLOCK_MODES.FOLLOW ? ' ⇠' : clockMode === CLOCK_MODES.SEND ? ' ⇢' : ''}
+          </button>
+          <button
+            onClick={toggleSessionPanel}
+            className={`px-2 py-1 rounded text-[10px] font-bold border transition-colors
+              ${isSessionOpen ? 'bg-gray-200 text-black border-white' : 'bg-gray-800 text-gray-400 border-gray-700 hover:text-white'}`}
+            aria-label="Session Menu"
+          >
+            SESSION
+          </button>
+        </div>
+        {isMidiOpen && (
+          <MidiPanel
+            status={midiStatus}
+            ports={midiPorts}
+            inputId={midiInputId}
+            inputMode={midiInputMode}
+            clockMode={clockMode}
+            clockOutputId={clockOutputId}
+            layerRoutes={layerMidiRoutes}
+            onConnect={handleMidiConnect}
+            onInputChange={setMidiInputId}
+            onInputModeChange={setMidiInputMode}
+            onClockModeChange={setClockMode}
+            onClockOutputChange={setClockOutputId}
+            onRouteChange={handleMidiRouteChange}
+            onClose={() => setIsMidiOpen(false)}
+          />
+        )}
+        {isSessionOpen && (
+          <SessionPanel
+            slots={sessionSlots}
+            message={sessionMessage}
+            onSaveSlot={handleSaveSlot}
+            onLoadSlot={handleLoadSlot}
+            onDeleteSlot={handleDeleteSlot}
+            onExport={handleExport}
+            onImport={handleImport}
+            onShare={handleShare}
+            songBars={songMode ? getArrangementBars({ songMode, song }) : 0}
+            isBouncing={isBouncing}
+            onBounce={handleBounce}
+            onExportMidi={handleExportMidi}
+            onImportMidi={handleImportMidi}
+            onClose={toggleSessionPanel}
+          />
+        )}
+      </div>
+
+      {/* Pattern Bank & Song Chain */}
+      <div className="shrink-0 w-full max-w-3xl flex flex-col gap-1 px-2 md:px-4 z-20">
+        <div className="flex items-center gap-1">
+          {PATTERN_SLOTS.map((slot, idx) => {
+            const isActive = activePatternIdx === idx;
+            const isQueued = queuedPatternIdx === idx;
+            const isEmpty = isPatternEmpty(patterns[idx]);
+            return (
+              <button
+                key={slot}
+                onClick={() => selectPattern(idx)}
+                disabled={isPlaying && songMode}
+                className={`flex-1 h-7 rounded text-[10px] font-bold border transition-colors disabled:cursor-not-allowed
+                  ${isActive
+                    ? 'bg-gray-200 text-black border-white'
+                    : isQueued
+                      ? 'bg-gray-700 text-white border-orange-400 animate-pulse'
+                      : isEmpty
+                        ? 'bg-gray-900 text-gray-600 border-gray-800 hover:text-gray-300'
+                        : 'bg-gray-800 text-gray-300 border-gray-600 hover:text-white'}`}
+                aria-label={`Pattern ${slot}`}
+              >
+                {slot}
+              </button>
+            );
+          })}
+          <button
+            onClick={copyPattern}
+            className="h-7 px-2 rounded text-[9px] font-bold bg-gray-800 border border-gray-700 text-gray-400 hover:text-white"
+            aria-label="Copy Pattern"
+          >
+            COPY
+          </button>
+          <button
+            onClick={pastePattern}
+            className="h-7 px-2 rounded text-[9px] font-bold bg-gray-800 border border-gray-700 text-gray-400 hover:text-white"
+            aria-label="Paste Pattern"
+          >
+            PASTE
+          </button>
+          <button
+            onClick={toggleSongMode}
+            className={`h-7 px-2 rounded text-[9px] font-bold border transition-colors
+              ${songMode ? 'bg-orange-500/20 border-orange-500 text-orange-400' : 'bg-gray-800 border-gray-700 text-gray-400 hover:text-white'}`}
+            aria-label="Toggle Song Mode"
+          >
+            SONG
+          </button>
+        </div>
+
+        {songMode && (
+          <div className="flex items-center gap-1 overflow-x-auto pb-1">
+            {song.map((entry, pos) => (
+              <div
+                key={pos}
+                className={`flex items-center shrink-0 rounded border text-[10px] font-bold
+                  ${isPlaying && songPos === pos ? 'border-orange-400 text-white bg-orange-500/10' : 'border-gray-700 text-gray-400 bg-gray-800'}`}
+              >
+                <span className="pl-2 pr-1">{PATTERN_SLOTS[entry.pattern]}</span>
+                <button onClick={() => changeSongRepeats(pos, -1)} disabled={entry.repeats <= 1} className="px-1 text-gray-500 hover:text-white disabled:opacity-30" aria-label="Decrease Repeats">-</button>
+                <span className="text-gray-500">×{entry.repeats}</span>
+                <button onClick={() => changeSongRepeats(pos, 1)} disabled={entry.repeats >= MAX_SONG_REPEATS} className="px-1 text-gray-500 hover:text-white disabled:opacity-30" aria-label="Increase Repeats">+</button>
+                <button onClick={() => removeSongEntry(pos)} disabled={song.length <= 1} className="pr-2 pl-1 text-gray-600 hover:text-red-400 disabled:opacity-30" aria-label="Remove Song Entry">×</button>
+              </div>
+            ))}
+            <button
+              onClick={appendSongEntry}
+              disabled={song.length >= MAX_SONG_LENGTH}
+              className="shrink-0 px-2 py-0.5 rounded border border-dashed border-gray-600 text-[10px] font-bold text-gray-400 hover:text-white disabled:opacity-30"
+              aria-label="Append Current Pattern to Song"
+            >
+              + {PATTERN_SLOTS[activePatternIdx]}
+            </button>
+          </div>
+        )}
       </div>
 
       {/* Main Content Area */}
@@ -652,21 +1688,29 @@ export default function TenoriOn() {
               onMouseUp={handleMouseUp}
               onMouseLeave={handleMouseUp}
               onTouchStart={handleMouseDown}
-              onTouchEnd={handleMouseUp}
+              onTouchEnd={() => {
+                cancelLongPress();
+                handleMouseUp();
+              }}
               onTouchMove={handleTouchMove}
             >
               <div className="w-full h-full grid grid-cols-16 gap-px bg-gray-900">
                 {grids[activeLayerIdx]?.map((row, r) => (
-                  row.map((active, c) => {
+                  row.slice(pageOffset, pageOffset + CONSTANTS.COLS).map((active, vc) => {
+                    // c はレイヤー内のステップ番号、vc は画面上の列 (エフェクトの座標)
+                    const c = pageOffset + vc;
+                    const isOutside = c >= activeSteps;
                     const isScannerHere = currentCol === c;
                     // Calculate brightness only if needed for render
-                    const brightness = getCellBrightness(r, c);
-                    const displaced = effects.some(eff => eff.layerIdx === activeLayerIdx && eff.type === 'GRAVITY' && eff.r === r && eff.c === c);
+                    const brightness = getCellBrightness(r, vc);
+                    const displaced = effects.some(eff => eff.layerIdx === activeLayerIdx && eff.type === 'GRAVITY' && eff.r === r && eff.c === vc);
 
                     let bg = 'bg-gray-800 opacity-30';
                     let shadow = 'none';
                     let opacity = 0.3;
                     const effectActive = brightness > 0.01;
+                    const step = sanitizeStep(active);
+                    const isInspected = inspectedCell && inspectedCell.r === r && inspectedCell.c === c;
 
                     if (displaced && active) {
                       bg = 'transparent';
@@ -686,7 +1730,8 @@ export default function TenoriOn() {
                     }
 
                     const style = {
-                      opacity: displaced ? Math.max(0, brightness) : active ? 1 : Math.max(opacity, brightness),
+                      // ONのセルはベロシティで濃さを変える
+                      opacity: displaced ? Math.max(0, brightness) : active ? 0.35 + 0.65 * step.velocity : Math.max(opacity, brightness),
                       transform: active && isScannerHere ? 'scale(1.1)' : 'scale(1)',
                       backgroundColor: (displaced || !active) && effectActive
                         ? `rgba(255,255,255,${brightness})`
@@ -695,24 +1740,44 @@ export default function TenoriOn() {
                       boxShadow: active && !displaced
                         ? shadow
                         : (effectActive ? `0 0 10px ${brightness * 4}px rgba(255,255,255,${brightness * 0.6})` : undefined),
-                      ...(!active && !effectActive ? { backgroundColor: isScannerHere ? 'rgb(55 65 81)' : 'rgb(31 41 55)' } : {})
+                      ...(!active && !effectActive ? { backgroundColor: isScannerHere ? 'rgb(55 65 81)' : 'rgb(31 41 55)' } : {}),
+                      // 確率 < 100% のステップは破線の縁取り
+                      ...(step && !displaced && step.probability < 1 ? { border: '2px dashed rgba(0,0,0,0.55)' } : {})
                     };
 
                     return (
                       <div
                         key={`${r}-${c}`}
-                        className="relative flex items-center justify-center cursor-pointer"
-                        onMouseDown={() => toggleCell(r, c)}
+                        className={`relative flex items-center justify-center ${isOutside ? 'opacity-10 pointer-events-none' : 'cursor-pointer'}`}
+                        onMouseDown={(e) => handleCellMouseDown(e, r, c)}
                         onMouseEnter={() => handleMouseEnter(r, c)}
+                        onContextMenu={(e) => handleCellContextMenu(e, r, c)}
+                        onTouchStart={() => handleCellTouchStart(r, c)}
                         data-row={r}
                         data-col={c}
                       >
-                        <div className={`w-[85%] h-[85%] rounded-full transition-transform duration-75 relative z-10 pointer-events-none`} style={style}></div>
+                        <div className={`w-[85%] h-[85%] rounded-full transition-transform duration-75 relative z-10 pointer-events-none flex items-center justify-center
+                          ${isInspected ? 'ring-2 ring-white' : ''}`} style={style}>
+                          {step && !displaced && step.ratchet > 1 && (
+                            <span className="text-[7px] md:text-[9px] font-bold text-black/70 leading-none">{step.ratchet}</span>
+                          )}
+                        </div>
                       </div>
                     );
                   })
                 ))}
               </div>
+              {inspectedCell && (
+                <StepInspector
+                  row={inspectedCell.r}
+                  col={inspectedCell.c}
+                  step={sanitizeStep(grids[activeLayerIdx]?.[inspectedCell.r]?.[inspectedCell.c])}
+                  layerColor={activeLayerConfig.color}
+                  onChange={(props) => updateStep(inspectedCell.r, inspectedCell.c, props)}
+                  onToggle={() => toggleCell(inspectedCell.r, inspectedCell.c)}
+                  onClose={() => setInspectedCell(null)}
+                />
+              )}
             </div>
           </div>
         </div>
@@ -744,6 +1809,17 @@ export default function TenoriOn() {
                 className="w-full h-1.5 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-white"
                 aria-label="BPM Control"
               />
+              <span className="text-[10px] lg:text-xs font-bold text-gray-500 tracking-wider">SWING {Math.round(swing * 100)}%</span>
+              <input
+                type="range"
+                min="0"
+                max={MAX_SWING}
+                step="0.01"
+                value={swing}
+                onChange={(e) => setSwing(Number(e.target.value))}
+                className="w-full h-1.5 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-white"
+                aria-label="Swing"
+              />
             </div>
 
             <button
@@ -825,10 +1901,102 @@ export default function TenoriOn() {
                   aria-label="Layer Volume"
                 />
               </div>
+
+              {/* Layer Steps & Division (レイヤーごとに長さが違えばポリメーターになる) */}
+              <div className="flex flex-col gap-1">
+                <div className="flex justify-between items-center text-[8px] font-bold text-gray-500 tracking-widest">
+                  <span>STEPS</span>
+                  <span>{activeSteps}</span>
+                </div>
+                <input
+                  type="range"
+                  min={MIN_STEPS}
+                  max={MAX_STEPS}
+                  step="1"
+                  value={activeSteps}
+                  onChange={(e) => handleStepsChange(Number(e.target.value))}
+                  className="w-full h-1.5 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-white"
+                  aria-label="Layer Steps"
+                />
+                <div className="grid grid-cols-4 gap-1">
+                  {DIVISIONS.map(division => (
+                    <button
+                      key={division.id}
+                      onClick={() => handleDivisionChange(division.id)}
+                      className={`rounded text-[8px] font-bold py-1
+                        ${layerDivisions[activeLayerIdx] === division.id
+                          ? 'bg-gray-200 text-black shadow-inner scale-95'
+                          : 'bg-gray-700 text-gray-400 hover:bg-gray-600 hover:text-white'}`}
+                    >
+                      {division.label}
+                    </button>
+                  ))}
+                </div>
+                {/* 16列を超える分はページで切り替えて表示。再生中のページには印を付ける */}
+                {pageCount > 1 && (
+                  <div className="grid grid-cols-4 gap-1">
+                    {Array.from({ length: pageCount }, (_, page) => {
+                      const isPlayingPage = currentCol >= 0 && Math.floor(currentCol / CONSTANTS.COLS) === page;
+                      return (
+                        <button
+                          key={page}
+                          onClick={() => setGridPage(page)}
+                          className={`rounded text-[8px] font-bold py-1 border
+                            ${viewPage === page ? 'bg-gray-200 text-black' : 'bg-gray-700 text-gray-400 hover:text-white'}
+                            ${isPlayingPage ? 'border-white' : 'border-transparent'}`}
+                          aria-label={`Steps ${page * CONSTANTS.COLS + 1}-${(page + 1) * CONSTANTS.COLS}`}
+                        >
+                          {page * CONSTANTS.COLS + 1}-
+                        </button>
+                      );
+                    })}
+                  </div>
+                )}
+              </div>
+
+              {/* Layer Patch */}
+              <button
+                onClick={() => setIsPatchOpen(!isPatchOpen)}
+                className={`w-full py-1 rounded text-[8px] font-bold tracking-widest border transition-colors
+                  ${isPatchOpen ? 'bg-gray-200 text-black border-white' : 'bg-gray-700 text-gray-400 border-gray-600 hover:text-white'}`}
+                aria-label="Patch Editor"
+              >
+                PATCH · {VOICES[layerPatches[activeLayerIdx].voice].label}
+              </button>
+
+              {/* Layer Transpose (ドラムは音程を持たないので無効) */}
+              <div className={`flex flex-col gap-1 ${activeLayerConfig.type === 'drum' ? 'opacity-30' : ''}`}>
+                <div className="flex justify-between items-center text-[8px] font-bold text-gray-500 tracking-widest">
+                  <span>TRANSPOSE</span>
+                  <span>{layerTransposes[activeLayerIdx] > 0 ? '+' : ''}{layerTransposes[activeLayerIdx] || 0} st</span>
+                </div>
+                <input
+                  type="range"
+                  min={-TRANSPOSE_RANGE}
+                  max={TRANSPOSE_RANGE}
+                  step="1"
+                  value={layerTransposes[activeLayerIdx] || 0}
+                  onChange={(e) => handleTransposeChange(Number(e.target.value))}
+                  disabled={activeLayerConfig.type === 'drum'}
+                  className="w-full h-1.5 bg-gray-600 rounded-lg appearance-none cursor-pointer accent-white"
+                  aria-label="Layer Transpose"
+                />
+              </div>
             </div>
           </div>
         </div>
       </div>
+
+      {isPatchOpen && (
+        <PatchPanel
+          layer={activeLayerConfig}
+          patch={layerPatches[activeLayerIdx]}
+          onChange={handlePatchChange}
+          onReset={() => handlePatchChange(createDefaultPatch(activeLayerConfig))}
+          onAudition={handleAuditionPatch}
+          onClose={() => setIsPatchOpen(false)}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,63 @@
+// --- Pattern Bank & Song Mode ---
+// 1パターン = 全レイヤー分のグリッド (1小節)。スロット A〜H を切り替えて曲を組み立てる。
+
+export const PATTERN_SLOTS = Object.freeze(['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H']);
+
+export const MAX_SONG_LENGTH = 64;
+export const MAX_SONG_REPEATS = 16;
+
+export const createEmptyGrid = (rows, cols) =>
+  Array(rows).fill().map(() => Array(cols).fill(false));
+
+export const createEmptyPattern = (layerCount, rows, cols) =>
+  Array(layerCount).fill().map(() => createEmptyGrid(rows, cols));
+
+export const createPatternBank = (layerCount, rows, cols) =>
+  PATTERN_SLOTS.map(() => createEmptyPattern(layerCount, rows, cols));
+
+export const clonePattern = (pattern) => pattern.map(grid => grid.map(row => [...row]));
+
+export const isPatternEmpty = (pattern) =>
+  pattern.every(grid => grid.every(row => row.every(cell => !cell)));
+
+// ソングのエントリ: { pattern: スロット番号, repeats: 繰り返し小節数 }
+export const createSongEntry = (pattern, repeats = 1) => ({
+  pattern: Math.max(0, Math.min(PATTERN_SLOTS.length - 1, pattern | 0)),
+  repeats: Math.max(1, Math.min(MAX_SONG_REPEATS, repeats | 0))
+});
+
+// 再生位置の初期状態
+export const createPlayhead = (patternIdx = 0) => ({
+  patternIdx,
+  songPos: 0,
+  barInEntry: 0,
+  bar: -1
+});
+
+// 小節の頭で呼ばれ、次の小節で鳴らすパターンを決める (純粋関数)
+// - ソングモード: チェーンを repeats 回ずつ進み、末尾まで来たら先頭へ戻る
+// - 通常モード: 予約 (queuedIdx) があればここで切り替える
+export const advanceBar = (playhead, { songMode, song, queuedIdx }) => {
+  const isFirstBar = playhead.bar < 0;
+  const next = { ...playhead, bar: playhead.bar + 1 };
+
+  if (songMode && song.length > 0) {
+    // 再生中にチェーンが短くなっても範囲外を参照しないように
+    const pos = Math.min(playhead.songPos, song.length - 1);
+    next.songPos = pos;
+    next.barInEntry = 0;
+
+    if (!isFirstBar && playhead.barInEntry + 1 < song[pos].repeats) {
+      next.barInEntry = playhead.barInEntry + 1;
+    } else if (!isFirstBar) {
+      next.songPos = (pos + 1) % song.length;
+    }
+    next.patternIdx = song[next.songPos].pattern;
+    return next;
+  }
+
+  if (queuedIdx !== null && queuedIdx !== undefined) {
+    next.patternIdx = queuedIdx;
+  }
+  return next;
+};
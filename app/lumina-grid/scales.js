@@ -0,0 +1,84 @@
+// --- Scales & Tuning ---
+// スケールは「1周期 (通常は1オクターブ=1200セント) 内のセント値テーブル」で表す。
+// グリッドの行はスケールの度数に対応させるので、スケールを変えても既存のグリッドはそのまま鳴らせる。
+
+const OCTAVE_CENTS = 1200;
+const ratioToCents = (ratio) => OCTAVE_CENTS * Math.log2(ratio);
+
+export const NOTE_NAMES = Object.freeze(['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B']);
+export const DEFAULT_ROOT = 5; // F
+
+export const CUSTOM_SCALE_ID = 'custom';
+
+// 初期スケールは従来の PENTATONIC_RATIOS (平均律の 0,3,5,7,9 半音) と同じ音程
+export const SCALES = Object.freeze([
+  { id: 'pentatonic', name: 'Pentatonic', cents: [0, 300, 500, 700, 900] },
+  { id: 'ji-pentatonic', name: 'Just Pentatonic', cents: [1, 6 / 5, 4 / 3, 3 / 2, 5 / 3].map(ratioToCents) },
+  { id: 'major', name: 'Major', cents: [0, 200, 400, 500, 700, 900, 1100] },
+  { id: 'minor', name: 'Natural Minor', cents: [0, 200, 300, 500, 700, 800, 1000] },
+  { id: 'dorian', name: 'Dorian', cents: [0, 200, 300, 500, 700, 900, 1000] },
+  { id: 'whole-tone', name: 'Whole Tone', cents: [0, 200, 400, 600, 800, 1000] },
+  { id: 'chromatic', name: 'Chromatic', cents: [0, 100, 200, 300, 400, 500, 600, 700, 800, 900, 1000, 1100] }
+].map(scale => Object.freeze({ ...scale, period: OCTAVE_CENTS })));
+
+export const DEFAULT_SCALE_ID = SCALES[0].id;
+export const MAX_CUSTOM_STEPS = 31;
+export const MAX_PERIOD_CENTS = 2400;
+export const TRANSPOSE_RANGE = 24; // ±2オクターブ (半音単位)
+
+// 基準になる度数0の行。従来の音域 (row 10 = ルート) を保つ
+const ROOT_ROW = 10;
+// ルートは3オクターブ目 (C3 = MIDI 48) に置く。既定の F なら従来の BASE_FREQ (174.61Hz) と一致
+const ROOT_MIDI_BASE = 48;
+
+export const rootFrequency = (root) => 440 * Math.pow(2, (ROOT_MIDI_BASE + root - 69) / 12);
+
+// カスタムスケールの入力 ("0 150 300 ..." やカンマ区切り) をパースする。
+// 1200以上の最大値は周期 (非オクターブ音律用) とみなす。不正な場合は Error を投げる
+export const parseCentsTable = (text) => {
+  const values = String(text)
+    .split(/[\s,]+/)
+    .filter(Boolean)
+    .map(Number);
+
+  if (values.length === 0) throw new Error('Enter at least one cents value.');
+  if (values.some(v => !Number.isFinite(v) || v < 0)) throw new Error('Cents must be non-negative numbers.');
+
+  let period = OCTAVE_CENTS;
+  const maxValue = Math.max(...values);
+  if (maxValue >= OCTAVE_CENTS) {
+    period = maxValue;
+    values.splice(values.indexOf(maxValue), 1);
+  }
+  if (period > MAX_PERIOD_CENTS) throw new Error(`Period must be at most ${MAX_PERIOD_CENTS} cents.`);
+
+  const cents = [...new Set([0, ...values])].sort((a, b) => a - b);
+  if (cents.length > MAX_CUSTOM_STEPS) throw new Error(`At most ${MAX_CUSTOM_STEPS} steps per period.`);
+
+  return { cents, period };
+};
+
+export const formatCentsTable = ({ cents, period }) => {
+  const body = cents.map(c => Number(c.toFixed(1))).join(' ');
+  return period === OCTAVE_CENTS ? body : `${body} ${period}`;
+};
+
+export const getScale = (scaleId, customScale) => {
+  if (scaleId === CUSTOM_SCALE_ID && customScale) return { id: CUSTOM_SCALE_ID, name: 'Custom', ...customScale };
+  return SCALES.find(scale => scale.id === scaleId) || SCALES[0];
+};
+
+// 行 -> 周波数 (Hz)
+// tuning: { scale, root, transpose (半音), baseOctave }
+export const rowToFrequency = (row, { scale, root, transpose = 0, baseOctave = 0 }) => {
+  const steps = scale.cents.length;
+  const degree = ROOT_ROW - row;
+  const octave = Math.floor(degree / steps);
+  const index = degree - octave * steps;
+
+  const cents = octave * scale.period + scale.cents[index] + transpose * 100 + baseOctave * OCTAVE_CENTS;
+  return rootFrequency(root) * Math.pow(2, cents / OCTAVE_CENTS);
+};
+
+export const clampTranspose = (value) =>
+  Math.max(-TRANSPOSE_RANGE, Math.min(TRANSPOSE_RANGE, Math.round(Number(value) || 0)));
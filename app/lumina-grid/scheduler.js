@@ -0,0 +1,80 @@
+// --- Lookahead Scheduler ---
+// setInterval のタイミングは信用せず、AudioContext の時計上に少し先までノートを予約する。
+// (タイマーはあくまで「予約を補充するきっかけ」にすぎない)
+
+const DEFAULTS = Object.freeze({
+  LOOKAHEAD_MS: 25,        // 予約チェックの間隔
+  SCHEDULE_AHEAD_SEC: 0.1, // どれだけ先まで予約するか
+  START_DELAY_SEC: 0.05    // 再生開始時の余裕 (最初のノートが欠けないように)
+});
+
+export class StepScheduler {
+  // getTime: オーディオクロックの現在時刻 (秒)
+  // onStep(step, time, duration): ステップを time に予約するコールバック
+  // stepsPerBeat: 1拍あたりのステップ数 (4 なら16分音符ごと)
+  constructor({
+    getTime, onStep, bpm = 120, stepsPerBeat = 4,
+    lookaheadMs = DEFAULTS.LOOKAHEAD_MS, scheduleAheadSec = DEFAULTS.SCHEDULE_AHEAD_SEC
+  }) {
+    this.getTime = getTime;
+    this.onStep = onStep;
+    this.stepsPerBeat = stepsPerBeat;
+    this.lookaheadMs = lookaheadMs;
+    this.scheduleAheadSec = scheduleAheadSec;
+    this.bpm = bpm;
+
+    this.timerId = null;
+    this.step = 0;
+    this.nextStepTime = 0;
+  }
+
+  get isRunning() {
+    return this.timerId !== null;
+  }
+
+  // 1ステップの長さ (秒)
+  get stepDuration() {
+    // 安全策: BPMが0や負の場合の除算エラー防止
+    return 60 / Math.max(1, this.bpm) / this.stepsPerBeat;
+  }
+
+  // BPM変更は次に予約するステップから反映される (予約済みのノートはそのまま)
+  setBpm(bpm) {
+    if (Number.isFinite(bpm)) this.bpm = bpm;
+  }
+
+  start(startStep = 0) {
+    if (this.isRunning) return;
+    this.step = startStep;
+    this.nextStepTime = this.getTime() + DEFAULTS.START_DELAY_SEC;
+    this.tick();
+    this.timerId = setInterval(() => this.tick(), this.lookaheadMs);
+  }
+
+  stop() {
+    if (this.timerId !== null) clearInterval(this.timerId);
+    this.timerId = null;
+  }
+
+  tick() {
+    const now = this.getTime();
+
+    // タブが長時間バックグラウンドにあった場合、溜まったステップを一気に鳴らさず現在時刻へ追いつく
+    if (this.nextStepTime < now - this.scheduleAheadSec) {
+      const missed = Math.ceil((now - this.nextStepTime) / this.stepDuration);
+      this.step += missed;
+      this.nextStepTime += missed * this.stepDuration;
+    }
+
+    while (this.nextStepTime < now + this.scheduleAheadSec) {
+      const duration = this.stepDuration;
+      try {
+        this.onStep(this.step, this.nextStepTime, duration);
+      } catch (e) {
+        console.warn('Scheduler step error:', e);
+      }
+      this.nextStepTime += duration;
+      this.step++;
+    }
+  }
+}
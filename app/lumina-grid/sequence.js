@@ -0,0 +1,119 @@
+// --- Step Evaluation ---
+// 共通クロックの1 tick ごとに、ステップ頭を迎えたレイヤーのノートを求める。リアルタイム再生とオフライン書き出しで共用する。
+
+import { CONSTANTS, LAYERS_CONFIG } from './constants';
+import { rowToFrequency } from './scales';
+import { createPlayhead, advanceBar } from './patterns';
+import { sanitizeStep } from './steps';
+import { createDefaultPatch } from './voices';
+import { TICKS_PER_BAR, DEFAULT_STEPS, DEFAULT_DIVISION, getDivision, getStepAtTick, getLayerPosition, getSwingDelay } from './timing';
+
+const DEFAULT_VOLUME = 0.8;
+const DEFAULT_PATCHES = LAYERS_CONFIG.map(createDefaultPatch);
+
+// レイヤーのステップ数・分割 (未指定なら 16 ステップの16分音符)
+const getLayerTiming = ({ layerSteps, layerDivisions }, idx) => ({
+  steps: (layerSteps && layerSteps[idx]) || DEFAULT_STEPS,
+  division: (layerDivisions && layerDivisions[idx]) || DEFAULT_DIVISION
+});
+
+// tick 時点での各レイヤーの再生位置 (スキャナー表示用)
+export const getLayerPositions = (tick, mix) =>
+  LAYERS_CONFIG.map((_, idx) => {
+    const { steps, division } = getLayerTiming(mix, idx);
+    return getLayerPosition(tick, division, steps);
+  });
+
+// pattern: レイヤーごとのグリッド, tick: 再生開始からの tick
+// mix: { layerVolumes, layerPatches, layerSteps, layerDivisions, swing, scale, rootNote, layerTransposes }
+// ノートの col はレイヤー内のステップ番号、delayTicks はスウィングによる遅れ、stepTicks はステップの長さ
+export const getStepNotes = (pattern, tick, mix) => {
+  const { layerVolumes, layerPatches, swing = 0, scale, rootNote, layerTransposes } = mix;
+  const notes = [];
+  if (!pattern) return notes;
+
+  LAYERS_CONFIG.forEach((layer, idx) => {
+    // Grid boundary check
+    const layerGrid = pattern[idx];
+    if (!layerGrid) return;
+
+    const { steps, division } = getLayerTiming(mix, idx);
+    const col = getStepAtTick(tick, division, steps);
+    if (col === null) return;
+    const stepTicks = getDivision(division).ticks;
+    const delayTicks = getSwingDelay(tick, division, swing);
+
+    for (let r = 0; r < CONSTANTS.ROWS; r++) {
+      const step = layerGrid[r] ? sanitizeStep(layerGrid[r][col]) : false;
+      if (step) {
+        notes.push({
+          r,
+          layerIdx: idx,
+          col,
+          stepTicks,
+          delayTicks,
+          type: layer.type,
+          patch: (layerPatches && layerPatches[idx]) || DEFAULT_PATCHES[idx],
+          velocity: step.velocity,
+          probability: step.probability,
+          ratchet: step.ratchet,
+          gate: step.gate,
+          volume: layerVolumes[idx] !== undefined ? layerVolumes[idx] : DEFAULT_VOLUME,
+          freq: rowToFrequency(r, {
+            scale,
+            root: rootNote,
+            transpose: layerTransposes[idx] || 0,
+            baseOctave: layer.baseOctave
+          })
+        });
+      }
+    }
+  });
+
+  return notes;
+};
+
+// ステップのノートを実際の発音 (ヒット) に展開する。
+// probability で間引き、ratchet 回に分割し、ベロシティを音量に掛ける。
+// time は tick の時刻、tickDuration は1 tick の秒数。duration は発音の長さ (秒) = 1回分の間隔 * gate
+export const resolveHits = (notes, time, tickDuration, random = Math.random) => {
+  const hits = [];
+  notes.forEach(note => {
+    if (note.probability < 1 && random() >= note.probability) return;
+    const start = time + note.delayTicks * tickDuration;
+    const interval = (note.stepTicks * tickDuration) / note.ratchet;
+    for (let k = 0; k < note.ratchet; k++) {
+      hits.push({
+        ...note,
+        time: start + k * interval,
+        volume: note.volume * note.velocity,
+        length: note.gate / note.ratchet,
+        duration: interval * note.gate
+      });
+    }
+  });
+  return hits;
+};
+
+export const playHits = (engine, hits) => {
+  hits.forEach(hit => engine.playNote(hit));
+};
+
+// 再生と同じ小節進行 (ソングチェーン含む) で bars 小節分の tick を順に列挙する。
+// オフライン書き出し (WAV / MIDI) 用。queued な切り替えは無視する
+export const forEachArrangedStep = (state, bars, onTick) => {
+  const totalTicks = Math.max(1, bars) * TICKS_PER_BAR;
+  let playhead = createPlayhead(state.activePatternIdx);
+
+  for (let tick = 0; tick < totalTicks; tick++) {
+    if (tick % TICKS_PER_BAR === 0) {
+      playhead = advanceBar(playhead, { songMode: state.songMode, song: state.song, queuedIdx: null });
+    }
+    const notes = getStepNotes(state.patterns[playhead.patternIdx], tick, state);
+    if (notes.length > 0) onTick(tick, notes);
+  }
+};
+
+// ソングモードならチェーン1周分、通常は1小節
+export const getArrangementBars = ({ songMode, song }) =>
+  songMode ? song.reduce((sum, entry) => sum + entry.repeats, 0) : 1;
@@ -0,0 +1,598 @@
+// --- Session Save / Load ---
+// JSON (ファイル・localStorage用) と、URLハッシュ用のビットパック形式の2種類を扱う。
+// どちらも読み込み時は必ず migrateSession -> sanitize を通し、壊れた入力で画面を落とさない。
+
+import { CONSTANTS, LAYERS_CONFIG, EFFECT_TYPES } from './constants';
+import { PATTERN_SLOTS, MAX_SONG_LENGTH, createEmptyPattern, createSongEntry } from './patterns';
+import {
+  SCALES, DEFAULT_SCALE_ID, CUSTOM_SCALE_ID, DEFAULT_ROOT, NOTE_NAMES, TRANSPOSE_RANGE, MAX_CUSTOM_STEPS,
+  parseCentsTable, formatCentsTable, clampTranspose
+} from './scales';
+import { GATE_OPTIONS, RATCHET_OPTIONS, createStep, sanitizeStep, isDefaultStep } from './steps';
+import {
+  VOICES, VOICE_IDS, WAVEFORMS, FILTER_TYPES,
+  createPatch, createDefaultPatch, sanitizePatch, isSamePatch, paramToUnit, unitToParam
+} from './voices';
+import {
+  MAX_STEPS, DEFAULT_STEPS, DEFAULT_DIVISION, DIVISIONS, MAX_SWING, clampSteps, clampSwing, getDivision
+} from './timing';
+
+export const SESSION_FORMAT = 'lumina-grid-session';
+export const SESSION_VERSION = 6;
+
+const STORAGE_KEYS = Object.freeze({
+  AUTOSAVE: 'lumina-grid:autosave',
+  SLOTS: 'lumina-grid:slots'
+});
+
+export const HASH_PREFIX = '#s=';
+const DEFAULT_VOLUME = 0.8;
+
+export class SessionError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// --- 生成 ---
+// 既定値以外のステップパラメータだけを疎なリストにする
+// [pattern, layer, row, col, velocity, probability, ratchet, gate]
+const collectStepParams = (patterns) => {
+  const params = [];
+  patterns.forEach((pattern, patternIdx) => pattern.forEach((grid, layerIdx) => grid.forEach((row, r) => row.forEach((cell, c) => {
+    const step = sanitizeStep(cell);
+    if (step && !isDefaultStep(step)) {
+      params.push([patternIdx, layerIdx, r, c, step.velocity, step.probability, step.ratchet, step.gate]);
+    }
+  }))));
+  return params;
+};
+
+// グリッドは MAX_STEPS 列で持つが、保存時は最後のONセルを含む 16列単位の幅に詰める
+const getGridPages = (grid) => {
+  let last = -1;
+  grid.forEach(row => row.forEach((cell, c) => { if (cell && c > last) last = c; }));
+  return Math.max(1, Math.ceil((last + 1) / CONSTANTS.COLS));
+};
+
+export const createSession = ({
+  patterns, song, songMode, activePatternIdx, bpm, layerEffects, layerVolumes,
+  scaleId, customScale, rootNote, layerTransposes, layerPatches, layerSteps, layerDivisions, swing
+}) => ({
+  format: SESSION_FORMAT,
+  version: SESSION_VERSION,
+  savedAt: new Date().toISOString(),
+  bpm,
+  layerEffects: [...layerEffects],
+  layerVolumes: [...layerVolumes],
+  activePatternIdx,
+  songMode,
+  song: song.map(entry => ({ ...entry })),
+  scaleId,
+  customScale: customScale ? { cents: [...customScale.cents], period: customScale.period } : null,
+  rootNote,
+  layerTransposes: [...layerTransposes],
+  layerPatches: layerPatches.map(patch => ({ ...patch })),
+  layerSteps: [...layerSteps],
+  layerDivisions: [...layerDivisions],
+  swing,
+  // 可読性とサイズの両立のため、1行を "0101..." の文字列で保存する
+  patterns: patterns.map(pattern => pattern.map(grid => {
+    const width = getGridPages(grid) * CONSTANTS.COLS;
+    return grid.map(row => row.slice(0, width).map(cell => (cell ? '1' : '0')).join(''));
+  })),
+  stepParams: collectStepParams(patterns)
+});
+
+// --- マイグレーション ---
+// v1: パターンバンク導入前。{ version: 1, grids, bpm, layerEffects, layerVolumes }
+const MIGRATIONS = {
+  1: (data) => ({
+    ...data,
+    version: 2,
+    patterns: [data.grids],
+    activePatternIdx: 0,
+    songMode: false,
+    song: [{ pattern: 0, repeats: 1 }]
+  }),
+  // v2: チューニング導入前 (固定のペンタトニック / F)
+  2: (data) => ({
+    ...data,
+    version: 3,
+    scaleId: DEFAULT_SCALE_ID,
+    customScale: null,
+    rootNote: DEFAULT_ROOT,
+    layerTransposes: LAYERS_CONFIG.map(() => 0)
+  }),
+  // v3: ステップパラメータ導入前 (全ステップが既定値)
+  3: (data) => ({ ...data, version: 4, stepParams: [] }),
+  // v4: パッチ導入前 (レイヤーの type で決まる固定音色)
+  4: (data) => ({ ...data, version: 5, layerPatches: LAYERS_CONFIG.map(createDefaultPatch) }),
+  // v5: ステップ数・分割・スウィング導入前 (全レイヤー 16ステップの16分音符)
+  5: (data) => ({
+    ...data,
+    version: 6,
+    layerSteps: LAYERS_CONFIG.map(() => DEFAULT_STEPS),
+    layerDivisions: LAYERS_CONFIG.map(() => DEFAULT_DIVISION),
+    swing: 0
+  })
+};
+
+export const migrateSession = (raw) => {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new SessionError('Session data must be an object.');
+  }
+  if (raw.format !== undefined && raw.format !== SESSION_FORMAT) {
+    throw new SessionError(`Unknown session format: ${String(raw.format)}`);
+  }
+
+  // version の無い最初期のデータは v1 とみなす
+  let data = { ...raw, version: Number.isInteger(raw.version) ? raw.version : 1 };
+  if (data.version > SESSION_VERSION) {
+    throw new SessionError(`Session version ${data.version} is newer than supported (${SESSION_VERSION}).`);
+  }
+  while (data.version < SESSION_VERSION) {
+    const migrate = MIGRATIONS[data.version];
+    if (!migrate) throw new SessionError(`Cannot migrate session version ${data.version}.`);
+    data = migrate(data);
+  }
+  return data;
+};
+
+// --- バリデーション (足りない値は既定値で埋め、範囲外はクランプ) ---
+const clamp = (value, min, max, fallback) => {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  return Math.max(min, Math.min(max, num));
+};
+
+const sanitizeCell = (cell) => sanitizeStep(cell);
+
+const sanitizeGrid = (grid) => {
+  const rows = [];
+  for (let r = 0; r < CONSTANTS.ROWS; r++) {
+    const srcRow = Array.isArray(grid) ? grid[r] : undefined;
+    const cells = typeof srcRow === 'string' ? srcRow.split('') : Array.isArray(srcRow) ? srcRow : [];
+    const row = [];
+    for (let c = 0; c < MAX_STEPS; c++) row.push(sanitizeCell(cells[c]));
+    rows.push(row);
+  }
+  return rows;
+};
+
+const sanitizePattern = (pattern) =>
+  LAYERS_CONFIG.map((_, idx) => sanitizeGrid(Array.isArray(pattern) ? pattern[idx] : undefined));
+
+// ONになっているセルにだけパラメータを上書きする (OFFのセルへの指定は無視)
+const applyStepParams = (patterns, stepParams) => {
+  if (!Array.isArray(stepParams)) return;
+  stepParams.forEach(entry => {
+    if (!Array.isArray(entry)) return;
+    const [patternIdx, layerIdx, r, c, velocity, probability, ratchet, gate] = entry;
+    const row = patterns[patternIdx]?.[layerIdx]?.[r];
+    if (!row || !Number.isInteger(c) || !row[c]) return;
+    row[c] = createStep({ velocity, probability, ratchet, gate });
+  });
+};
+
+const sanitizeTuning = (data) => {
+  const customScale = sanitizeCustomScale(data.customScale);
+  const isKnownScale = SCALES.some(scale => scale.id === data.scaleId);
+  const scaleId = isKnownScale || (data.scaleId === CUSTOM_SCALE_ID && customScale) ? data.scaleId : DEFAULT_SCALE_ID;
+
+  return {
+    scaleId,
+    customScale,
+    rootNote: Math.round(clamp(data.rootNote, 0, NOTE_NAMES.length - 1, DEFAULT_ROOT)),
+    layerTransposes: LAYERS_CONFIG.map((_, idx) => (
+      clampTranspose(Array.isArray(data.layerTransposes) ? data.layerTransposes[idx] : 0)
+    ))
+  };
+};
+
+// カスタムスケールは入力欄と同じパーサーに通して検証する
+const sanitizeCustomScale = (table) => {
+  if (!table || !Array.isArray(table.cents)) return null;
+  try {
+    return parseCentsTable(formatCentsTable({ cents: table.cents, period: Number(table.period) || 1200 }));
+  } catch {
+    return null;
+  }
+};
+
+const sanitizeSession = (data) => {
+  if (!Array.isArray(data.patterns) || data.patterns.length === 0) {
+    throw new SessionError('Session has no patterns.');
+  }
+
+  const patterns = PATTERN_SLOTS.map((_, idx) => (
+    data.patterns[idx] !== undefined
+      ? sanitizePattern(data.patterns[idx])
+      : createEmptyPattern(LAYERS_CONFIG.length, CONSTANTS.ROWS, MAX_STEPS)
+  ));
+  applyStepParams(patterns, data.stepParams);
+
+  const song = (Array.isArray(data.song) ? data.song : [])
+    .slice(0, MAX_SONG_LENGTH)
+    .filter(entry => entry && typeof entry === 'object')
+    .map(entry => createSongEntry(Number(entry.pattern) || 0, Number(entry.repeats) || 1));
+
+  return {
+    bpm: Math.round(clamp(data.bpm, CONSTANTS.MIN_BPM, CONSTANTS.MAX_BPM, CONSTANTS.DEFAULT_BPM)),
+    layerEffects: LAYERS_CONFIG.map((_, idx) => {
+      const effect = Array.isArray(data.layerEffects) ? data.layerEffects[idx] : undefined;
+      return EFFECT_TYPES.includes(effect) ? effect : EFFECT_TYPES[idx % EFFECT_TYPES.length];
+    }),
+    layerVolumes: LAYERS_CONFIG.map((_, idx) => (
+      clamp(Array.isArray(data.layerVolumes) ? data.layerVolumes[idx] : undefined, 0, 1, DEFAULT_VOLUME)
+    )),
+    activePatternIdx: Math.round(clamp(data.activePatternIdx, 0, PATTERN_SLOTS.length - 1, 0)),
+    songMode: data.songMode === true,
+    song: song.length > 0 ? song : [createSongEntry(0, 1)],
+    ...sanitizeTuning(data),
+    layerPatches: LAYERS_CONFIG.map((layer, idx) => (
+      sanitizePatch(Array.isArray(data.layerPatches) ? data.layerPatches[idx] : undefined, createDefaultPatch(layer))
+    )),
+    layerSteps: LAYERS_CONFIG.map((_, idx) => clampSteps(Array.isArray(data.layerSteps) ? data.layerSteps[idx] : undefined)),
+    layerDivisions: LAYERS_CONFIG.map((_, idx) => (
+      getDivision(Array.isArray(data.layerDivisions) ? data.layerDivisions[idx] : undefined).id
+    )),
+    swing: clampSwing(data.swing),
+    patterns
+  };
+};
+
+// 任意の入力 (JSON文字列 or オブジェクト) -> 画面に適用できる状態
+export const parseSession = (input) => {
+  let raw = input;
+  if (typeof input === 'string') {
+    try {
+      raw = JSON.parse(input);
+    } catch {
+      throw new SessionError('Session file is not valid JSON.');
+    }
+  }
+  return sanitizeSession(migrateSession(raw));
+};
+
+// --- URLハッシュ用のビットパック ---
+class BitWriter {
+  constructor() {
+    this.bytes = [];
+    this.bitPos = 0;
+  }
+
+  write(value, bits) {
+    for (let i = bits - 1; i >= 0; i--) {
+      if (this.bitPos % 8 === 0) this.bytes.push(0);
+      const bit = (value >> i) & 1;
+      this.bytes[this.bytes.length - 1] |= bit << (7 - (this.bitPos % 8));
+      this.bitPos++;
+    }
+  }
+
+  toUint8Array() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class BitReader {
+  constructor(bytes) {
+    this.bytes = bytes;
+    this.bitPos = 0;
+  }
+
+  read(bits) {
+    let value = 0;
+    for (let i = 0; i < bits; i++) {
+      const byte = this.bytes[this.bitPos >> 3];
+      if (byte === undefined) throw new SessionError('Shared link is truncated.');
+      value = (value << 1) | ((byte >> (7 - (this.bitPos % 8))) & 1);
+      this.bitPos++;
+    }
+    return value;
+  }
+}
+
+const toBase64Url = (bytes) => {
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text) => {
+  const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+  let binary;
+  try {
+    binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  } catch {
+    throw new SessionError('Shared link is not valid base64.');
+  }
+  return Uint8Array.from(binary, ch => ch.charCodeAt(0));
+};
+
+const EFFECT_BITS = 2;
+const VOLUME_BITS = 7; // 0-100 (%)
+const SLOT_BITS = 3;
+const REPEAT_BITS = 4;
+const SONG_LENGTH_BITS = 7;
+const SCALE_BITS = 4; // SCALES の番号。全ビット1はカスタム
+const CUSTOM_SCALE_CODE = (1 << SCALE_BITS) - 1;
+const ROOT_BITS = 4;
+const TRANSPOSE_BITS = 6; // -24..+24 を 0..48 にずらして格納
+const PERIOD_BITS = 12;
+const STEP_COUNT_BITS = 5;
+const CENTS_BITS = 15; // 0.1セント単位
+const PARAM_COUNT_BITS = 14; // 8パターン * 4レイヤー * 256セルまで
+const ROW_BITS = 4;
+const COL_BITS = 4;
+const WIDE_COL_BITS = 6; // v6〜: 64ステップまで
+const WIDE_PARAM_COUNT_BITS = 16; // v6〜: 8パターン * 4レイヤー * 1024セルまで
+const PAGE_BITS = 2; // 16列単位のページ数 - 1
+const STEPS_BITS = 6; // ステップ数 - 1
+const DIVISION_BITS = 2; // DIVISIONS の番号
+const SWING_BITS = 7; // 0-100 (%)
+const LAYER_BITS = 2;
+const VELOCITY_BITS = 7; // 0-127
+const PROBABILITY_BITS = 7; // 0-100 (%)
+const RATCHET_BITS = 2; // RATCHET_OPTIONS の番号
+const GATE_BITS = 3; // GATE_OPTIONS の番号
+const VOICE_BITS = 2; // VOICE_IDS の番号
+const WAVEFORM_BITS = 2;
+const FILTER_TYPE_BITS = 2;
+const PATCH_PARAM_BITS = 8; // 各パラメータを 0..1 (対数カーブ込み) で量子化
+const PATCH_PARAM_MAX = (1 << PATCH_PARAM_BITS) - 1;
+
+// レイアウト: version(8) bpm(8) effects(2*L) volumes(7*L) songMode(1) active(3)
+//   patternMask(8) [空でないパターンのみ: layerMask(L) [空でないレイヤーのみ: (v6〜 pages-1(2)) ROWS*COLS*pages bit]]
+//   songLength(7) [pattern(3) repeats-1(4)]*
+//   (v3〜) scale(4) root(4) transpose(6*L) [カスタム時: period(12) count(5) [cents*10(15)]*]
+//   (v4〜) paramCount(14, v6〜 16) [pattern(3) layer(2) row(4) col(4, v6〜 6) velocity(7) probability(7) ratchet(2) gate(3)]*
+//   (v5〜) [レイヤーごと: custom(1) [custom時: voice(2) [synth: waveform(2) filterType(2)] params(8*N)]]
+//   (v6〜) [レイヤーごと: steps-1(6) division(2)] swing(7)
+export const encodeSessionHash = (session) => {
+  const state = sanitizeSession(migrateSession(session));
+  const writer = new BitWriter();
+
+  writer.write(SESSION_VERSION, 8);
+  writer.write(state.bpm, 8);
+  state.layerEffects.forEach(effect => writer.write(EFFECT_TYPES.indexOf(effect), EFFECT_BITS));
+  state.layerVolumes.forEach(volume => writer.write(Math.round(volume * 100), VOLUME_BITS));
+  writer.write(state.songMode ? 1 : 0, 1);
+  writer.write(state.activePatternIdx, SLOT_BITS);
+
+  // 空のパターン・レイヤーは1bitのフラグだけにしてリンクを短くする
+  const gridHasNotes = (grid) => grid.some(row => row.some(Boolean));
+  const patternHasNotes = state.patterns.map(pattern => pattern.some(gridHasNotes));
+  patternHasNotes.forEach(flag => writer.write(flag ? 1 : 0, 1));
+  state.patterns.forEach((pattern, idx) => {
+    if (!patternHasNotes[idx]) return;
+    const layerHasNotes = pattern.map(gridHasNotes);
+    layerHasNotes.forEach(flag => writer.write(flag ? 1 : 0, 1));
+    pattern.forEach((grid, layerIdx) => {
+      if (!layerHasNotes[layerIdx]) return;
+      const pages = getGridPages(grid);
+      writer.write(pages - 1, PAGE_BITS);
+      grid.forEach(row => row.slice(0, pages * CONSTANTS.COLS).forEach(cell => writer.write(cell ? 1 : 0, 1)));
+    });
+  });
+
+  writer.write(state.song.length, SONG_LENGTH_BITS);
+  state.song.forEach(entry => {
+    writer.write(entry.pattern, SLOT_BITS);
+    writer.write(entry.repeats - 1, REPEAT_BITS);
+  });
+
+  const isCustom = state.scaleId === CUSTOM_SCALE_ID;
+  writer.write(isCustom ? CUSTOM_SCALE_CODE : SCALES.findIndex(scale => scale.id === state.scaleId), SCALE_BITS);
+  writer.write(state.rootNote, ROOT_BITS);
+  state.layerTransposes.forEach(t => writer.write(t + TRANSPOSE_RANGE, TRANSPOSE_BITS));
+  if (isCustom) {
+    writer.write(Math.round(state.customScale.period), PERIOD_BITS);
+    writer.write(state.customScale.cents.length, STEP_COUNT_BITS);
+    state.customScale.cents.forEach(c => writer.write(Math.round(c * 10), CENTS_BITS));
+  }
+
+  const stepParams = collectStepParams(state.patterns);
+  writer.write(stepParams.length, WIDE_PARAM_COUNT_BITS);
+  stepParams.forEach(([patternIdx, layerIdx, r, c, velocity, probability, ratchet, gate]) => {
+    writer.write(patternIdx, SLOT_BITS);
+    writer.write(layerIdx, LAYER_BITS);
+    writer.write(r, ROW_BITS);
+    writer.write(c, WIDE_COL_BITS);
+    writer.write(Math.round(velocity * 127), VELOCITY_BITS);
+    writer.write(Math.round(probability * 100), PROBABILITY_BITS);
+    writer.write(RATCHET_OPTIONS.indexOf(ratchet), RATCHET_BITS);
+    writer.write(GATE_OPTIONS.indexOf(gate), GATE_BITS);
+  });
+
+  // 初期パッチのままのレイヤーはフラグ1bitだけ
+  state.layerPatches.forEach((patch, idx) => {
+    const isCustom = !isSamePatch(patch, createDefaultPatch(LAYERS_CONFIG[idx]));
+    writer.write(isCustom ? 1 : 0, 1);
+    if (!isCustom) return;
+    writer.write(VOICE_IDS.indexOf(patch.voice), VOICE_BITS);
+    if (patch.voice === 'synth') {
+      writer.write(WAVEFORMS.indexOf(patch.waveform), WAVEFORM_BITS);
+      writer.write(FILTER_TYPES.indexOf(patch.filterType), FILTER_TYPE_BITS);
+    }
+    VOICES[patch.voice].params.forEach(def => {
+      writer.write(Math.round(paramToUnit(def, patch[def.key]) * PATCH_PARAM_MAX), PATCH_PARAM_BITS);
+    });
+  });
+
+  state.layerSteps.forEach(steps => writer.write(steps - 1, STEPS_BITS));
+  state.layerDivisions.forEach(id => writer.write(DIVISIONS.findIndex(division => division.id === id), DIVISION_BITS));
+  writer.write(Math.round(state.swing / MAX_SWING * 100), SWING_BITS);
+
+  return toBase64Url(writer.toUint8Array());
+};
+
+export const decodeSessionHash = (text) => {
+  const reader = new BitReader(fromBase64Url(text));
+  const version = reader.read(8);
+  // v2 のリンクはチューニング部分が無いだけなので、読める所まで読んで migrateSession に任せる
+  if (version < 2 || version > SESSION_VERSION) {
+    throw new SessionError(`Unsupported shared link version: ${version}`);
+  }
+
+  const data = { format: SESSION_FORMAT, version };
+  data.bpm = reader.read(8);
+  data.layerEffects = LAYERS_CONFIG.map(() => EFFECT_TYPES[reader.read(EFFECT_BITS)]);
+  data.layerVolumes = LAYERS_CONFIG.map(() => reader.read(VOLUME_BITS) / 100);
+  data.songMode = reader.read(1) === 1;
+  data.activePatternIdx = reader.read(SLOT_BITS);
+
+  const patternHasNotes = PATTERN_SLOTS.map(() => reader.read(1) === 1);
+  data.patterns = patternHasNotes.map(flag => {
+    const pattern = createEmptyPattern(LAYERS_CONFIG.length, CONSTANTS.ROWS, MAX_STEPS);
+    if (!flag) return pattern;
+    const layerHasNotes = pattern.map(() => reader.read(1) === 1);
+    return pattern.map((grid, layerIdx) => {
+      if (!layerHasNotes[layerIdx]) return grid;
+      // v5 までは 16列固定
+      const width = (version >= 6 ? reader.read(PAGE_BITS) + 1 : 1) * CONSTANTS.COLS;
+      return grid.map(row => row.map((_, c) => c < width && reader.read(1) === 1));
+    });
+  });
+
+  const songLength = reader.read(SONG_LENGTH_BITS);
+  data.song = [];
+  for (let i = 0; i < songLength; i++) {
+    data.song.push({ pattern: reader.read(SLOT_BITS), repeats: reader.read(REPEAT_BITS) + 1 });
+  }
+
+  if (version >= 3) {
+    const scaleCode = reader.read(SCALE_BITS);
+    data.rootNote = reader.read(ROOT_BITS);
+    data.layerTransposes = LAYERS_CONFIG.map(() => reader.read(TRANSPOSE_BITS) - TRANSPOSE_RANGE);
+    if (scaleCode === CUSTOM_SCALE_CODE) {
+      const period = reader.read(PERIOD_BITS);
+      const count = Math.min(reader.read(STEP_COUNT_BITS), MAX_CUSTOM_STEPS);
+      const cents = [];
+      for (let i = 0; i < count; i++) cents.push(reader.read(CENTS_BITS) / 10);
+      data.scaleId = CUSTOM_SCALE_ID;
+      data.customScale = { cents, period };
+    } else {
+      data.scaleId = SCALES[scaleCode]?.id;
+    }
+  }
+
+  if (version >= 4) {
+    const count = reader.read(version >= 6 ? WIDE_PARAM_COUNT_BITS : PARAM_COUNT_BITS);
+    data.stepParams = [];
+    for (let i = 0; i < count; i++) {
+      data.stepParams.push([
+        reader.read(SLOT_BITS),
+        reader.read(LAYER_BITS),
+        reader.read(ROW_BITS),
+        reader.read(version >= 6 ? WIDE_COL_BITS : COL_BITS),
+        reader.read(VELOCITY_BITS) / 127,
+        reader.read(PROBABILITY_BITS) / 100,
+        RATCHET_OPTIONS[reader.read(RATCHET_BITS)],
+        GATE_OPTIONS[reader.read(GATE_BITS)]
+      ]);
+    }
+  }
+
+  if (version >= 5) {
+    data.layerPatches = LAYERS_CONFIG.map(layer => {
+      if (reader.read(1) === 0) return createDefaultPatch(layer);
+      const voiceId = VOICE_IDS[reader.read(VOICE_BITS)];
+      if (!voiceId) throw new SessionError('Shared link has an unknown voice.');
+      const props = {};
+      if (voiceId === 'synth') {
+        props.waveform = WAVEFORMS[reader.read(WAVEFORM_BITS)];
+        props.filterType = FILTER_TYPES[reader.read(FILTER_TYPE_BITS)];
+      }
+      VOICES[voiceId].params.forEach(def => {
+        props[def.key] = unitToParam(def, reader.read(PATCH_PARAM_BITS) / PATCH_PARAM_MAX);
+      });
+      return createPatch(voiceId, props);
+    });
+  }
+
+  if (version >= 6) {
+    data.layerSteps = LAYERS_CONFIG.map(() => reader.read(STEPS_BITS) + 1);
+    data.layerDivisions = LAYERS_CONFIG.map(() => DIVISIONS[reader.read(DIVISION_BITS)]?.id);
+    data.swing = reader.read(SWING_BITS) / 100 * MAX_SWING;
+  }
+
+  return sanitizeSession(migrateSession(data));
+};
+
+// --- localStorage (オートセーブと名前付きスロット) ---
+const getStorage = () => {
+  if (typeof window === 'undefined') return null;
+  try {
+    return window.localStorage;
+  } catch {
+    return null; // プライベートモード等でアクセス不可
+  }
+};
+
+const writeStorage = (key, value) => {
+  const storage = getStorage();
+  if (!storage) return false;
+  try {
+    storage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch (e) {
+    console.warn('Session storage write failed:', e);
+    return false;
+  }
+};
+
+const readStorage = (key) => {
+  const storage = getStorage();
+  if (!storage) return null;
+  try {
+    const text = storage.getItem(key);
+    return text ? JSON.parse(text) : null;
+  } catch (e) {
+    console.warn('Session storage read failed:', e);
+    return null;
+  }
+};
+
+export const saveAutosave = (session) => writeStorage(STORAGE_KEYS.AUTOSAVE, session);
+
+export const loadAutosave = () => {
+  const raw = readStorage(STORAGE_KEYS.AUTOSAVE);
+  if (!raw) return null;
+  try {
+    return parseSession(raw);
+  } catch (e) {
+    console.warn('Autosave ignored:', e);
+    return null;
+  }
+};
+
+const readSlots = () => {
+  const slots = readStorage(STORAGE_KEYS.SLOTS);
+  return slots && typeof slots === 'object' && !Array.isArray(slots) ? slots : {};
+};
+
+export const listSessionSlots = () =>
+  Object.entries(readSlots())
+    .map(([name, session]) => ({ name, savedAt: session?.savedAt || '' }))
+    .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+
+export const saveSessionSlot = (name, session) => {
+  const key = name.trim();
+  if (!key) throw new SessionError('Slot name is empty.');
+  return writeStorage(STORAGE_KEYS.SLOTS, { ...readSlots(), [key]: session });
+};
+
+export const loadSessionSlot = (name) => {
+  const raw = readSlots()[name];
+  if (!raw) throw new SessionError(`No saved session named "${name}".`);
+  return parseSession(raw);
+};
+
+export const deleteSessionSlot = (name) => {
+  const slots = readSlots();
+  delete slots[name];
+  return writeStorage(STORAGE_KEYS.SLOTS, slots);
+};
@@ -0,0 +1,43 @@
+// --- Step Parameters ---
+// グリッドのセルは「OFF = false / ON = ステップオブジェクト」。
+// ステップは velocity (0-1), probability (0-1), ratchet (1ステップ内の連打数), gate (音の長さの倍率) を持つ。
+
+export const RATCHET_OPTIONS = Object.freeze([1, 2, 3, 4]);
+// gate は1ステップ (16分音符) = 1 とした相対的な長さ。エンベロープもこの倍率で伸縮する
+export const GATE_OPTIONS = Object.freeze([0.25, 0.5, 1, 2, 4]);
+
+export const DEFAULT_STEP = Object.freeze({ velocity: 1, probability: 1, ratchet: 1, gate: 1 });
+
+const clamp01 = (value, fallback) => {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(0, Math.min(1, num)) : fallback;
+};
+
+const nearestOption = (options, value, fallback) => {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  return options.reduce((best, option) => (Math.abs(option - num) < Math.abs(best - num) ? option : best), options[0]);
+};
+
+// 不正な値は既定値に、範囲外はクランプして新しいステップを作る
+export const createStep = (props = {}) => ({
+  velocity: clamp01(props.velocity, DEFAULT_STEP.velocity),
+  probability: clamp01(props.probability, DEFAULT_STEP.probability),
+  ratchet: nearestOption(RATCHET_OPTIONS, props.ratchet, DEFAULT_STEP.ratchet),
+  gate: nearestOption(GATE_OPTIONS, props.gate, DEFAULT_STEP.gate)
+});
+
+// 保存データ・旧形式 (boolean) のセルをステップへ正規化
+export const sanitizeStep = (cell) => {
+  if (!cell) return false;
+  if (cell === true || cell === 1 || cell === '1') return createStep();
+  if (typeof cell === 'object') return createStep(cell);
+  return false;
+};
+
+export const isDefaultStep = (step) =>
+  Boolean(step) &&
+  step.velocity === DEFAULT_STEP.velocity &&
+  step.probability === DEFAULT_STEP.probability &&
+  step.ratchet === DEFAULT_STEP.ratchet &&
+  step.gate === DEFAULT_STEP.gate;
@@ -0,0 +1,50 @@
+// --- Timing: Step Count / Clock Division / Swing ---
+// シーケンサーは 1拍 = 12 tick の共通クロックで進む (16分 = 3, 3連16分 = 2, 8分 = 6, 3連8分 = 4 tick)。
+// 各レイヤーのステップ位置は再生開始からの tick から求めるので、長さの違うレイヤー同士はずれながら回る (ポリメーター)。
+
+export const TICKS_PER_BEAT = 12;
+export const TICKS_PER_BAR = TICKS_PER_BEAT * 4;
+
+export const MIN_STEPS = 1;
+export const MAX_STEPS = 64;
+export const DEFAULT_STEPS = 16;
+
+export const DIVISIONS = Object.freeze([
+  Object.freeze({ id: '1/8', label: '1/8', ticks: 6, triplet: false }),
+  Object.freeze({ id: '1/8T', label: '1/8T', ticks: 4, triplet: true }),
+  Object.freeze({ id: '1/16', label: '1/16', ticks: 3, triplet: false }),
+  Object.freeze({ id: '1/16T', label: '1/16T', ticks: 2, triplet: true })
+]);
+export const DEFAULT_DIVISION = '1/16';
+
+export const MAX_SWING = 1;
+
+export const getDivision = (id) => DIVISIONS.find(division => division.id === id) || getDivision(DEFAULT_DIVISION);
+
+export const clampSteps = (value) => {
+  const num = Math.round(Number(value));
+  return Number.isFinite(num) ? Math.max(MIN_STEPS, Math.min(MAX_STEPS, num)) : DEFAULT_STEPS;
+};
+
+export const clampSwing = (value) => {
+  const num = Number(value);
+  return Number.isFinite(num) ? Math.max(0, Math.min(MAX_SWING, num)) : 0;
+};
+
+// tick 時点でそのレイヤーが指しているステップ (ステップの途中なら直前のステップ)
+export const getLayerPosition = (tick, divisionId, steps) =>
+  Math.floor(tick / getDivision(divisionId).ticks) % steps;
+
+// tick がレイヤーのステップ頭ならそのステップ番号、そうでなければ null
+export const getStepAtTick = (tick, divisionId, steps) => {
+  const { ticks } = getDivision(divisionId);
+  return tick % ticks === 0 ? (tick / ticks) % steps : null;
+};
+
+// スウィング: 偶数拍に対する裏のステップ (奇数番目) を遅らせる。1 で1ステップの半分 (3:1)。
+// 3連符はそれ自体が跳ねているので揺らさない。戻り値は tick 単位 (小数あり)
+export const getSwingDelay = (tick, divisionId, swing) => {
+  const { ticks, triplet } = getDivision(divisionId);
+  if (triplet || swing <= 0) return 0;
+  return Math.floor(tick / ticks) % 2 === 1 ? swing * ticks * 0.5 : 0;
+};
@@ -0,0 +1,278 @@
+// --- Synth Voices / Patches ---
+// パッチ = { voice, ...パラメータ }。voice ごとにパラメータ定義と発音処理 (render) を持ち、
+// AudioEngine は VOICES から voice を引いて鳴らすだけにする。
+// パラメータ定義はエディタのスライダー・保存時のクランプ・共有リンクの量子化で共用する。
+
+import { DEFAULT_ROOT, rootFrequency } from './scales';
+
+export const WAVEFORMS = Object.freeze(['sine', 'triangle', 'square', 'sawtooth']);
+export const FILTER_TYPES = Object.freeze(['lowpass', 'highpass', 'bandpass']);
+
+// curve: 'log' は時間・周波数など桁で効くパラメータ
+const param = (key, label, min, max, options = {}) => Object.freeze({ key, label, min, max, curve: 'linear', integer: false, ...options });
+
+const SEND_PARAMS = [
+  param('reverbSend', 'REVERB', 0, 1),
+  param('delaySend', 'DELAY', 0, 1)
+];
+
+const SYNTH_PARAMS = Object.freeze([
+  param('level', 'LEVEL', 0, 1),
+  param('attack', 'ATTACK', 0.001, 2, { curve: 'log' }),
+  param('decay', 'DECAY', 0.01, 4, { curve: 'log' }),
+  param('sustain', 'SUSTAIN', 0, 1),
+  param('release', 'RELEASE', 0.01, 4, { curve: 'log' }),
+  param('cutoff', 'CUTOFF', 40, 20000, { curve: 'log' }),
+  param('resonance', 'RESO', 0.1, 20, { curve: 'log' }),
+  param('filterEnv', 'F.ENV (OCT)', -4, 4),
+  param('unison', 'UNISON', 1, 4, { integer: true }),
+  param('detune', 'DETUNE (¢)', 0, 100),
+  param('fmRatio', 'FM RATIO', 0.25, 8, { curve: 'log' }),
+  param('fmDepth', 'FM DEPTH', 0, 10),
+  ...SEND_PARAMS
+]);
+
+const DRUM_PARAMS = Object.freeze([
+  param('level', 'LEVEL', 0, 1),
+  param('kickPitch', 'KICK PITCH', 40, 300, { curve: 'log' }),
+  param('kickDecay', 'KICK DECAY', 0.05, 2, { curve: 'log' }),
+  param('snareTone', 'SNARE TONE', 200, 8000, { curve: 'log' }),
+  param('snareDecay', 'SNARE DECAY', 0.02, 1, { curve: 'log' }),
+  param('hatTone', 'HAT TONE', 2000, 16000, { curve: 'log' }),
+  param('hatDecay', 'HAT DECAY', 0.01, 0.5, { curve: 'log' }),
+  ...SEND_PARAMS
+]);
+
+// --- 共通ヘルパー ---
+const clampParam = (def, value, fallback) => {
+  const num = Number(value);
+  if (!Number.isFinite(num)) return fallback;
+  const clamped = Math.max(def.min, Math.min(def.max, num));
+  return def.integer ? Math.round(clamped) : clamped;
+};
+
+// 0..1 <-> パラメータ値 (スライダーと共有リンクの量子化用)
+export const paramToUnit = (def, value) => (
+  def.curve === 'log'
+    ? Math.log(value / def.min) / Math.log(def.max / def.min)
+    : (value - def.min) / (def.max - def.min)
+);
+
+export const unitToParam = (def, unit) => {
+  const u = Math.max(0, Math.min(1, unit));
+  const value = def.curve === 'log'
+    ? def.min * Math.pow(def.max / def.min, u)
+    : def.min + (def.max - def.min) * u;
+  return clampParam(def, value, def.min);
+};
+
+const createNoiseBuffer = (ctx, seconds) => {
+  const size = Math.max(1, Math.ceil(ctx.sampleRate * seconds));
+  const buffer = ctx.createBuffer(1, size, ctx.sampleRate);
+  const data = buffer.getChannelData(0);
+  for (let i = 0; i < size; i++) data[i] = Math.random() * 2 - 1;
+  return buffer;
+};
+
+const FLOOR = 0.0001; // exponentialRamp は 0 に向かえないので下限を設ける
+
+// ADSR を AudioParam に書き込む。noteOff がディケイ途中なら、その時点の値から解放する
+// 戻り値: 音が完全に消える時刻
+const applyEnvelope = (audioParam, { start, peak, sustain }, { now, attack, decay, release, noteOff }) => {
+  const attackEnd = now + attack;
+  const decayEnd = attackEnd + decay;
+  const safePeak = Math.max(FLOOR, peak);
+  const safeSustain = Math.max(FLOOR, sustain);
+
+  audioParam.setValueAtTime(start, now);
+  audioParam.linearRampToValueAtTime(safePeak, attackEnd);
+  if (noteOff >= decayEnd) {
+    audioParam.exponentialRampToValueAtTime(safeSustain, decayEnd);
+    audioParam.setValueAtTime(safeSustain, noteOff);
+  } else {
+    const progress = (noteOff - attackEnd) / decay;
+    audioParam.exponentialRampToValueAtTime(safePeak * Math.pow(safeSustain / safePeak, progress), noteOff);
+  }
+  audioParam.exponentialRampToValueAtTime(Math.max(FLOOR, start), noteOff + release);
+  return noteOff + release;
+};
+
+// --- Synth Voice ---
+// オシレーター (unison で detune を広げて重ねる) -> フィルター (エンベロープ付き) -> VCA
+// fmDepth > 0 ならサイン波のモジュレーターで各オシレーターの周波数を変調する
+const renderSynth = (ctx, destination, patch, { freq: rawFreq, volume, now, duration }) => {
+  const nyquist = ctx.sampleRate / 2;
+  const freq = Math.min(nyquist, Number.isFinite(rawFreq) && rawFreq > 0 ? rawFreq : rootFrequency(DEFAULT_ROOT));
+  const noteOff = now + Math.max(duration, patch.attack);
+  const times = { now, attack: patch.attack, decay: patch.decay, release: patch.release, noteOff };
+
+  const vca = ctx.createGain();
+  const peak = patch.level * volume;
+  const end = applyEnvelope(vca.gain, { start: 0, peak, sustain: peak * patch.sustain }, times);
+
+  const filter = ctx.createBiquadFilter();
+  filter.type = patch.filterType;
+  filter.Q.value = patch.resonance;
+  const clampFreq = (f) => Math.max(20, Math.min(nyquist, f));
+  const envPeak = clampFreq(patch.cutoff * Math.pow(2, patch.filterEnv));
+  const envSustain = clampFreq(patch.cutoff * Math.pow(2, patch.filterEnv * patch.sustain));
+  applyEnvelope(filter.frequency, { start: clampFreq(patch.cutoff), peak: envPeak, sustain: envSustain }, times);
+
+  filter.connect(vca);
+  vca.connect(destination);
+
+  let modulator = null;
+  let modGain = null;
+  if (patch.fmDepth > 0) {
+    modulator = ctx.createOscillator();
+    modGain = ctx.createGain();
+    const modFreq = freq * patch.fmRatio;
+    modulator.frequency.setValueAtTime(modFreq, now);
+    modGain.gain.setValueAtTime(patch.fmDepth * modFreq, now); // 変調指数 * モジュレーター周波数
+    modulator.connect(modGain);
+  }
+
+  const voices = patch.unison;
+  const voiceGain = ctx.createGain();
+  voiceGain.gain.value = 1 / Math.sqrt(voices);
+  voiceGain.connect(filter);
+
+  const stopAt = end + 0.05;
+  for (let i = 0; i < voices; i++) {
+    const osc = ctx.createOscillator();
+    osc.type = patch.waveform;
+    osc.frequency.setValueAtTime(freq, now);
+    // unison 1 なら detune は無効。複数なら -detune..+detune に均等に広げる
+    osc.detune.setValueAtTime(voices > 1 ? patch.detune * (2 * i / (voices - 1) - 1) : 0, now);
+    if (modGain) modGain.connect(osc.frequency);
+    osc.connect(voiceGain);
+    osc.start(now);
+    osc.stop(stopAt);
+  }
+  if (modulator) {
+    modulator.start(now);
+    modulator.stop(stopAt);
+  }
+};
+
+// --- Drum Voice ---
+// 行で音色を選ぶ (下4行: キック, 4行: スネア, 上8行: ハット)。length (gate) で減衰時間を伸縮する
+const renderDrum = (ctx, destination, patch, { r, volume, now, length }) => {
+  const out = ctx.createGain();
+  out.gain.value = patch.level * volume;
+  out.connect(destination);
+
+  if (r >= 12) {
+    const decay = patch.kickDecay * length;
+    const osc = ctx.createOscillator();
+    const gain = ctx.createGain();
+    osc.frequency.setValueAtTime(patch.kickPitch, now);
+    osc.frequency.exponentialRampToValueAtTime(0.01, now + decay);
+    gain.gain.setValueAtTime(1, now);
+    gain.gain.exponentialRampToValueAtTime(0.001, now + decay);
+    osc.connect(gain);
+    gain.connect(out);
+    osc.start(now);
+    osc.stop(now + decay + 0.01); // 余分なマージンを持たせてstop
+  } else if (r >= 8) {
+    const decay = patch.snareDecay * length;
+    const noise = ctx.createBufferSource();
+    noise.buffer = createNoiseBuffer(ctx, decay);
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'bandpass';
+    filter.frequency.value = patch.snareTone;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(1, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + decay);
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(out);
+    noise.start(now);
+  } else {
+    const decay = patch.hatDecay * length;
+    const noise = ctx.createBufferSource();
+    noise.buffer = createNoiseBuffer(ctx, decay);
+    const filter = ctx.createBiquadFilter();
+    filter.type = 'highpass';
+    filter.frequency.value = patch.hatTone;
+    const gain = ctx.createGain();
+    gain.gain.setValueAtTime(0.6, now);
+    gain.gain.exponentialRampToValueAtTime(0.01, now + decay);
+    noise.connect(filter);
+    filter.connect(gain);
+    gain.connect(out);
+    noise.start(now);
+  }
+};
+
+// --- Registry ---
+export const VOICES = Object.freeze({
+  synth: Object.freeze({
+    id: 'synth',
+    label: 'SYNTH',
+    params: SYNTH_PARAMS,
+    defaults: Object.freeze({
+      waveform: 'sine', filterType: 'lowpass',
+      level: 0.6, attack: 0.01, decay: 0.5, sustain: 0, release: 0.5,
+      cutoff: 20000, resonance: 0.7, filterEnv: 0,
+      unison: 1, detune: 12, fmRatio: 2, fmDepth: 0,
+      reverbSend: 0, delaySend: 0
+    }),
+    render: renderSynth
+  }),
+  drum: Object.freeze({
+    id: 'drum',
+    label: 'DRUM',
+    params: DRUM_PARAMS,
+    defaults: Object.freeze({
+      level: 1, kickPitch: 150, kickDecay: 0.5, snareTone: 1000, snareDecay: 0.2, hatTone: 5000, hatDecay: 0.05,
+      reverbSend: 0, delaySend: 0
+    }),
+    render: renderDrum
+  })
+});
+
+export const VOICE_IDS = Object.freeze(Object.keys(VOICES));
+
+// 共有ディレイはテンポ同期 (付点8分 = 3ステップ)
+export const getDelayTime = (bpm) => (60 / Math.max(1, bpm)) * 0.75;
+
+// 旧来の固定音色 (レイヤーの type) に合わせた初期パッチ
+const LEGACY_TONES = Object.freeze({
+  sine: { level: 0.6, attack: 0.01, decay: 0.5, release: 0.5 },
+  triangle: { level: 0.5, attack: 0.05, decay: 0.75, release: 0.75 },
+  square: { level: 0.3, attack: 0.01, decay: 0.3, release: 0.3 },
+  sawtooth: { level: 0.3, attack: 0.01, decay: 0.4, release: 0.4 }
+});
+
+export const createPatch = (voiceId, props = {}) => {
+  const voice = VOICES[voiceId] || VOICES.synth;
+  const patch = { voice: voice.id };
+  voice.params.forEach(def => {
+    patch[def.key] = clampParam(def, props[def.key], voice.defaults[def.key]);
+  });
+  if (voice.id === 'synth') {
+    patch.waveform = WAVEFORMS.includes(props.waveform) ? props.waveform : voice.defaults.waveform;
+    patch.filterType = FILTER_TYPES.includes(props.filterType) ? props.filterType : voice.defaults.filterType;
+  }
+  return patch;
+};
+
+export const createDefaultPatch = (layer) => (
+  layer.type === 'drum'
+    ? createPatch('drum')
+    : createPatch('synth', { waveform: layer.type, ...LEGACY_TONES[layer.type] })
+);
+
+// 保存データのパッチを正規化。不正なら fallback (レイヤーの初期パッチ)
+export const sanitizePatch = (raw, fallback) => {
+  if (!raw || typeof raw !== 'object' || !VOICES[raw.voice]) return fallback;
+  return createPatch(raw.voice, raw);
+};
+
+export const isSamePatch = (a, b) => (
+  a.voice === b.voice &&
+  a.waveform === b.waveform &&
+  a.filterType === b.filterType &&
+  VOICES[a.voice].params.every(def => a[def.key] === b[def.key])
+);
@@ -0,0 +1,82 @@
+// --- WAV Encoder ---
+// ブラウザAPIに依存しない純粋なエンコーダ (Float32Array のチャンネル配列 -> RIFF/WAVE)
+
+export const WAV_FORMATS = Object.freeze({
+  PCM16: 'pcm16',
+  FLOAT32: 'float32'
+});
+
+const FORMAT_TAGS = Object.freeze({
+  [WAV_FORMATS.PCM16]: { tag: 1, bytesPerSample: 2 },    // WAVE_FORMAT_PCM
+  [WAV_FORMATS.FLOAT32]: { tag: 3, bytesPerSample: 4 }   // WAVE_FORMAT_IEEE_FLOAT
+});
+
+const writeAscii = (view, offset, text) => {
+  for (let i = 0; i < text.length; i++) view.setUint8(offset + i, text.charCodeAt(i));
+};
+
+// channels: チャンネルごとの Float32Array (全て同じ長さ)
+export const encodeWav = (channels, sampleRate, format = WAV_FORMATS.PCM16) => {
+  const spec = FORMAT_TAGS[format];
+  if (!spec) throw new Error(`Unsupported WAV format: ${format}`);
+  if (!Array.isArray(channels) || channels.length === 0) throw new Error('At least one channel is required.');
+  if (!Number.isInteger(sampleRate) || sampleRate <= 0) throw new Error(`Invalid sample rate: ${sampleRate}`);
+
+  const frameCount = channels[0].length;
+  if (channels.some(ch => ch.length !== frameCount)) throw new Error('All channels must have the same length.');
+
+  const numChannels = channels.length;
+  const blockAlign = numChannels * spec.bytesPerSample;
+  const dataSize = frameCount * blockAlign;
+  // IEEE float は fmt チャンクに cbSize (2byte) を持たせる
+  const fmtSize = spec.tag === 1 ? 16 : 18;
+  const factSize = spec.tag === 1 ? 0 : 12; // 非PCMには fact チャンクが必要
+  const headerSize = 12 + (8 + fmtSize) + factSize + 8;
+
+  const buffer = new ArrayBuffer(headerSize + dataSize);
+  const view = new DataView(buffer);
+  let offset = 0;
+
+  writeAscii(view, offset, 'RIFF'); offset += 4;
+  view.setUint32(offset, buffer.byteLength - 8, true); offset += 4;
+  writeAscii(view, offset, 'WAVE'); offset += 4;
+
+  writeAscii(view, offset, 'fmt '); offset += 4;
+  view.setUint32(offset, fmtSize, true); offset += 4;
+  view.setUint16(offset, spec.tag, true); offset += 2;
+  view.setUint16(offset, numChannels, true); offset += 2;
+  view.setUint32(offset, sampleRate, true); offset += 4;
+  view.setUint32(offset, sampleRate * blockAlign, true); offset += 4;
+  view.setUint16(offset, blockAlign, true); offset += 2;
+  view.setUint16(offset, spec.bytesPerSample * 8, true); offset += 2;
+  if (fmtSize === 18) {
+    view.setUint16(offset, 0, true); offset += 2;
+  }
+
+  if (factSize) {
+    writeAscii(view, offset, 'fact'); offset += 4;
+    view.setUint32(offset, 4, true); offset += 4;
+    view.setUint32(offset, frameCount, true); offset += 4;
+  }
+
+  writeAscii(view, offset, 'data'); offset += 4;
+  view.setUint32(offset, dataSize, true); offset += 4;
+
+  // インターリーブして書き込み
+  for (let i = 0; i < frameCount; i++) {
+    for (let ch = 0; ch < numChannels; ch++) {
+      const raw = channels[ch][i];
+      const sample = Number.isFinite(raw) ? raw : 0;
+      if (spec.tag === 1) {
+        // クリップしてから16bit整数へ (負側は 0x8000 まで使う)
+        const clamped = Math.max(-1, Math.min(1, sample));
+        view.setInt16(offset, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+      } else {
+        view.setFloat32(offset, sample, true);
+      }
+      offset += spec.bytesPerSample;
+    }
+  }
+
+  return buffer;
+};
@@ -0,0 +1,248 @@
+// --- Web MIDI ---
+// 外部機器との接続: ノートの入出力と MIDI クロック (24 PPQN) の送信・追従。
+// navigator.requestMIDIAccess は connect() の呼び出し時に参照するので、テストではモックに差し替えられる。
+
+export class WebMidiError extends Error {
+  constructor(message) {
+    super(message);
+    this.name = 'WebMidiError';
+  }
+}
+
+export const CLOCK_MODES = Object.freeze({ INTERNAL: 'internal', SEND: 'send', FOLLOW: 'follow' });
+export const INPUT_MODES = Object.freeze({ TOGGLE: 'toggle', PREVIEW: 'preview' });
+export const ALL_INPUTS = 'all';
+export const MIDI_CHANNELS = 16;
+
+export const CLOCK_PPQN = 24;
+
+const STATUS = Object.freeze({
+  NOTE_OFF: 0x80,
+  NOTE_ON: 0x90,
+  CLOCK: 0xf8,
+  START: 0xfa,
+  CONTINUE: 0xfb,
+  STOP: 0xfc
+});
+
+// --- Messages ---
+// 受信データ -> { type, channel?, note?, velocity? }。扱わないメッセージは null
+export const parseMidiMessage = (data) => {
+  if (!data || data.length === 0) return null;
+  const status = data[0];
+
+  switch (status) {
+    case STATUS.CLOCK: return { type: 'clock' };
+    case STATUS.START: return { type: 'start' };
+    case STATUS.CONTINUE: return { type: 'continue' };
+    case STATUS.STOP: return { type: 'stop' };
+    default: break;
+  }
+
+  const kind = status & 0xf0;
+  const channel = status & 0x0f;
+  if (data.length < 3) return null;
+  if (kind === STATUS.NOTE_ON && data[2] > 0) return { type: 'noteOn', channel, note: data[1], velocity: data[2] };
+  if (kind === STATUS.NOTE_OFF || kind === STATUS.NOTE_ON) return { type: 'noteOff', channel, note: data[1], velocity: data[2] };
+  return null;
+};
+
+export const noteOnMessage = (channel, note, velocity) => [STATUS.NOTE_ON | (channel & 0x0f), note & 0x7f, velocity & 0x7f];
+export const noteOffMessage = (channel, note) => [STATUS.NOTE_OFF | (channel & 0x0f), note & 0x7f, 0];
+export const CLOCK_MESSAGE = Object.freeze([STATUS.CLOCK]);
+export const START_MESSAGE = Object.freeze([STATUS.START]);
+export const STOP_MESSAGE = Object.freeze([STATUS.STOP]);
+
+// AudioContext の時刻 (秒) <-> MIDI のタイムスタンプ (performance.now() 基準のミリ秒)
+export const audioTimeToTimestamp = (audioTime, audioNow, perfNow) => perfNow + (audioTime - audioNow) * 1000;
+export const timestampToAudioTime = (timestamp, audioNow, perfNow) => audioNow + (timestamp - perfNow) / 1000;
+
+// --- Bridge ---
+// MIDIAccess の保持・ポート一覧・受信ハンドラの付け替え・送信をまとめる
+export class WebMidiBridge {
+  // onMessage(message, timestamp, inputId): 選択中の入力からのメッセージ
+  // onPortsChange(ports): 機器の抜き差し
+  constructor({ onMessage, onPortsChange }) {
+    this.onMessage = onMessage;
+    this.onPortsChange = onPortsChange;
+    this.access = null;
+    this.inputId = null;
+  }
+
+  get isConnected() {
+    return this.access !== null;
+  }
+
+  async connect() {
+    if (this.access) return this.getPorts();
+    const nav = typeof navigator !== 'undefined' ? navigator : undefined;
+    if (!nav || typeof nav.requestMIDIAccess !== 'function') {
+      throw new WebMidiError('Web MIDI is not supported in this browser.');
+    }
+
+    try {
+      this.access = await nav.requestMIDIAccess({ sysex: false });
+    } catch (e) {
+      throw new WebMidiError(`MIDI access was denied: ${e && e.message ? e.message : e}`);
+    }
+
+    this.access.onstatechange = () => {
+      this.attachInputs();
+      if (this.onPortsChange) this.onPortsChange(this.getPorts());
+    };
+    this.attachInputs();
+    return this.getPorts();
+  }
+
+  getPorts() {
+    if (!this.access) return { inputs: [], outputs: [] };
+    const list = (ports) => [...ports.values()]
+      .filter(port => port.state !== 'disconnected')
+      .map(port => ({ id: port.id, name: port.name || port.id }));
+    return { inputs: list(this.access.inputs), outputs: list(this.access.outputs) };
+  }
+
+  // id: 入力ポートの id / ALL_INPUTS / null (受信しない)
+  setInput(id) {
+    this.inputId = id;
+    this.attachInputs();
+  }
+
+  attachInputs() {
+    if (!this.access) return;
+    this.access.inputs.forEach(input => {
+      const selected = this.inputId === ALL_INPUTS || this.inputId === input.id;
+      input.onmidimessage = selected
+        ? (event) => {
+          const message = parseMidiMessage(event.data);
+          if (message && this.onMessage) this.onMessage(message, event.timeStamp, input.id);
+        }
+        : null;
+    });
+  }
+
+  // timestamp: performance.now() 基準 (省略時は即時)
+  send(outputId, data, timestamp) {
+    if (!this.access || !outputId) return;
+    const output = this.access.outputs.get(outputId);
+    if (!output) return;
+    try {
+      output.send(data, timestamp);
+    } catch (e) {
+      console.warn('MIDI send failed:', e);
+    }
+  }
+
+  sendNote(outputId, channel, note, velocity, timestamp, durationMs) {
+    this.send(outputId, noteOnMessage(channel, note, velocity), timestamp);
+    this.send(outputId, noteOffMessage(channel, note), timestamp + Math.max(1, durationMs));
+  }
+
+  dispose() {
+    if (!this.access) return;
+    this.access.inputs.forEach(input => { input.onmidimessage = null; });
+    this.access.onstatechange = null;
+    this.access = null;
+  }
+}
+
+// --- Clock Follower ---
+// 外部クロック (24 PPQN) を数え、シーケンサーの1ステップ (1拍 / ticksPerBeat) 分のパルスごとに進める。
+// StepScheduler と同じ start / stop / setBpm を持ち、シーケンサー側はどちらが時間を刻んでいるかを意識しない。
+// パルスは停止中も数え続けるので、Start 直後のパルスを取りこぼさない。
+// Start からシーケンサーが start() を呼ぶまで (次の描画) に届いたステップは溜めておき、start() で鳴らす。
+const TEMPO_WINDOW = 24; // 1拍分のパルス間隔からテンポを推定
+const FOLLOW_LATENCY_SEC = 0.03; // 受信から発音までの余裕 (ジッター吸収)
+
+export class MidiClockFollower {
+  // onTempo(bpm): 推定テンポが変わった時
+  // ticksPerBeat: シーケンサーの1拍あたりのステップ数 (24 の約数)
+  constructor({ onTempo, ticksPerBeat = 4 } = {}) {
+    this.onTempo = onTempo;
+    this.ticksPerBeat = ticksPerBeat;
+    this.pulsesPerStep = CLOCK_PPQN / ticksPerBeat;
+    this.getTime = null;
+    this.onStep = null;
+    this.running = false;
+    this.awaitingStart = false; // Start を受けて start() を待っている間
+    this.pendingSteps = []; // その間に届いたステップ { step, timestamp }
+    this.pulseCount = 0;
+    this.pulseTimes = [];
+    this.bpm = null;
+  }
+
+  get isRunning() {
+    return this.running;
+  }
+
+  get stepDuration() {
+    return 60 / (this.bpm || 120) / this.ticksPerBeat;
+  }
+
+  // getTime: オーディオクロックの現在時刻, onStep(step, time, duration)
+  attach({ getTime, onStep }) {
+    this.getTime = getTime;
+    this.onStep = onStep;
+  }
+
+  start() {
+    this.running = true;
+    const pending = this.pendingSteps;
+    this.awaitingStart = false;
+    this.pendingSteps = [];
+    pending.forEach(({ step, timestamp }) => this.emitStep(step, timestamp, performance.now()));
+  }
+
+  stop() {
+    this.running = false;
+    this.awaitingStart = false;
+    this.pendingSteps = [];
+  }
+
+  setBpm() {
+    // テンポは外部クロックが決める
+  }
+
+  // Start (0xFA): 曲頭に戻る
+  reset() {
+    this.pulseCount = 0;
+    this.pulseTimes = [];
+    this.awaitingStart = !this.running;
+    this.pendingSteps = [];
+  }
+
+  // timestamp: 受信時刻 (performance.now() 基準), perfNow: 現在の performance.now()
+  pulse(timestamp, perfNow) {
+    this.pulseTimes.push(timestamp);
+    if (this.pulseTimes.length > TEMPO_WINDOW + 1) this.pulseTimes.shift();
+    this.updateTempo();
+
+    const pulse = this.pulseCount++;
+    if (pulse % this.pulsesPerStep !== 0) return;
+    const step = pulse / this.pulsesPerStep;
+    if (this.running) this.emitStep(step, timestamp, perfNow);
+    else if (this.awaitingStart) this.pendingSteps.push({ step, timestamp });
+  }
+
+  emitStep(step, timestamp, perfNow) {
+    if (!this.onStep || !this.getTime) return;
+    const time = timestampToAudioTime(timestamp, this.getTime(), perfNow) + FOLLOW_LATENCY_SEC;
+    try {
+      this.onStep(step, Math.max(time, this.getTime()), this.stepDuration);
+    } catch (e) {
+      console.warn('Clock follower step error:', e);
+    }
+  }
+
+  updateTempo() {
+    const times = this.pulseTimes;
+    if (times.length < TEMPO_WINDOW + 1) return;
+    const beatMs = times[times.length - 1] - times[0];
+    if (beatMs <= 0) return;
+    const bpm = 60000 / beatMs;
+    if (this.bpm === null || Math.abs(bpm - this.bpm) >= 0.5) {
+      this.bpm = bpm;
+      if (this.onTempo) this.onTempo(bpm);
+    }
+  }
+}
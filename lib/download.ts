@@ -0,0 +1,14 @@
+// --- Download ---
+// Blob をファイルとしてダウンロードさせる (各ページの書き出しで共通)
+
+// click() と同じ tick で URL を解放すると、Firefox / Safari が大きなファイル (WAV・ZIP など) の保存を取りやめることがある
+const REVOKE_DELAY_MS = 1000;
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};